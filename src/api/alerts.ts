@@ -0,0 +1,11 @@
+// src/api/alerts.ts
+import { apiClient, ignore, Page, unwrap } from './client';
+import { Alert } from '../types/Alert';
+
+export const alertsApi = {
+    getPage: (page: number, size: number) =>
+        unwrap<Page<Alert>>(apiClient.get('/alerts', { params: { page, size } })),
+
+    read: (alertIds: number[]) =>
+        ignore(apiClient.patch('/alerts', { alertIds })),
+};
@@ -0,0 +1,56 @@
+// src/api/auth.ts
+import { apiClient, ignore, rsData, unwrap } from './client';
+import { CurrentUser } from '../types/Member';
+
+export interface LoginTokens {
+    accessToken: string;
+    refreshToken: string;
+}
+
+export interface SignupRequest {
+    email: string;
+    password: string;
+    nickname: string;
+}
+
+export interface EmailInfo {
+    maskedEmail: string;
+    createdAt: string;
+}
+
+// 조회 캐시 키 - /auth/me 는 SessionProvider 와 마이페이지가 같은 캐시를 쓴다
+export const authKeys = {
+    me: ['auth', 'me'] as const,
+};
+
+export const authApi = {
+    login: (email: string, password: string) =>
+        unwrap<LoginTokens>(apiClient.post('/auth/login', { email, password })),
+
+    logout: (memberId?: number) =>
+        ignore(apiClient.post('/auth/logout', { memberId })),
+
+    me: <T = CurrentUser>() =>
+        unwrap<T>(apiClient.get('/auth/me')),
+
+    signup: (body: SignupRequest) =>
+        rsData<unknown>(apiClient.post('/auth/signup', body)),
+
+    sendEmailVerificationCode: (email: string) =>
+        rsData<unknown>(apiClient.post('/auth/email/verification-code', { email })),
+
+    verifyEmail: (email: string, code: string) =>
+        rsData<unknown>(apiClient.post('/auth/email/verify', { email, code })),
+
+    findAccount: (phoneNumber: string) =>
+        unwrap<{ emailInfos: EmailInfo[] }>(apiClient.post('/auth/find-account', { phoneNumber })),
+
+    requestPasswordReset: (email: string) =>
+        ignore(apiClient.post('/auth/password/reset', { email })),
+
+    verifyPasswordReset: (email: string, code: string) =>
+        ignore(apiClient.post('/auth/password/reset/verify', { email, code })),
+
+    resetPassword: (email: string, newPassword: string) =>
+        ignore(apiClient.patch('/auth/password/reset/new', { email, newPassword })),
+};
@@ -0,0 +1,20 @@
+// src/api/boardComments.ts
+import { apiClient, unwrap } from './client';
+import { BoardComment } from '../types/Board';
+import { CommentReaction } from '../types/Comment';
+
+export const boardCommentsApi = {
+    // superCommentId: 답글이면 상위 댓글 ID, 아니면 null / mentions: 멘션된 닉네임 (서버가 멘션 알림을 보낸다)
+    create: (boardId: string | number, content: string, superCommentId: number | null = null, mentions: string[] = []) =>
+        unwrap<BoardComment>(apiClient.post(`/boardComment/create/${boardId}`, { content, superCommentId, mentions })),
+
+    modify: (commentId: number, content: string, mentions: string[] = []) =>
+        unwrap<BoardComment>(apiClient.patch(`/boardComment/modify/${commentId}`, { content, mentions })),
+
+    remove: (commentId: number) =>
+        unwrap<unknown>(apiClient.delete(`/boardComment/delete/${commentId}`)),
+
+    // 댓글 반응 - 같은 이모지를 다시 보내면 취소되고, 바뀐 반응 목록을 돌려준다
+    toggleReaction: (commentId: number, emoji: string) =>
+        unwrap<CommentReaction[]>(apiClient.post(`/boardComment/reaction/${commentId}`, { emoji })),
+};
@@ -0,0 +1,26 @@
+// src/api/boards.ts
+import { apiClient, ignore, Page, unwrap } from './client';
+import { Board, BoardDetail } from '../types/Board';
+
+export interface BoardRequest {
+    title: string;
+    content: string;
+}
+
+// 공지사항
+export const boardsApi = {
+    getPage: (page?: number, size?: number) =>
+        unwrap<Page<Board>>(apiClient.get('/boards', { params: { page, size } })),
+
+    get: (boardId: string | number) =>
+        unwrap<BoardDetail>(apiClient.get(`/boards/${boardId}`)),
+
+    create: (body: BoardRequest) =>
+        ignore(apiClient.post('/boards/create', body)),
+
+    update: (boardId: string | number, body: BoardRequest) =>
+        ignore(apiClient.patch(`/boards/${boardId}`, body)),
+
+    remove: (boardId: number) =>
+        ignore(apiClient.delete(`/boards/${boardId}`)),
+};
@@ -0,0 +1,65 @@
+// src/api/chatMessages.ts
+import { apiClient, ignore, Page, unwrap } from './client';
+import { ChatMessage, MemberStatus, MessageCount } from '../types/Chat';
+
+export interface SendMessageRequest {
+    content: string;
+    originalFileName?: string;
+    mentions?: string[]; // 멘션된 닉네임 - 서버가 멘션 알림을 보낸다
+}
+
+export interface ModifyMessageRequest {
+    content: string;
+    mentions?: string[];
+}
+
+// 채팅방 내부 - /chatRooms/{chatRoomId}/... 엔드포인트
+export const chatMessagesApi = {
+    getMessages: (chatRoomId: string, page: number) =>
+        unwrap<Page<ChatMessage>>(apiClient.get(`/chatRooms/${chatRoomId}/messages`, { params: { page } })),
+
+    // eks 붙이면 엘라스틱, 안붙이면 쿼리dsl
+    search: (chatRoomId: string, keyword: string, nickname: string) =>
+        unwrap<Page<ChatMessage>>(apiClient.get(`/chatRooms/${chatRoomId}/messages/search/eks`, { params: { keyword, nickname } })),
+
+    send: (chatRoomId: string, body: SendMessageRequest) =>
+        ignore(apiClient.post(`/chatRooms/${chatRoomId}/messages`, body)),
+
+    // 수정/삭제는 /topic/chat/{chatRoomId} 로 EDIT / DELETE 가 전달된다
+    modify: (chatRoomId: string, messageId: number, body: ModifyMessageRequest) =>
+        ignore(apiClient.put(`/chatRooms/${chatRoomId}/messages/${messageId}`, body)),
+
+    remove: (chatRoomId: string, messageId: number) =>
+        ignore(apiClient.delete(`/chatRooms/${chatRoomId}/messages/${messageId}`)),
+
+    // 같은 이모지를 다시 보내면 취소 - 바뀐 반응은 /topic/chat/{chatRoomId} 로 REACTION 이 전달된다
+    toggleReaction: (chatRoomId: string, messageId: number, emoji: string) =>
+        ignore(apiClient.post(`/chatRooms/${chatRoomId}/messages/${messageId}/reactions`, { emoji })),
+
+    getReadCounts: (chatRoomId: string) =>
+        unwrap<MessageCount[]>(apiClient.get(`/chatRooms/${chatRoomId}/messages/count`)),
+
+    updateReadStatus: (chatRoomId: string, messageId: number) =>
+        ignore(apiClient.put(`/chatRooms/${chatRoomId}/messages/readStatus`, { messageId })),
+
+    getMembers: (chatRoomId: string) =>
+        unwrap<MemberStatus[]>(apiClient.get(`/chatRooms/${chatRoomId}/members`)),
+
+    login: (chatRoomId: string) =>
+        ignore(apiClient.patch(`/chatRooms/${chatRoomId}/members/login`, {})),
+
+    logout: (chatRoomId: string) =>
+        ignore(apiClient.patch(`/chatRooms/${chatRoomId}/members/logout`, {})),
+
+    // 업로드된 파일의 S3 URL 반환
+    uploadFile: (chatRoomId: string, file: File) => {
+        const formData = new FormData();
+        formData.append('file', file);
+        return unwrap<string>(apiClient.post(`/chatRooms/${chatRoomId}/files/upload`, formData, {
+            headers: { 'Content-Type': 'multipart/form-data' },
+        }));
+    },
+
+    deleteFile: (chatRoomId: string, fileName: string) =>
+        unwrap<unknown>(apiClient.delete(`/chatRooms/${chatRoomId}/files/delete`, { params: { fileName } })),
+};
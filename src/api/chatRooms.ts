@@ -0,0 +1,64 @@
+// src/api/chatRooms.ts
+import { apiClient, ignore, Page, raw } from './client';
+import { invalidateAfter } from './queryCache';
+import { ChatRoom, ChatRoomForm } from '../types/ChatRoom';
+
+// 조회 캐시 키 (useQuery / useInfiniteList) - 모임 변경 요청이 성공하면 all 전체를 무효화
+export const chatRoomKeys = {
+    all: ['chatRooms'] as const,
+    list: (keyword: string) => ['chatRooms', 'list', keyword] as const, // 모임 목록 (무한 스크롤)
+    detail: (chatRoomId: string) => ['chatRooms', 'detail', chatRoomId] as const,
+    search: (keyword: string, page: number, size: number) => ['chatRooms', 'search', keyword, page, size] as const,
+    byFestival: (festivalId: string, page: number, size: number) => ['chatRooms', 'festival', festivalId, page, size] as const,
+};
+
+// 모임 목록에 보이는 내용(인원, 제목, 참여자)이 바뀌는 요청
+const mutation = (request: Promise<void>) => invalidateAfter(request, chatRoomKeys.all);
+
+// 모임(채팅방) 게시판 - /posts/... 하위 엔드포인트
+export const chatRoomsApi = {
+    getPage: (page?: number, size?: number, signal?: AbortSignal) =>
+        raw<Page<ChatRoom>>(apiClient.get('/posts/chat-rooms', { params: { page, size }, signal })),
+
+    search: (keyword: string, page: number, size: number, signal?: AbortSignal) =>
+        raw<Page<ChatRoom>>(apiClient.get('/posts/chat-rooms/search', { params: { keyword, page, size }, signal })),
+
+    // 공유 링크(/meetings/:chatRoomId)로 들어온 모임 하나
+    getDetail: (chatRoomId: string) =>
+        raw<ChatRoom>(apiClient.get(`/posts/chat-rooms/detail/${encodeURIComponent(chatRoomId)}`)),
+
+    getByFestival: (festivalId: string, page: number, size: number) =>
+        raw<Page<ChatRoom>>(apiClient.get(`/posts/chat-rooms/${encodeURIComponent(festivalId)}`, { params: { page, size } })),
+
+    create: (festivalId: string, body: ChatRoomForm) =>
+        mutation(ignore(apiClient.post(`/posts/chat-rooms/${encodeURIComponent(festivalId)}`, body))),
+
+    update: (chatRoomId: string, body: ChatRoomForm) =>
+        mutation(ignore(apiClient.post(`/posts/update-chat-room/${chatRoomId}`, body))),
+
+    remove: (chatRoomId: string) =>
+        mutation(ignore(apiClient.get(`/posts/delete-chat-room/${chatRoomId}`))),
+
+    apply: (chatRoomId: string) =>
+        mutation(ignore(apiClient.get(`/posts/apply-chat-room/${chatRoomId}`))),
+
+    cancelApply: (chatRoomId: string) =>
+        mutation(ignore(apiClient.get(`/posts/cancel-apply-chat-room/${chatRoomId}`))),
+
+    leave: (chatRoomId: string) =>
+        mutation(ignore(apiClient.get(`/posts/leave-chat-room/${chatRoomId}`))),
+
+    // 방장 위임
+    delegate: (chatRoomId: string, memberId: string) =>
+        mutation(ignore(apiClient.get(`/posts/delegate-chat-room/${chatRoomId}/${memberId}`))),
+
+    // 강퇴
+    kick: (chatRoomId: string, memberId: string) =>
+        mutation(ignore(apiClient.get(`/posts/unqualify-chat-room/${chatRoomId}/${memberId}`))),
+
+    approve: (chatRoomId: string, memberId: string) =>
+        mutation(ignore(apiClient.get(`/posts/approve-apply-chat-room/${chatRoomId}/${memberId}`))),
+
+    refuse: (chatRoomId: string, memberId: string) =>
+        mutation(ignore(apiClient.get(`/posts/refuse-apply-chat-room/${chatRoomId}/${memberId}`))),
+};
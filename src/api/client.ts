@@ -0,0 +1,208 @@
+// src/api/client.ts
+import axios from 'axios';
+import { resetQueryCache } from './queryCache';
+
+// 백엔드 공통 응답 형식
+export interface RsData<T> {
+    resultCode: string;
+    msg: string;
+    data: T;
+}
+
+export interface PageInfo {
+    size: number;
+    number: number; // 현재 페이지 (0부터 시작)
+    totalElements: number;
+    totalPages: number;
+}
+
+// Spring Page 직렬화 형식
+export interface Page<T> {
+    content: T[];
+    page: PageInfo;
+}
+
+export class ApiError extends Error {
+    readonly status: number; // HTTP 상태 코드 (응답 자체가 없으면 0)
+    readonly resultCode: string | null;
+    readonly msg: string;
+
+    constructor(status: number, resultCode: string | null, msg: string) {
+        super(msg || `API error (status ${status})`);
+        this.name = 'ApiError';
+        this.status = status;
+        this.resultCode = resultCode;
+        this.msg = msg;
+    }
+
+    get isNetworkError() {
+        return this.status === 0;
+    }
+
+    // 로그인 정보가 없거나 만료됨 (네트워크 오류/서버 오류와 구분)
+    get isAuthError() {
+        return this.status === 401 || this.status === 403;
+    }
+}
+
+// client 헬퍼가 사용하는 axios 응답의 일부
+interface HttpResponse {
+    status: number;
+    data: unknown;
+}
+
+type HttpRequest = Promise<HttpResponse>;
+
+const toApiError = (error: unknown): ApiError => {
+    if (error instanceof ApiError) return error;
+    const response = (error as { response?: HttpResponse } | undefined)?.response;
+    const body = response?.data as Partial<RsData<unknown>> | undefined;
+    return new ApiError(response?.status ?? 0, body?.resultCode ?? null, body?.msg ?? '');
+};
+
+export const apiClient = axios.create({
+    baseURL: `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1`,
+    withCredentials: true,
+});
+
+apiClient.interceptors.request.use((config) => {
+    const accessToken = localStorage.getItem('accessToken');
+    if (accessToken && config.headers && !config.headers.Authorization) {
+        config.headers.Authorization = `Bearer ${accessToken}`;
+    }
+    return config;
+});
+
+// RsData 응답 검증 (resultCode 가 2xx 가 아니면 ApiError)
+export const rsData = async <T>(request: HttpRequest): Promise<RsData<T>> => {
+    const { status, data } = await request;
+    const body = data as RsData<T>;
+    if (body && typeof body.resultCode === 'string' && !body.resultCode.startsWith('2')) {
+        throw new ApiError(status, body.resultCode, body.msg);
+    }
+    return body;
+};
+
+// RsData 응답에서 data 만 꺼내기
+export const unwrap = async <T>(request: HttpRequest): Promise<T> =>
+    (await rsData<T>(request)).data;
+
+// RsData 로 감싸지 않고 본문을 그대로 내려주는 엔드포인트용
+export const raw = async <T>(request: HttpRequest): Promise<T> =>
+    (await request).data as T;
+
+// 본문이 필요 없는 요청용
+export const ignore = async (request: HttpRequest): Promise<void> => {
+    await request;
+};
+
+// 401 응답 시 토큰을 재발급하고 원래 요청을 다시 보낸다
+const REFRESH_URL = '/auth/refresh';
+const NO_REFRESH_URLS = [REFRESH_URL, '/auth/login', '/auth/logout'];
+
+interface RetryableRequest {
+    url: string;
+    headers?: { [key: string]: string };
+    _retry?: boolean; // 재발급 후 이미 한 번 재시도한 요청
+}
+
+let refreshPromise: Promise<string> | null = null;
+let onSessionExpired: (() => void) | null = null;
+
+// 재발급 실패(세션 만료) 시 호출할 핸들러 등록 - 라우터 안에서 로그인 페이지로 이동시키는 용도
+export const setSessionExpiredHandler = (handler: (() => void) | null) => {
+    onSessionExpired = handler;
+};
+
+// 로그인한 회원 정보 캐시 (SessionProvider 가 관리)
+export const CURRENT_USER_KEY = 'currentUser';
+
+export const clearSession = () => {
+    localStorage.removeItem('accessToken');
+    localStorage.removeItem('refreshToken');
+    localStorage.removeItem(CURRENT_USER_KEY);
+    resetQueryCache();
+};
+
+// 동시에 여러 요청이 401 을 받아도 재발급 요청은 한 번만 보낸다
+const refreshAccessToken = () => {
+    if (!refreshPromise) {
+        const refreshToken = localStorage.getItem('refreshToken');
+        refreshPromise = (refreshToken
+            ? unwrap<{ accessToken: string; refreshToken?: string }>(apiClient.post(REFRESH_URL, { refreshToken }))
+            : Promise.reject(new ApiError(401, null, '')))
+            .then((tokens) => {
+                localStorage.setItem('accessToken', tokens.accessToken);
+                if (tokens.refreshToken) {
+                    localStorage.setItem('refreshToken', tokens.refreshToken);
+                }
+                return tokens.accessToken;
+            })
+            .finally(() => {
+                refreshPromise = null;
+            });
+    }
+    return refreshPromise;
+};
+
+// 요청에 실린 토큰보다 새 토큰이 저장되어 있으면 반환
+const newerAccessToken = (config: RetryableRequest) => {
+    const accessToken = localStorage.getItem('accessToken');
+    return accessToken && config.headers?.Authorization !== `Bearer ${accessToken}` ? accessToken : null;
+};
+
+apiClient.interceptors.response.use(
+    (response) => response,
+    async (error) => {
+        // AbortController 로 취소한 요청은 ApiError 로 바꾸지 않는다 (isCanceledError 로 구분)
+        if (axios.isCancel(error)) {
+            return Promise.reject(error);
+        }
+
+        const config: RetryableRequest | undefined = error?.config;
+        const canRefresh = error?.response?.status === 401
+            && config && !config._retry
+            && !NO_REFRESH_URLS.includes(config.url)
+            && localStorage.getItem('refreshToken');
+
+        if (!canRefresh) {
+            return Promise.reject(toApiError(error));
+        }
+
+        // 재발급 도중(또는 다른 탭에서 재발급한 뒤) 보낸 요청이면 새 토큰으로 재시도만 한다
+        let accessToken = newerAccessToken(config);
+        if (!accessToken) {
+            try {
+                accessToken = await refreshAccessToken();
+            } catch (refreshError) {
+                // 다른 탭이 같은 refresh token 으로 먼저 재발급했을 수 있다
+                accessToken = newerAccessToken(config);
+                if (!accessToken) {
+                    const apiError = toApiError(refreshError);
+                    // refresh token 이 거절된 경우만 세션 만료 - 네트워크 오류/서버 오류는 토큰을 두고 에러만 전달
+                    // 재발급 실패는 한 번만 처리 (대기 중이던 요청들은 에러만 전달)
+                    if (apiError.isAuthError && localStorage.getItem('refreshToken')) {
+                        clearSession();
+                        onSessionExpired?.();
+                    }
+                    return Promise.reject(apiError);
+                }
+            }
+        }
+
+        config._retry = true;
+        config.headers = { ...config.headers, Authorization: `Bearer ${accessToken}` };
+        return apiClient(config);
+    }
+);
+
+// 새 요청을 보내면서 이전 요청을 취소한 경우 - 사용자에게 알릴 에러가 아니다
+export const isCanceledError = (error: unknown) => axios.isCancel(error);
+
+// alert 등에 띄울 에러 메시지
+export const getErrorMessage = (error: unknown, fallback: string) => {
+    if (error instanceof ApiError) {
+        return error.isNetworkError ? '서버 연결에 실패했습니다.' : error.msg || fallback;
+    }
+    return fallback;
+};
@@ -0,0 +1,15 @@
+// src/api/favorites.ts
+import { apiClient, ignore, raw } from './client';
+import { Festival } from '../types/Festival';
+
+// 찜한 축제 - 시작 하루 전에 백엔드가 FESTIVAL 도메인 알림(FESTIVAL_REMINDER)을 보낸다
+export const favoritesApi = {
+    getList: () =>
+        raw<Festival[]>(apiClient.get('/posts/favorites')),
+
+    add: (festivalId: string) =>
+        ignore(apiClient.post(`/posts/favorites/${encodeURIComponent(festivalId)}`)),
+
+    remove: (festivalId: string) =>
+        ignore(apiClient.delete(`/posts/favorites/${encodeURIComponent(festivalId)}`)),
+};
@@ -0,0 +1,30 @@
+// src/api/friends.ts
+import { apiClient, ignore, unwrap } from './client';
+import { Friend } from '../types/Friend';
+
+export type FriendRequestAction = 'accept' | 'reject';
+
+export const friendsApi = {
+    getFriends: () =>
+        unwrap<Friend[]>(apiClient.get('/friends')),
+
+    // 받은 친구 신청
+    getReceivedRequests: () =>
+        unwrap<Friend[]>(apiClient.get('/friends/friend-requests')),
+
+    // 보낸 친구 신청
+    getSentRequests: () =>
+        unwrap<Friend[]>(apiClient.get('/friends/self-friend-requests')),
+
+    sendRequest: (receiverId: number) =>
+        ignore(apiClient.post('/friends/friend-requests', { receiverId })),
+
+    respondToRequest: (requestId: number, action: FriendRequestAction) =>
+        ignore(apiClient.post(`/friends/friend-requests/${requestId}/${action}`)),
+
+    cancelRequest: (requestId: number) =>
+        ignore(apiClient.delete(`/friends/friend-requests/${requestId}`)),
+
+    remove: (friendId: number) =>
+        ignore(apiClient.delete(`/friends/${friendId}`)),
+};
@@ -0,0 +1,14 @@
+// src/api/index.ts
+export * from './client';
+export * from './queryCache';
+export * from './auth';
+export * from './members';
+export * from './friends';
+export * from './posts';
+export * from './chatRooms';
+export * from './favorites';
+export * from './chatMessages';
+export * from './alerts';
+export * from './reports';
+export * from './boards';
+export * from './boardComments';
@@ -0,0 +1,70 @@
+// src/api/members.ts
+import { apiClient, ignore, raw, rsData, unwrap } from './client';
+import { MemberSummary, ProfileInfo } from '../types/Member';
+
+export type SocialType = 'KAKAO' | 'NAVER' | 'GOOGLE' | 'GITHUB';
+
+export interface ProfileUpdateRequest {
+    phoneNumber: string | null;
+    location: string | null;
+    gender: string | null;
+    birthday: string | null;
+    mkAlarm: boolean;
+    nickname: string;
+}
+
+export const membersApi = {
+    // 관리자용 - RsData 로 감싸지 않은 응답
+    getAll: () =>
+        raw<MemberSummary[]>(apiClient.get('/members')),
+
+    get: (memberId: string | number) =>
+        raw<MemberSummary>(apiClient.get(`/members/${memberId}`)),
+
+    getProfileInfo: (memberId: number) =>
+        unwrap<ProfileInfo>(apiClient.get(`/members/${memberId}/profile-info`)),
+
+    getProfileInfoByEmail: (email: string) =>
+        unwrap<ProfileInfo>(apiClient.post('/members/email/profile-info', { email })),
+
+    updateMyProfile: (body: ProfileUpdateRequest) =>
+        unwrap<unknown>(apiClient.put('/members/me/profile', body)),
+
+    deactivate: () =>
+        rsData<unknown>(apiClient.patch('/members/me/deactivate')),
+
+    uploadProfileImage: (file: File) => {
+        const formData = new FormData();
+        formData.append('profileImage', file);
+        return unwrap<{ profilePath: string }>(apiClient.post('/members/me/profile-image', formData));
+    },
+
+    deleteProfileImage: () =>
+        ignore(apiClient.delete('/members/me/profile-image')),
+
+    // 비밀번호 확인 후 발급되는 토큰
+    verifyPassword: (password: string) =>
+        unwrap<{ token: string }>(apiClient.post('/members/me/password', { password })),
+
+    validatePasswordToken: (token: string) =>
+        ignore(apiClient.post('/members/me/password/validate', { token })),
+
+    changePassword: (currentPassword: string, newPassword: string) =>
+        ignore(apiClient.patch('/members/me/password', { currentPassword, newPassword })),
+
+    // 소셜 전용 계정의 비밀번호 최초 설정
+    createSocialPassword: (password: string) =>
+        rsData<unknown>(apiClient.post('/members/me/social/password', { password })),
+
+    sendPhoneVerificationCode: (phoneNumber: string) =>
+        ignore(apiClient.post('/members/me/phone/verification-code', { phoneNumber })),
+
+    verifyPhone: (phoneNumber: string, code: string) =>
+        ignore(apiClient.post('/members/me/phone/verify', { phoneNumber, code })),
+
+    validateSocialLink: (type: SocialType) =>
+        ignore(apiClient.get(`/members/me/social/${type.toLowerCase()}/validate`)),
+
+    unlinkSocial: (type: SocialType) =>
+        ignore(apiClient.delete(`/members/me/social/${type.toLowerCase()}`)),
+};
@@ -0,0 +1,126 @@
+// src/api/posts.ts
+import { apiClient, ignore, Page, raw } from './client';
+import { invalidateAfter } from './queryCache';
+import { Festival, FestivalComment, FestivalDetail } from '../types/Festival';
+
+export type FestivalSearchWhere = 'all' | 'name' | 'area';
+
+// 검색/필터에 쓰는 장르 목록 (백엔드 genre 파라미터 값)
+export const FESTIVAL_GENRES = ["축제", "뮤지컬", "연극", "서커스/마술", "대중음악", "국악", "클래식"];
+
+// 지역 필터에 쓰는 시/도 목록 (백엔드 area 파라미터 값)
+export const FESTIVAL_AREAS = ["서울", "경기", "인천", "강원", "충북", "충남", "대전", "세종", "전북", "전남", "광주", "경북", "경남", "대구", "울산", "부산", "제주"];
+
+export interface FestivalSearchParams {
+    where: FestivalSearchWhere;
+    genre: string;
+    keyword: string;
+    page: number;
+    size: number;
+}
+
+// 기간(yyyy-MM-dd) 안에 하루라도 진행하는 축제 / 공연 조회 조건
+export interface FestivalPeriodParams {
+    startDate: string;
+    endDate: string;
+    genre: string; // 빈 문자열이면 전체
+}
+
+export type FestivalSort = 'startDate' | 'endDate' | 'name';
+
+// 축제 목록 상세 검색 조건 (URL 쿼리스트링과 1:1 대응)
+export interface FestivalFilters {
+    keyword: string;
+    where: FestivalSearchWhere;
+    genres: string[]; // 비어 있으면 전체
+    areas: string[]; // 비어 있으면 전체
+    startDate: string; // yyyy-MM-dd, 이 기간과 하루라도 겹치는 축제 (빈 문자열이면 제한 없음)
+    endDate: string;
+    ongoing: boolean; // 오늘 진행 중인 것만
+    sort: FestivalSort;
+}
+
+export interface FestivalCommentRequest {
+    content: string;
+    superCommentId: number | null; // 대댓글이면 부모 ID, 아니면 null
+    mentions?: string[]; // 멘션된 닉네임 - 서버가 멘션 알림을 보낸다
+}
+
+// 조회 캐시 키 (useQuery / useInfiniteList)
+export const postKeys = {
+    all: ['posts'] as const,
+    mainByArea: (area: string) => ['posts', 'main', area] as const,
+    endingSoon: ['posts', 'endingSoon'] as const,
+    startingSoon: ['posts', 'startingSoon'] as const,
+    search: (keyword: string, page: number, size: number) => ['posts', 'search', keyword, page, size] as const,
+    list: (filterQuery: string) => ['posts', 'list', filterQuery] as const, // 축제 목록 (URL 검색 조건별)
+    mapByArea: (area: string) => ['posts', 'map', area] as const, // 축제 지도 (지역별)
+    detail: (festivalId: string) => ['posts', 'detail', festivalId] as const,
+    allComments: ['posts', 'comments'] as const,
+    comments: (festivalId: string) => ['posts', 'comments', festivalId] as const,
+};
+
+export const postsApi = {
+    // 메인 배너 (지역별 축제)
+    getMainByArea: (area: string) =>
+        raw<Festival[]>(apiClient.get('/posts/search/main1', { params: { area } })),
+
+    // 곧 종료될 축제 / 공연
+    getEndingSoon: () =>
+        raw<Festival[]>(apiClient.get('/posts/search/main2')),
+
+    // 곧 시작될 축제 / 공연
+    getStartingSoon: () =>
+        raw<Festival[]>(apiClient.get('/posts/search/main3')),
+
+    search: (keyword: string, page: number, size: number, signal?: AbortSignal) =>
+        raw<Page<Festival>>(apiClient.get('/posts/search', { params: { keyword, page, size }, signal })),
+
+    searchAll: (page: number, size: number, signal?: AbortSignal) =>
+        raw<Page<Festival>>(apiClient.get('/posts/search/all', { params: { page, size }, signal })),
+
+    searchByKey: (params: FestivalSearchParams, signal?: AbortSignal) =>
+        raw<Page<Festival>>(apiClient.get('/posts/search/key', { params, signal })),
+
+    // 상세 검색 - 여러 장르/지역은 쉼표로 구분해서 전달
+    searchAdvanced: ({ genres, areas, startDate, endDate, ongoing, ...rest }: FestivalFilters, page: number, size: number, signal?: AbortSignal) =>
+        raw<Page<Festival>>(apiClient.get('/posts/search/advanced', {
+            params: {
+                ...rest,
+                genres: genres.join(','),
+                areas: areas.join(','),
+                startDate: startDate || undefined,
+                endDate: endDate || undefined,
+                ongoing: ongoing || undefined,
+                page,
+                size,
+            },
+            signal,
+        })),
+
+    // 캘린더 - 기간 내 진행하는 축제 / 공연
+    searchByPeriod: (params: FestivalPeriodParams) =>
+        raw<Festival[]>(apiClient.get('/posts/search/period', { params })),
+
+    getDetail: (festivalId: string) =>
+        raw<FestivalDetail>(apiClient.get(`/posts/detail/${encodeURIComponent(festivalId)}`)),
+
+    getComments: (festivalId: string) =>
+        raw<FestivalComment[]>(apiClient.get(`/posts/comments/${encodeURIComponent(festivalId)}`)),
+
+    createComment: (festivalId: string, body: FestivalCommentRequest) =>
+        invalidateAfter(
+            ignore(apiClient.post(`/posts/comments/${encodeURIComponent(festivalId)}`, body)),
+            postKeys.comments(festivalId)
+        ),
+
+    updateComment: (commentId: number, content: string, mentions: string[] = []) =>
+        invalidateAfter(ignore(apiClient.post(`/posts/update-comment/${commentId}`, { content, mentions })), postKeys.allComments),
+
+    deleteComment: (commentId: number) =>
+        invalidateAfter(ignore(apiClient.get(`/posts/delete-comment/${commentId}`)), postKeys.allComments),
+
+    // 댓글 반응 - 같은 이모지를 다시 보내면 취소된다
+    toggleCommentReaction: (commentId: number, emoji: string) =>
+        invalidateAfter(ignore(apiClient.post(`/posts/comment-reaction/${commentId}`, { emoji })), postKeys.allComments),
+};
@@ -0,0 +1,152 @@
+// src/api/queryCache.ts
+
+// 조회 결과 캐시 키 - 앞에서부터 같은 부분(prefix)으로 한 번에 무효화할 수 있다
+export type QueryKey = readonly (string | number | boolean | null)[];
+
+export interface QueryState<T> {
+    data: T | undefined;
+    error: unknown;
+    updatedAt: number; // 마지막으로 받아온 시각 (0 이면 아직 없음)
+    isFetching: boolean;
+}
+
+interface FetchQueryOptions {
+    staleTime?: number; // 받아온 뒤 이 시간(ms) 동안은 다시 요청하지 않는다
+}
+
+interface QueryEntry {
+    key: QueryKey;
+    state: QueryState<unknown>;
+    promise: Promise<unknown> | null; // 진행 중인 요청 (같은 키 요청은 이 요청을 같이 기다린다)
+    fetcher: (() => Promise<unknown>) | null; // 무효화되면 다시 요청할 함수
+    invalidatedAt: number;
+    listeners: Set<() => void>;
+    gcTimer: ReturnType<typeof setTimeout> | null;
+}
+
+// 보고 있는 화면이 없는 캐시는 이 시간이 지나면 지운다
+const GC_TIME = 10 * 60 * 1000;
+
+const EMPTY_STATE: QueryState<never> = { data: undefined, error: null, updatedAt: 0, isFetching: false };
+
+const entries = new Map<string, QueryEntry>();
+
+export const hashQueryKey = (key: QueryKey) => JSON.stringify(key);
+
+const getEntry = (key: QueryKey) => {
+    const hash = hashQueryKey(key);
+    let entry = entries.get(hash);
+    if (!entry) {
+        entry = { key, state: EMPTY_STATE, promise: null, fetcher: null, invalidatedAt: 0, listeners: new Set(), gcTimer: null };
+        entries.set(hash, entry);
+    }
+    return entry;
+};
+
+const setState = (entry: QueryEntry, changes: Partial<QueryState<unknown>>) => {
+    entry.state = { ...entry.state, ...changes };
+    entry.listeners.forEach((listener) => listener());
+};
+
+const scheduleGc = (entry: QueryEntry) => {
+    if (entry.gcTimer) clearTimeout(entry.gcTimer);
+    entry.gcTimer = setTimeout(() => {
+        if (entry.listeners.size === 0 && !entry.promise) {
+            entries.delete(hashQueryKey(entry.key));
+        }
+    }, GC_TIME);
+};
+
+const isStale = (entry: QueryEntry, staleTime: number) =>
+    entry.state.updatedAt === 0
+    || entry.invalidatedAt >= entry.state.updatedAt
+    || Date.now() - entry.state.updatedAt >= staleTime;
+
+const startFetch = (entry: QueryEntry) => {
+    const fetcher = entry.fetcher;
+    if (!fetcher) return Promise.resolve(entry.state.data);
+
+    const promise: Promise<unknown> = fetcher()
+        .then((data) => {
+            // 요청 도중 무효화되어 새 요청을 보냈다면 늦게 온 이전 응답은 버린다
+            if (entry.promise === promise) {
+                entry.promise = null;
+                setState(entry, { data, error: null, updatedAt: Date.now(), isFetching: false });
+            }
+            return data;
+        })
+        .catch((error) => {
+            if (entry.promise === promise) {
+                entry.promise = null;
+                setState(entry, { error, isFetching: false });
+            }
+            throw error;
+        });
+
+    entry.promise = promise;
+    setState(entry, { isFetching: true });
+    return promise;
+};
+
+export const getQueryState = <T>(key: QueryKey) =>
+    (entries.get(hashQueryKey(key))?.state ?? EMPTY_STATE) as QueryState<T>;
+
+// 캐시가 충분히 새로우면 그대로, 같은 요청이 진행 중이면 그 결과를, 아니면 새로 요청
+export const fetchQuery = <T>(key: QueryKey, fetcher: () => Promise<T>, { staleTime = 0 }: FetchQueryOptions = {}): Promise<T> => {
+    const entry = getEntry(key);
+    entry.fetcher = fetcher;
+    if (entry.listeners.size === 0) scheduleGc(entry);
+
+    if (entry.promise) return entry.promise as Promise<T>;
+    if (!isStale(entry, staleTime)) return Promise.resolve(entry.state.data as T);
+    return startFetch(entry) as Promise<T>;
+};
+
+// 요청 없이 캐시 값만 바꾼다 (다음 페이지 붙이기 등)
+export const setQueryData = <T>(key: QueryKey, updater: (prev: T | undefined) => T) => {
+    const entry = getEntry(key);
+    setState(entry, { data: updater(entry.state.data as T | undefined), error: null, updatedAt: Date.now() });
+    if (entry.listeners.size === 0) scheduleGc(entry);
+};
+
+export const subscribeQuery = (key: QueryKey, listener: () => void) => {
+    const entry = getEntry(key);
+    entry.listeners.add(listener);
+    if (entry.gcTimer) clearTimeout(entry.gcTimer);
+    return () => {
+        entry.listeners.delete(listener);
+        if (entry.listeners.size === 0) scheduleGc(entry);
+    };
+};
+
+const matchesPrefix = (key: QueryKey, prefix: QueryKey) =>
+    prefix.every((part, index) => key[index] === part);
+
+// 변경 요청 후 관련 캐시 무효화 - 보고 있는 화면이면 바로 다시 받고, 아니면 다음에 볼 때 다시 받는다
+export const invalidateQueries = (prefix: QueryKey) => {
+    entries.forEach((entry) => {
+        if (!matchesPrefix(entry.key, prefix)) return;
+        entry.invalidatedAt = Date.now();
+        if (entry.listeners.size > 0 && entry.fetcher) {
+            startFetch(entry).catch((error) => console.error('데이터 다시 조회 실패:', error));
+        }
+    });
+};
+
+// 요청이 성공하면 관련 캐시를 무효화하고 결과는 그대로 돌려준다
+export const invalidateAfter = async <T>(request: Promise<T>, ...prefixes: QueryKey[]): Promise<T> => {
+    const result = await request;
+    prefixes.forEach(invalidateQueries);
+    return result;
+};
+
+// 로그아웃 등 - 다른 사용자의 데이터가 남지 않도록 보고 있지 않은 캐시는 지우고 보고 있는 캐시는 다시 받는다
+export const resetQueryCache = () => {
+    entries.forEach((entry, hash) => {
+        if (entry.listeners.size === 0 && !entry.promise) {
+            if (entry.gcTimer) clearTimeout(entry.gcTimer);
+            entries.delete(hash);
+        }
+    });
+    invalidateQueries([]);
+};
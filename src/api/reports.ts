@@ -0,0 +1,28 @@
+// src/api/reports.ts
+import { apiClient, ignore, Page, unwrap } from './client';
+import { CommentTargetType } from '../types/Comment';
+import { Report, ReportReason } from '../types/Report';
+
+export interface ReportRequest {
+    reportedId: number;
+    content: string;
+    reason?: ReportReason;
+    // 댓글 신고일 때 어떤 댓글인지 (관리자 화면에서 댓글로 이동)
+    targetType?: CommentTargetType;
+    targetId?: number;
+    targetParentId?: string;
+}
+
+export const reportsApi = {
+    create: (body: ReportRequest) =>
+        ignore(apiClient.post('/reports', body)),
+
+    getPage: () =>
+        unwrap<Page<Report>>(apiClient.get('/reports')),
+
+    reject: (reportId: number) =>
+        ignore(apiClient.patch(`/reports/${reportId}/reject`)),
+
+    confirm: (reportId: number) =>
+        ignore(apiClient.patch(`/reports/${reportId}/confirm`)),
+};
@@ -3,6 +3,7 @@ import { Bell } from 'lucide-react';
 import { AlertContext } from '../providers/AlertProvider';
 import { useNavigate } from 'react-router-dom';
 import { Alert } from '../types/Alert';
+import { alertPath } from '../utils/routes';
 
 export const AlertBell = ({ isOpen, setIsOpen }: { isOpen: boolean, setIsOpen: (isOpen: boolean) => void }) => {
     const navigate = useNavigate();
@@ -19,32 +20,9 @@ export const AlertBell = ({ isOpen, setIsOpen }: { isOpen: boolean, setIsOpen: (
                 await readAlerts([alert.id]);
             }
 
-            switch (alert.navigationType) {
-                case 'GROUP':
-                    if (navigationData.chatRoomId) {
-                        navigate(`/chat/${navigationData.chatRoomId}`);
-                    }
-                    break;
-                case 'BOARD':
-                    if (navigationData.boardId) {
-                        navigate(`/notice/${navigationData.boardId}`);
-                    }
-                    break;
-                case 'FESTIVAL':
-                    // 축제 관련 네비게이션을 위한 자리
-                    console.log('Festival navigation:', navigationData);
-                    break;
-                case 'COMMENT':
-                    // 댓글 관련 네비게이션을 위한 자리
-                    console.log('Comment navigation:', navigationData);
-                    break;
-                case 'NONE':
-                    // 네비게이션이 필요없는 알림을 위한 자리
-                    console.log('No navigation needed');
-                    break;
-                default:
-                    console.log('Unknown navigation type:', alert.navigationType);
-            }
+            // 댓글/메시지 알림(멘션 등)은 해당 댓글/메시지 위치까지 이동
+            const path = alertPath(alert.navigationType, navigationData);
+            if (path) navigate(path);
 
             setIsOpen(false);
         } catch (error) {
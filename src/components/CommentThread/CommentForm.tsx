@@ -0,0 +1,78 @@
+// src/components/CommentThread/CommentForm.tsx
+import { FormEvent, useState } from 'react';
+import send from '../../assets/images/send.png';
+import useMentionInput from '../../hooks/useMentionInput';
+import { MentionCandidate } from '../../utils/mentions';
+import MentionSuggestions from '../MentionSuggestions';
+
+interface CommentFormProps {
+    placeholder: string;
+    initialValue?: string;
+    autoFocus?: boolean;
+    mentionCandidates?: MentionCandidate[]; // @ 입력 시 보여줄 사람 (스레드 참여자)
+    onSubmit: (content: string) => Promise<boolean>; // 실패하면 false - 입력한 내용을 되살린다 (닫힌 입력창은 부모가 다시 연다)
+    onCancel?: () => void;
+}
+
+const MAX_LENGTH = 500;
+
+// 댓글 / 답글 / 수정 입력창 - 낙관적 업데이트라 전송하자마자 비우고, 실패하면 되돌린다
+const CommentForm = ({ placeholder, initialValue = '', autoFocus = false, mentionCandidates = [], onSubmit, onCancel }: CommentFormProps) => {
+    const [content, setContent] = useState(initialValue);
+    const mention = useMentionInput<HTMLInputElement>({ value: content, onChange: setContent, candidates: mentionCandidates });
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        const trimmed = content.trim();
+        if (!trimmed) return alert('댓글을 입력해주세요!');
+
+        setContent('');
+        mention.close();
+        const succeeded = await onSubmit(trimmed);
+        if (!succeeded) setContent(trimmed);
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="flex items-center space-x-2">
+            <div className="relative flex-1">
+                <input
+                    ref={mention.inputRef}
+                    type="text"
+                    placeholder={placeholder}
+                    value={content}
+                    onChange={mention.handleChange}
+                    onKeyDown={mention.handleKeyDown}
+                    onBlur={mention.close}
+                    maxLength={MAX_LENGTH}
+                    autoFocus={autoFocus}
+                    className="w-full px-3 py-2 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+                <MentionSuggestions
+                    suggestions={mention.suggestions}
+                    activeIndex={mention.activeIndex}
+                    onSelect={mention.select}
+                    onHover={mention.setActiveIndex}
+                />
+            </div>
+            <button type="submit" className="p-2 flex items-center justify-center" aria-label="전송">
+                <img
+                    src={send}
+                    alt=""
+                    className="w-6 h-6"
+                    style={{
+                        filter: content.trim()
+                            ? 'invert(47%) sepia(82%) saturate(2604%) hue-rotate(337deg) brightness(97%) contrast(92%)'
+                            : 'opacity(0.5)'
+                    }}
+                />
+            </button>
+            {onCancel && (
+                <button type="button" className="text-gray-500 text-sm flex-shrink-0" onClick={onCancel}>
+                    취소
+                </button>
+            )}
+        </form>
+    );
+};
+
+export default CommentForm;
@@ -0,0 +1,230 @@
+// src/components/CommentThread/CommentItem.tsx
+import { useState } from 'react';
+import { SmilePlus } from 'lucide-react';
+import dots from '../../assets/images/three-dots.png';
+import { MentionCandidate } from '../../utils/mentions';
+import { commentAnchorId } from '../../utils/routes';
+import MentionText from '../MentionText';
+import CommentForm from './CommentForm';
+import { COMMENT_REACTION_EMOJIS, CommentTreeNode, formatElapsedTime, ThreadComment } from './commentTree';
+
+// 답글/수정 입력창은 스레드 전체에서 하나만 열린다
+export interface CommentComposer {
+    mode: 'reply' | 'edit';
+    commentId: number;
+    draft: string; // 전송에 실패하면 입력했던 내용으로 다시 연다
+}
+
+export interface CommentItemHandlers {
+    onToggleMenu: (commentId: number) => void;
+    onOpenComposer: (composer: CommentComposer) => void;
+    onCloseComposer: () => void;
+    onSubmitReply: (parentId: number, content: string) => Promise<boolean>;
+    onSubmitEdit: (commentId: number, content: string) => Promise<boolean>;
+    onDelete: (commentId: number) => void;
+    onReport: (comment: ThreadComment) => void;
+    onReact: (commentId: number, emoji: string) => void;
+    onShowReplies: (commentId: number, count: number) => void;
+}
+
+interface CommentItemProps {
+    node: CommentTreeNode;
+    depth: number;
+    parentNickname?: string;
+    currentUserId: number | null;
+    composer: CommentComposer | null;
+    openMenuId: number | null;
+    highlightedId: number | null; // 링크(#comment-123)로 들어온 댓글
+    mentionCandidates: MentionCandidate[];
+    visibleReplyCounts: Map<number, number>;
+    handlers: CommentItemHandlers;
+}
+
+const REPLY_PAGE_SIZE = 5;
+const MAX_INDENT_DEPTH = 4; // 이보다 깊은 답글은 들여쓰지 않고 @닉네임으로 표시 (화면이 좁아지지 않도록)
+
+// 펼치지 않은 답글 수 (하위 답글 포함)
+const countHidden = (node: CommentTreeNode, shown: number) =>
+    node.replies.slice(shown).reduce((count, reply) => count + 1 + reply.replyCount, 0);
+
+// 댓글 하나와 그 아래 답글 트리
+const CommentItem = ({ node, depth, parentNickname, currentUserId, composer, openMenuId, highlightedId, mentionCandidates, visibleReplyCounts, handlers }: CommentItemProps) => {
+    const { comment, replies } = node;
+    const [isPickerOpen, setIsPickerOpen] = useState(false);
+    const isAuthor = currentUserId !== null && String(comment.authorId) === String(currentUserId);
+    const isEditing = composer?.mode === 'edit' && composer.commentId === comment.id;
+    const isReplying = composer?.mode === 'reply' && composer.commentId === comment.id;
+    const shownCount = Math.min(visibleReplyCounts.get(comment.id) ?? 0, replies.length);
+    const hiddenCount = countHidden(node, shownCount);
+
+    return (
+        <div id={commentAnchorId(comment.id)} className={comment.isPending ? 'opacity-60' : ''}>
+            <div
+                className={`flex items-center space-x-2 mb-1 rounded transition-colors duration-700 ${highlightedId === comment.id ? 'bg-[#FFF4F1]' : ''}`}
+            >
+                <p className="text-xs font-semibold">{comment.authorNickname}</p>
+                <p className="text-xs text-gray-500">
+                    {comment.isPending ? '게시 중...' : formatElapsedTime(comment.createdAt)}
+                    {comment.isEdited && ' (수정됨)'}
+                </p>
+            </div>
+
+            {isEditing ? (
+                <CommentForm
+                    placeholder="댓글 수정 중..."
+                    initialValue={composer.draft}
+                    autoFocus
+                    mentionCandidates={mentionCandidates}
+                    onSubmit={(content) => handlers.onSubmitEdit(comment.id, content)}
+                    onCancel={handlers.onCloseComposer}
+                />
+            ) : (
+                <div className="flex justify-between items-center">
+                    <div className="text-sm text-gray-800 whitespace-pre-wrap break-words">
+                        {depth > MAX_INDENT_DEPTH && parentNickname && (
+                            <span className="text-primary mr-1">@{parentNickname}</span>
+                        )}
+                        <MentionText text={comment.content} candidates={mentionCandidates} />
+                    </div>
+
+                    {currentUserId !== null && !comment.isPending && (
+                        <div className="relative flex-shrink-0">
+                            <button onClick={() => handlers.onToggleMenu(comment.id)}>
+                                <img src={dots} alt="옵션" className="h-8 mt-[5px] mr-[-6px] cursor-pointer" />
+                            </button>
+                            {openMenuId === comment.id && (
+                                <div className="absolute right-5 bg-white shadow-md rounded-lg border border-gray-200 w-20 text-sm z-10">
+                                    {isAuthor ? (
+                                        <>
+                                            <button
+                                                className="w-full text-left px-3 py-2 hover:bg-gray-100"
+                                                onClick={() => handlers.onOpenComposer({ mode: 'edit', commentId: comment.id, draft: comment.content })}
+                                            >
+                                                수정하기
+                                            </button>
+                                            <button
+                                                className="w-full text-left px-3 py-2 hover:bg-gray-100 text-primary"
+                                                onClick={() => handlers.onDelete(comment.id)}
+                                            >
+                                                삭제하기
+                                            </button>
+                                        </>
+                                    ) : (
+                                        <button
+                                            className="w-full text-left px-3 py-2 hover:bg-gray-100 text-red-500"
+                                            onClick={() => handlers.onReport(comment)}
+                                        >
+                                            신고
+                                        </button>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {/* 반응 - 누르면 내 반응 토글 */}
+            {comment.reactions.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-1">
+                    {comment.reactions.map((reaction) => (
+                        <button
+                            key={reaction.emoji}
+                            className={`px-2 py-0.5 rounded-full border text-xs ${reaction.reactedByMe
+                                ? 'border-primary bg-[#FFF4F1] text-primary'
+                                : 'border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+                            onClick={() => handlers.onReact(comment.id, reaction.emoji)}
+                            disabled={comment.isPending}
+                            aria-pressed={reaction.reactedByMe}
+                        >
+                            {reaction.emoji} {reaction.count}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {!comment.isPending && (
+                <div className="relative flex items-center space-x-4 text-xs text-gray-500 mt-1">
+                    <button onClick={() => setIsPickerOpen(!isPickerOpen)} aria-label="반응 남기기">
+                        <SmilePlus size={14} />
+                    </button>
+                    {isPickerOpen && (
+                        <div className="absolute left-0 bottom-full mb-1 flex gap-1 bg-white shadow-md rounded-full border border-gray-200 px-2 py-1 z-10">
+                            {COMMENT_REACTION_EMOJIS.map((emoji) => (
+                                <button
+                                    key={emoji}
+                                    className="text-base hover:scale-125 transition-transform"
+                                    onClick={() => {
+                                        setIsPickerOpen(false);
+                                        handlers.onReact(comment.id, emoji);
+                                    }}
+                                >
+                                    {emoji}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    {isReplying ? (
+                        <button onClick={handlers.onCloseComposer}>취소</button>
+                    ) : (
+                        <button
+                            onClick={() => handlers.onOpenComposer({
+                                mode: 'reply',
+                                commentId: comment.id,
+                                draft: isAuthor ? '' : `@${comment.authorNickname} `, // 답글 대상 멘션
+                            })}
+                        >
+                            답글 달기
+                        </button>
+                    )}
+                    {shownCount > 0 && (
+                        <button onClick={() => handlers.onShowReplies(comment.id, 0)}>답글 숨기기</button>
+                    )}
+                </div>
+            )}
+
+            {isReplying && (
+                <div className="mt-2">
+                    <CommentForm
+                        placeholder={`${comment.authorNickname}님에게 답글 추가...`}
+                        initialValue={composer.draft}
+                        autoFocus
+                        mentionCandidates={mentionCandidates}
+                        onSubmit={(content) => handlers.onSubmitReply(comment.id, content)}
+                        onCancel={handlers.onCloseComposer}
+                    />
+                </div>
+            )}
+
+            {(shownCount > 0 || hiddenCount > 0) && (
+                <div className={`mt-3 space-y-4 ${depth < MAX_INDENT_DEPTH ? 'ml-2 border-l pl-4' : ''}`}>
+                    {replies.slice(0, shownCount).map((reply) => (
+                        <CommentItem
+                            key={reply.comment.id}
+                            node={reply}
+                            depth={depth + 1}
+                            parentNickname={comment.authorNickname}
+                            currentUserId={currentUserId}
+                            composer={composer}
+                            openMenuId={openMenuId}
+                            highlightedId={highlightedId}
+                            mentionCandidates={mentionCandidates}
+                            visibleReplyCounts={visibleReplyCounts}
+                            handlers={handlers}
+                        />
+                    ))}
+                    {hiddenCount > 0 && (
+                        <button
+                            className="text-xs text-primary"
+                            onClick={() => handlers.onShowReplies(comment.id, shownCount + REPLY_PAGE_SIZE)}
+                        >
+                            {hiddenCount}개의 답글 더보기
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CommentItem;
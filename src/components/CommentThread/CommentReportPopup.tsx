@@ -0,0 +1,78 @@
+// src/components/CommentThread/CommentReportPopup.tsx
+import { useState } from 'react';
+import { ReportReason } from '../../types/Report';
+import { REPORT_REASON_LABELS } from '../../utils/reports';
+import { ThreadComment } from './commentTree';
+
+interface CommentReportPopupProps {
+    comment: ThreadComment;
+    onSubmit: (reason: ReportReason, content: string) => Promise<boolean>;
+    onClose: () => void;
+}
+
+// 댓글 신고 팝업창 - 신고 사유를 고르고, 기타는 내용을 꼭 적는다
+const CommentReportPopup = ({ comment, onSubmit, onClose }: CommentReportPopupProps) => {
+    const [reason, setReason] = useState<ReportReason | null>(null);
+    const [content, setContent] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleSubmit = async () => {
+        if (!reason) return alert('신고 사유를 선택해주세요.');
+        if (reason === 'ETC' && !content.trim()) return alert('신고 내용을 입력해주세요.');
+
+        setIsSubmitting(true);
+        const succeeded = await onSubmit(reason, content.trim());
+        setIsSubmitting(false);
+        if (succeeded) onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-50 flex justify-center items-center z-20" onClick={onClose}>
+            <div className="bg-white p-6 rounded-lg shadow-md w-80" onClick={(e) => e.stopPropagation()}>
+                <h3 className="text-lg font-semibold mb-2">댓글 신고</h3>
+                <p className="text-sm text-gray-500 mb-4 truncate">
+                    {comment.authorNickname}: {comment.content}
+                </p>
+
+                <div className="space-y-2 mb-4">
+                    {(Object.keys(REPORT_REASON_LABELS) as ReportReason[]).map((option) => (
+                        <label key={option} className="flex items-center gap-2 text-sm cursor-pointer">
+                            <input
+                                type="radio"
+                                name="comment-report-reason"
+                                checked={reason === option}
+                                onChange={() => setReason(option)}
+                                className="accent-[#FF6B36]"
+                            />
+                            {REPORT_REASON_LABELS[option]}
+                        </label>
+                    ))}
+                </div>
+
+                <textarea
+                    value={content}
+                    onChange={(e) => setContent(e.target.value)}
+                    placeholder={reason === 'ETC' ? '신고 내용을 입력해주세요' : '추가로 알릴 내용 (선택)'}
+                    maxLength={500}
+                    className="w-full h-24 p-2 border rounded-lg text-sm mb-6 resize-none focus:outline-none focus:border-primary"
+                />
+
+                <div className="flex justify-end space-x-4">
+                    <button
+                        className="text-gray-500 rounded-lg hover:bg-gray-100 px-3 py-1 transition-colors duration-200"
+                        onClick={onClose}>
+                        취소
+                    </button>
+                    <button
+                        className="text-red-500 rounded-lg hover:bg-red-50 px-3 py-1 transition-colors duration-200 disabled:opacity-50"
+                        onClick={handleSubmit}
+                        disabled={isSubmitting}>
+                        신고하기
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CommentReportPopup;
@@ -0,0 +1,112 @@
+// src/components/CommentThread/commentTree.ts
+import { CommentReaction } from '../../types/Comment';
+
+export const COMMENT_REACTION_EMOJIS = ['👍', '❤️', '😂', '😮', '😢'];
+
+// 축제 댓글 / 공지사항 댓글을 같은 모양으로 맞춘 댓글
+export interface ThreadComment {
+    id: number; // 작성 중(서버 응답 전)인 댓글은 음수 임시 id
+    parentId: number | null; // 답글이면 상위 댓글 id
+    authorId: number;
+    authorNickname: string;
+    content: string;
+    createdAt: string;
+    isEdited?: boolean;
+    isPending?: boolean; // 서버 반영 전 (낙관적 업데이트)
+    reactions: CommentReaction[];
+}
+
+// 댓글 작성/수정/삭제 요청 - 성공하면 부모의 comments 도 갱신된 뒤 끝나야 한다 (임시 상태를 지울 때 깜빡이지 않도록)
+export interface CommentThreadActions {
+    // mentions: 본문에서 멘션된 닉네임 (서버가 멘션 알림을 보낸다)
+    create: (content: string, parentId: number | null, mentions: string[]) => Promise<void>;
+    update: (commentId: number, content: string, mentions: string[]) => Promise<void>;
+    remove: (commentId: number) => Promise<void>;
+    react: (commentId: number, emoji: string) => Promise<void>; // 같은 이모지를 다시 누르면 취소
+}
+
+export interface CommentTreeNode {
+    comment: ThreadComment;
+    replies: CommentTreeNode[];
+    replyCount: number; // 하위 답글 전체 개수
+}
+
+const byCreatedAt = (a: CommentTreeNode, b: CommentTreeNode) =>
+    new Date(a.comment.createdAt).getTime() - new Date(b.comment.createdAt).getTime();
+
+const countReplies = (node: CommentTreeNode): number => {
+    node.replies.sort(byCreatedAt);
+    node.replyCount = node.replies.reduce((count, reply) => count + 1 + countReplies(reply), 0);
+    return node.replyCount;
+};
+
+// 평평한 댓글 목록 -> 트리 (깊이 제한 없음)
+// hiddenIds 의 댓글은 답글까지 함께 빠지고, 상위 댓글이 없는 답글(이미 삭제된 댓글의 답글)은 최상위로 올린다
+export const buildCommentTree = (comments: ThreadComment[], hiddenIds: ReadonlySet<number> = new Set()) => {
+    const nodes = new Map<number, CommentTreeNode>();
+    comments.forEach((comment) => {
+        nodes.set(comment.id, { comment, replies: [], replyCount: 0 });
+    });
+
+    const roots: CommentTreeNode[] = [];
+    nodes.forEach((node) => {
+        const parent = node.comment.parentId !== null ? nodes.get(node.comment.parentId) : undefined;
+        if (parent && parent !== node) {
+            parent.replies.push(node);
+        } else {
+            roots.push(node);
+        }
+    });
+
+    const visibleRoots = removeHidden(roots, hiddenIds);
+    visibleRoots.sort(byCreatedAt);
+    visibleRoots.forEach(countReplies);
+    return visibleRoots;
+};
+
+const removeHidden = (nodes: CommentTreeNode[], hiddenIds: ReadonlySet<number>): CommentTreeNode[] =>
+    nodes
+        .filter((node) => !hiddenIds.has(node.comment.id))
+        .map((node) => ({ ...node, replies: removeHidden(node.replies, hiddenIds) }));
+
+// 트리에서 댓글까지의 경로 (최상위 댓글부터 각 단계의 순서) - 없으면 null
+export const findCommentPath = (nodes: CommentTreeNode[], commentId: number): number[] | null => {
+    for (let index = 0; index < nodes.length; index++) {
+        if (nodes[index].comment.id === commentId) return [index];
+        const rest = findCommentPath(nodes[index].replies, commentId);
+        if (rest) return [index, ...rest];
+    }
+    return null;
+};
+
+// 내 반응 토글 (응답 전 미리 보여줄 때)
+export const toggleReaction = (reactions: CommentReaction[], emoji: string): CommentReaction[] => {
+    const existing = reactions.find((reaction) => reaction.emoji === emoji);
+    if (!existing) return [...reactions, { emoji, count: 1, reactedByMe: true }];
+    return reactions
+        .map((reaction) => reaction.emoji !== emoji ? reaction : {
+            emoji,
+            count: reaction.count + (reaction.reactedByMe ? -1 : 1),
+            reactedByMe: !reaction.reactedByMe,
+        })
+        .filter((reaction) => reaction.count > 0);
+};
+
+// 댓글 작성 경과 시간
+export const formatElapsedTime = (createTime: string) => {
+    const diffMs = Date.now() - new Date(createTime).getTime();
+    const diffMinutes = Math.max(Math.floor(diffMs / (1000 * 60)), 0);
+    const diffHours = Math.floor(diffMinutes / 60);
+    const diffDays = Math.floor(diffHours / 24);
+    const diffWeeks = Math.floor(diffDays / 7);
+
+    if (diffMinutes < 60) {
+        return `${diffMinutes}분`;
+    } else if (diffHours < 24) {
+        return `${diffHours}시간`;
+    } else if (diffDays < 7) {
+        return `${diffDays}일`;
+    } else {
+        return `${diffWeeks}주`;
+    }
+};
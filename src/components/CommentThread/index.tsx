@@ -0,0 +1,225 @@
+// src/components/CommentThread/index.tsx
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import { getErrorMessage, reportsApi } from '../../api';
+import { CommentTarget } from '../../types/Comment';
+import { ReportReason } from '../../types/Report';
+import { extractMentions, MentionCandidate } from '../../utils/mentions';
+import { REPORT_REASON_LABELS } from '../../utils/reports';
+import { commentAnchorId } from '../../utils/routes';
+import ConfirmPopup from '../ConfirmPopup';
+import CommentForm from './CommentForm';
+import CommentItem, { CommentComposer, CommentItemHandlers } from './CommentItem';
+import CommentReportPopup from './CommentReportPopup';
+import { CommentThreadActions, findCommentPath, ThreadComment } from './commentTree';
+import useCommentThread from './useCommentThread';
+
+interface CommentThreadProps {
+    comments: ThreadComment[]; // 서버에서 받은 평평한 목록 (parentId 로 트리를 만든다)
+    actions: CommentThreadActions;
+    target: CommentTarget; // 신고할 때 어느 축제/게시글의 댓글인지
+    isLoading?: boolean;
+}
+
+const ROOT_PAGE_SIZE = 5;
+const HIGHLIGHT_DURATION = 2000;
+
+// 댓글 스레드 - 답글의 답글까지 깊이 제한 없이, 답글은 펼칠 때 조금씩 보여준다
+const CommentThread = ({ comments, actions, target, isLoading = false }: CommentThreadProps) => {
+    const { tree, totalCount, currentUserId, create, update, remove, react } = useCommentThread(comments, actions);
+    const location = useLocation();
+
+    // 멘션 후보 / 멘션 링크 - 스레드에 댓글을 쓴 사람 (나 제외)
+    const participants = useMemo(() => {
+        const byNickname = new Map<string, MentionCandidate>();
+        comments.forEach((comment) => {
+            if (comment.authorId !== currentUserId) {
+                byNickname.set(comment.authorNickname, { nickname: comment.authorNickname, memberId: comment.authorId });
+            }
+        });
+        return [...byNickname.values()];
+    }, [comments, currentUserId]);
+    const [visibleRootCount, setVisibleRootCount] = useState(ROOT_PAGE_SIZE);
+    const [visibleReplyCounts, setVisibleReplyCounts] = useState<Map<number, number>>(new Map());
+    const [composer, setComposer] = useState<CommentComposer | null>(null);
+    const [openMenuId, setOpenMenuId] = useState<number | null>(null);
+    const [commentToDelete, setCommentToDelete] = useState<number | null>(null);
+    const [commentToReport, setCommentToReport] = useState<ThreadComment | null>(null);
+    const [highlightedId, setHighlightedId] = useState<number | null>(null);
+    const handledHashRef = useRef('');
+
+    // 신고 관리 등에서 #comment-123 링크로 들어오면 그 댓글까지 펼치고 스크롤
+    useEffect(() => {
+        const match = location.hash.match(/^#comment-(\d+)$/);
+        if (!match || handledHashRef.current === location.hash) return;
+        const commentId = Number(match[1]);
+        const path = findCommentPath(tree, commentId);
+        if (!path) return; // 댓글을 아직 받지 못했으면 다음 갱신 때 다시 찾는다
+        handledHashRef.current = location.hash;
+
+        setVisibleRootCount((count) => Math.max(count, path[0] + 1));
+        setVisibleReplyCounts((prev) => {
+            const next = new Map(prev);
+            let nodes = tree;
+            path.slice(0, -1).forEach((index, depth) => {
+                const node = nodes[index];
+                next.set(node.comment.id, Math.max(next.get(node.comment.id) ?? 0, path[depth + 1] + 1));
+                nodes = node.replies;
+            });
+            return next;
+        });
+        setHighlightedId(commentId);
+    }, [location.hash, tree]);
+
+    // 펼친 뒤 화면에 그려지면 스크롤하고, 잠시 강조했다가 지운다
+    useEffect(() => {
+        if (highlightedId === null) return;
+        const frame = requestAnimationFrame(() => {
+            document.getElementById(commentAnchorId(highlightedId))?.scrollIntoView({ block: 'center' });
+        });
+        const timer = setTimeout(() => setHighlightedId(null), HIGHLIGHT_DURATION);
+        return () => {
+            cancelAnimationFrame(frame);
+            clearTimeout(timer);
+        };
+    }, [highlightedId]);
+
+    const showReplies = (commentId: number, count: number) => {
+        setVisibleReplyCounts((prev) => new Map(prev).set(commentId, count));
+    };
+
+    const handleCreateRoot = (content: string) => {
+        setVisibleRootCount(tree.length + 1); // 새 댓글이 보이도록
+        return create(content, null, extractMentions(content, participants));
+    };
+
+    const handlers: CommentItemHandlers = {
+        onToggleMenu: (commentId) => setOpenMenuId((prev) => (prev === commentId ? null : commentId)),
+        onOpenComposer: (next) => {
+            if (!currentUserId) return alert('로그인이 필요합니다.');
+            setComposer(next);
+            setOpenMenuId(null);
+        },
+        onCloseComposer: () => setComposer(null),
+        onSubmitReply: async (parentId, content) => {
+            setComposer(null);
+            showReplies(parentId, Number.MAX_SAFE_INTEGER); // 방금 단 답글까지 펼친다
+            const succeeded = await create(content, parentId, extractMentions(content, participants));
+            if (!succeeded) setComposer({ mode: 'reply', commentId: parentId, draft: content });
+            return succeeded;
+        },
+        onSubmitEdit: async (commentId, content) => {
+            setComposer(null);
+            const succeeded = await update(commentId, content, extractMentions(content, participants));
+            if (!succeeded) setComposer({ mode: 'edit', commentId, draft: content });
+            return succeeded;
+        },
+        onDelete: (commentId) => {
+            setCommentToDelete(commentId);
+            setOpenMenuId(null);
+        },
+        onReport: (comment) => {
+            setCommentToReport(comment);
+            setOpenMenuId(null);
+        },
+        onReact: (commentId, emoji) => {
+            if (!currentUserId) return alert('로그인이 필요합니다.');
+            react(commentId, emoji);
+        },
+        onShowReplies: showReplies,
+    };
+
+    const handleSubmitReport = async (reason: ReportReason, content: string) => {
+        if (!commentToReport) return false;
+        try {
+            await reportsApi.create({
+                reportedId: commentToReport.authorId,
+                content: content || REPORT_REASON_LABELS[reason],
+                reason,
+                targetType: target.type,
+                targetId: commentToReport.id,
+                targetParentId: target.parentId,
+            });
+            alert('신고가 접수되었습니다.');
+            return true;
+        } catch (error) {
+            console.error('댓글 신고 실패:', error);
+            alert(getErrorMessage(error, '신고 접수에 실패했습니다.'));
+            return false;
+        }
+    };
+
+    const handleConfirmDelete = () => {
+        if (commentToDelete === null) return;
+        remove(commentToDelete);
+        setCommentToDelete(null);
+    };
+
+    const hiddenRootCount = tree.length - visibleRootCount;
+
+    return (
+        <div>
+            <div className="flex items-center space-x-2 mb-5">
+                <h2 className="text-base font-semibold">댓글</h2>
+                {totalCount > 0 && <span className="text-gray-600 text-base">{totalCount}</span>}
+            </div>
+
+            <div className="space-y-6">
+                {tree.slice(0, visibleRootCount).map((node) => (
+                    <CommentItem
+                        key={node.comment.id}
+                        node={node}
+                        depth={0}
+                        currentUserId={currentUserId}
+                        composer={composer}
+                        openMenuId={openMenuId}
+                        highlightedId={highlightedId}
+                        mentionCandidates={participants}
+                        visibleReplyCounts={visibleReplyCounts}
+                        handlers={handlers}
+                    />
+                ))}
+            </div>
+            {isLoading && <p className="text-center text-gray-500 mt-4">Loading...</p>}
+            {hiddenRootCount > 0 && (
+                <button
+                    className="w-full text-sm text-gray-500 hover:text-primary mt-5"
+                    onClick={() => setVisibleRootCount((count) => count + ROOT_PAGE_SIZE)}
+                >
+                    댓글 {hiddenRootCount}개 더보기
+                </button>
+            )}
+
+            {/* 맨 아래 입력창은 최상위 댓글 작성 (답글은 각 댓글의 '답글 달기') */}
+            <div
+                className="mt-6"
+                onClick={() => {
+                    if (!currentUserId) alert('로그인이 필요합니다.');
+                }}
+            >
+                <CommentForm placeholder="댓글 추가..." mentionCandidates={participants} onSubmit={handleCreateRoot} />
+            </div>
+
+            {/* 삭제하기 최종확인 팝업창 */}
+            {commentToDelete !== null && (
+                <ConfirmPopup
+                    message="정말 댓글을 삭제하시겠어요?"
+                    confirmLabel="삭제하기"
+                    onConfirm={handleConfirmDelete}
+                    onCancel={() => setCommentToDelete(null)}
+                />
+            )}
+
+            {/* 댓글 신고 팝업창 */}
+            {commentToReport && (
+                <CommentReportPopup
+                    comment={commentToReport}
+                    onSubmit={handleSubmitReport}
+                    onClose={() => setCommentToReport(null)}
+                />
+            )}
+        </div>
+    );
+};
+
+export default CommentThread;
@@ -0,0 +1,122 @@
+// src/components/CommentThread/useCommentThread.ts
+import { useMemo, useRef, useState } from 'react';
+import { getErrorMessage } from '../../api';
+import useCurrentUser from '../../hooks/useCurrentUser';
+import { buildCommentTree, CommentThreadActions, ThreadComment, toggleReaction } from './commentTree';
+
+// 댓글 작성/수정/삭제/반응을 서버 응답 전에 먼저 화면에 반영하고, 실패하면 원래대로 되돌린다
+// 임시 상태는 서버 목록(comments) 위에 덮어씌우기만 하므로 실패 시 임시 상태만 지우면 롤백된다
+const useCommentThread = (comments: ThreadComment[], actions: CommentThreadActions) => {
+    const currentUser = useCurrentUser();
+    const [pendingCreates, setPendingCreates] = useState<ThreadComment[]>([]);
+    const [pendingEdits, setPendingEdits] = useState<Map<number, string>>(new Map());
+    const [pendingDeletes, setPendingDeletes] = useState<Set<number>>(new Set());
+    const [pendingReactions, setPendingReactions] = useState<Map<number, string[]>>(new Map());
+    const tempIdRef = useRef(0);
+
+    const tree = useMemo(() => {
+        const merged = [...comments, ...pendingCreates].map((comment) => {
+            let next = comment;
+            if (pendingEdits.has(comment.id)) {
+                next = { ...next, content: pendingEdits.get(comment.id)!, isEdited: true, isPending: true };
+            }
+            const emojis = pendingReactions.get(comment.id);
+            if (emojis) {
+                next = { ...next, reactions: emojis.reduce(toggleReaction, next.reactions) };
+            }
+            return next;
+        });
+        return buildCommentTree(merged, pendingDeletes);
+    }, [comments, pendingCreates, pendingEdits, pendingDeletes, pendingReactions]);
+
+    const totalCount = tree.reduce((count, node) => count + 1 + node.replyCount, 0);
+
+    const create = async (content: string, parentId: number | null, mentions: string[]) => {
+        if (!currentUser) return false;
+        tempIdRef.current -= 1;
+        const temp: ThreadComment = {
+            id: tempIdRef.current,
+            parentId,
+            authorId: currentUser.id,
+            authorNickname: currentUser.nickname,
+            content,
+            createdAt: new Date().toISOString(),
+            isPending: true,
+            reactions: [],
+        };
+        setPendingCreates((prev) => [...prev, temp]);
+        try {
+            await actions.create(content, parentId, mentions);
+            return true;
+        } catch (error) {
+            console.error('댓글 작성 실패:', error);
+            alert(getErrorMessage(error, '댓글 작성에 실패했습니다.'));
+            return false;
+        } finally {
+            setPendingCreates((prev) => prev.filter((comment) => comment !== temp));
+        }
+    };
+
+    const update = async (commentId: number, content: string, mentions: string[]) => {
+        setPendingEdits((prev) => new Map(prev).set(commentId, content));
+        try {
+            await actions.update(commentId, content, mentions);
+            return true;
+        } catch (error) {
+            console.error('댓글 수정 실패:', error);
+            alert(getErrorMessage(error, '댓글 수정에 실패했습니다.'));
+            return false;
+        } finally {
+            setPendingEdits((prev) => {
+                const next = new Map(prev);
+                next.delete(commentId);
+                return next;
+            });
+        }
+    };
+
+    const remove = async (commentId: number) => {
+        setPendingDeletes((prev) => new Set(prev).add(commentId));
+        try {
+            await actions.remove(commentId);
+            return true;
+        } catch (error) {
+            console.error('댓글 삭제 실패:', error);
+            alert(getErrorMessage(error, '댓글 삭제에 실패했습니다.'));
+            return false;
+        } finally {
+            setPendingDeletes((prev) => {
+                const next = new Set(prev);
+                next.delete(commentId);
+                return next;
+            });
+        }
+    };
+
+    // 같은 댓글의 같은 이모지는 응답이 올 때까지 다시 누를 수 없다
+    const react = async (commentId: number, emoji: string) => {
+        if (pendingReactions.get(commentId)?.includes(emoji)) return;
+        setPendingReactions((prev) => new Map(prev).set(commentId, [...(prev.get(commentId) ?? []), emoji]));
+        try {
+            await actions.react(commentId, emoji);
+        } catch (error) {
+            console.error('댓글 반응 실패:', error);
+            alert(getErrorMessage(error, '반응을 남기지 못했습니다.'));
+        } finally {
+            setPendingReactions((prev) => {
+                const next = new Map(prev);
+                const emojis = (next.get(commentId) ?? []).filter((pending) => pending !== emoji);
+                if (emojis.length > 0) {
+                    next.set(commentId, emojis);
+                } else {
+                    next.delete(commentId);
+                }
+                return next;
+            });
+        }
+    };
+
+    return { tree, totalCount, currentUserId: currentUser?.id ?? null, create, update, remove, react };
+};
+
+export default useCommentThread;
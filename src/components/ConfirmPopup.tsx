@@ -0,0 +1,47 @@
+// src/components/ConfirmPopup.tsx
+import { ReactNode } from 'react';
+
+interface ConfirmPopupProps {
+    message: ReactNode;
+    confirmLabel: string;
+    danger?: boolean; // 나가기처럼 되돌릴 수 없는 동작
+    onConfirm: () => void;
+    onCancel: () => void;
+}
+
+// 나가기/위임/강퇴 최종확인 팝업창
+const ConfirmPopup = ({ message, confirmLabel, danger = false, onConfirm, onCancel }: ConfirmPopupProps) => (
+    <div
+        className="fixed inset-0 bg-gray-500 bg-opacity-50 flex justify-center items-center z-20"
+        onClick={(e) => e.stopPropagation()}
+    >
+        <div className="bg-white p-6 rounded-lg shadow-md w-80">
+            <h3 className="text-lg font-semibold mb-8">{message}</h3>
+            {danger ? (
+                <div className="flex justify-end space-x-4">
+                    <button
+                        className="text-gray-500 rounded-lg hover:bg-gray-100 px-3 py-1 transition-colors duration-200"
+                        onClick={onCancel}>
+                        취소
+                    </button>
+                    <button
+                        className="text-red-500 rounded-lg hover:bg-red-50 px-3 py-1 transition-colors duration-200"
+                        onClick={onConfirm}>
+                        {confirmLabel}
+                    </button>
+                </div>
+            ) : (
+                <div className="flex justify-end space-x-10">
+                    <button className="text-primary rounded-lg" onClick={onCancel}>
+                        취소
+                    </button>
+                    <button className="text-gray-500 rounded-lg" onClick={onConfirm}>
+                        {confirmLabel}
+                    </button>
+                </div>
+            )}
+        </div>
+    </div>
+);
+
+export default ConfirmPopup;
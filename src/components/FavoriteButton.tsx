@@ -0,0 +1,37 @@
+// src/components/FavoriteButton.tsx
+import { Heart } from 'lucide-react';
+import { Festival } from '../types/Festival';
+import useFavorites from '../hooks/useFavorites';
+
+interface FavoriteButtonProps {
+    festival: Festival;
+    className?: string; // 위치 지정 (카드 위에 겹칠 때 absolute 등)
+    size?: number;
+}
+
+// 축제 찜하기 하트 토글
+const FavoriteButton = ({ festival, className = "", size = 18 }: FavoriteButtonProps) => {
+    const { isFavorite, toggleFavorite } = useFavorites();
+    const active = isFavorite(festival.festivalId);
+
+    return (
+        <button
+            type="button"
+            className={`w-8 h-8 flex items-center justify-center rounded-full bg-white/80 shadow-sm hover:bg-white ${className}`}
+            onClick={(e) => {
+                e.stopPropagation(); // 카드 클릭(상세 이동) 막기
+                toggleFavorite(festival);
+            }}
+            aria-label={active ? "찜 해제" : "찜하기"}
+            aria-pressed={active}
+        >
+            <Heart
+                size={size}
+                className={active ? "text-[#FF6B36]" : "text-gray-500"}
+                fill={active ? "#FF6B36" : "none"}
+            />
+        </button>
+    );
+};
+
+export default FavoriteButton;
@@ -0,0 +1,101 @@
+// src/components/FestivalFilterPanel.tsx
+import { FESTIVAL_AREAS, FestivalFilters, FestivalSort } from '../api';
+
+interface FestivalFilterPanelProps {
+    filters: FestivalFilters;
+    onChange: (changes: Partial<FestivalFilters>) => void;
+    onReset: () => void;
+}
+
+const SORT_OPTIONS: { value: FestivalSort; label: string }[] = [
+    { value: 'startDate', label: '시작일 순' },
+    { value: 'endDate', label: '종료일 순' },
+    { value: 'name', label: '이름 순' },
+];
+
+// 축제 상세 검색 - 기간 / 지역(여러 개) / 진행 중만 / 정렬
+const FestivalFilterPanel = ({ filters, onChange, onReset }: FestivalFilterPanelProps) => {
+    const toggleArea = (area: string) => {
+        onChange({
+            areas: filters.areas.includes(area)
+                ? filters.areas.filter((selected) => selected !== area)
+                : [...filters.areas, area],
+        });
+    };
+
+    return (
+        <div className="border border-gray-200 rounded-lg p-4 mb-4 space-y-4 text-sm">
+            {/* 기간 */}
+            <div>
+                <p className="font-medium mb-2">기간</p>
+                <div className="flex items-center gap-2">
+                    <input
+                        type="date"
+                        value={filters.startDate}
+                        max={filters.endDate || undefined}
+                        onChange={(e) => onChange({ startDate: e.target.value })}
+                        className="flex-1 h-10 px-3 rounded-lg border border-gray-200 focus:outline-none focus:border-primary"
+                    />
+                    <span className="text-gray-400">~</span>
+                    <input
+                        type="date"
+                        value={filters.endDate}
+                        min={filters.startDate || undefined}
+                        onChange={(e) => onChange({ endDate: e.target.value })}
+                        className="flex-1 h-10 px-3 rounded-lg border border-gray-200 focus:outline-none focus:border-primary"
+                    />
+                </div>
+            </div>
+
+            {/* 지역 (여러 개 선택) */}
+            <div>
+                <p className="font-medium mb-2">지역</p>
+                <div className="flex flex-wrap gap-1">
+                    {FESTIVAL_AREAS.map((area) => (
+                        <button
+                            key={area}
+                            type="button"
+                            onClick={() => toggleArea(area)}
+                            className={`px-3 py-1 rounded-full border ${filters.areas.includes(area)
+                                ? 'border-primary bg-[#FFF4F1] text-primary'
+                                : 'border-gray-200 text-gray-600 hover:bg-gray-100'
+                                }`}
+                        >
+                            {area}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {/* 진행 중만 / 정렬 */}
+            <div className="flex items-center justify-between">
+                <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={filters.ongoing}
+                        onChange={(e) => onChange({ ongoing: e.target.checked })}
+                        className="accent-[#FF6B36]"
+                    />
+                    진행 중만
+                </label>
+                <select
+                    value={filters.sort}
+                    onChange={(e) => onChange({ sort: e.target.value as FestivalSort })}
+                    className="h-9 px-2 rounded-lg border border-gray-200 bg-white focus:outline-none focus:border-primary"
+                >
+                    {SORT_OPTIONS.map(({ value, label }) => (
+                        <option key={value} value={value}>{label}</option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="flex justify-end">
+                <button type="button" onClick={onReset} className="text-gray-500 hover:text-primary">
+                    초기화
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default FestivalFilterPanel;
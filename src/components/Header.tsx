@@ -2,26 +2,16 @@
 import { Link, useLocation } from 'react-router-dom'
 import logo from '../assets/images/logo.png'
 import { AlertBell } from './AlertBell';
-
+import { getErrorMessage } from '../api';
+import useSession from '../hooks/useSession';
 
 interface HeaderProps {
-    isLoggedIn: boolean;
-    setIsLoggedIn: (value: boolean) => void;
     isAlertOpen: boolean;
     setIsAlertOpen: (value: boolean) => void;
-    userInfo: UserInfoType | null;
-}
-
-interface UserInfoType {
-    data: {
-        id: number;
-        nickname: string;
-        profilePath: string | null;
-        role?: string;
-    };
 }
 
-const Header = ({ isLoggedIn, setIsLoggedIn, isAlertOpen, setIsAlertOpen, userInfo }: HeaderProps) => {
+const Header = ({ isAlertOpen, setIsAlertOpen }: HeaderProps) => {
+    const { currentUser, isLoggedIn, logout } = useSession();
     const location = useLocation();  // 현재 경로 확인을 위한 hook
 
     // 관리자 페이지에서는 헤더를 렌더링하지 않음
@@ -31,32 +21,11 @@ const Header = ({ isLoggedIn, setIsLoggedIn, isAlertOpen, setIsAlertOpen, userIn
 
     const handleLogout = async () => {
         try {
-            const memberId = userInfo?.data?.id;
-
-            const response = await fetch(
-                `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/auth/logout`, {
-                method: 'POST',
-                credentials: 'include',
-                headers: {
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify({
-                    memberId: memberId
-                })
-            });
-
-            if (response.ok) {
-                setIsLoggedIn(false);
-                localStorage.removeItem('isLoggedIn');
-                localStorage.removeItem('userInfo');
-                window.location.reload();
-            } else {
-                const errorData = await response.json();
-                alert(errorData.msg || '로그아웃에 실패했습니다.');
-            }
+            await logout();
+            window.location.reload();
         } catch (error) {
             console.error('로그아웃 에러:', error);
-            alert('서버 연결에 실패했습니다.');
+            alert(getErrorMessage(error, '로그아웃에 실패했습니다.'));
         }
     };
 
@@ -89,10 +58,10 @@ const Header = ({ isLoggedIn, setIsLoggedIn, isAlertOpen, setIsAlertOpen, userIn
                             <Link to="/mypage" className="flex items-center gap-2 hover:opacity-80 transition-opacity">
                                 <div className="w-8 h-8 rounded-full bg-gray-200 flex items-center justify-center overflow-hidden">
                                     <img
-                                        src={userInfo?.data?.profilePath
-                                            ? userInfo.data.profilePath.startsWith('http')
-                                                ? userInfo.data.profilePath
-                                                : `https://kr.object.ncloudstorage.com/hf-bucket2025/member/${userInfo.data.profilePath}`
+                                        src={currentUser?.profilePath
+                                            ? currentUser.profilePath.startsWith('http')
+                                                ? currentUser.profilePath
+                                                : `https://kr.object.ncloudstorage.com/hf-bucket2025/member/${currentUser.profilePath}`
                                             : `https://kr.object.ncloudstorage.com/hf-bucket2025/member/default.png`
                                         }
                                         alt="프로필"
@@ -100,7 +69,7 @@ const Header = ({ isLoggedIn, setIsLoggedIn, isAlertOpen, setIsAlertOpen, userIn
                                     />
                                 </div>
                                 <span className="text-sm text-gray-600">
-                                    {userInfo?.data?.nickname || '사용자'}
+                                    {currentUser?.nickname || '사용자'}
                                 </span>
                             </Link>
                             <button
@@ -111,7 +80,7 @@ const Header = ({ isLoggedIn, setIsLoggedIn, isAlertOpen, setIsAlertOpen, userIn
                             </button>
                         </div>
                     )}
-                    {userInfo?.data?.role === 'ADMIN' && (
+                    {currentUser?.role === 'ADMIN' && (
                         <Link
                             to="/admin"
                             className="px-4 py-1.5 text-sm font-medium text-primary hover:text-white hover:bg-primary rounded-full transition-all duration-200"
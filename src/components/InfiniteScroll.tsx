@@ -0,0 +1,52 @@
+// src/components/InfiniteScroll.tsx
+import { ReactNode, useEffect, useRef } from 'react';
+
+interface InfiniteScrollProps {
+    hasMore: boolean;
+    isLoading: boolean;
+    error: unknown;
+    onLoadMore: () => void;
+    onRetry: () => void;
+    children: ReactNode;
+    endMessage?: ReactNode; // 마지막 페이지까지 불러왔을 때
+}
+
+// 목록 끝의 sentinel 이 화면에 가까워지면 다음 페이지 요청 (useInfiniteList 와 함께 사용)
+const InfiniteScroll = ({ hasMore, isLoading, error, onLoadMore, onRetry, children, endMessage }: InfiniteScrollProps) => {
+    const sentinelRef = useRef<HTMLDivElement>(null);
+    const canLoadMore = hasMore && !isLoading && !error;
+
+    // 로딩이 끝날 때마다 다시 관찰 - 불러온 목록이 짧아 sentinel 이 계속 보이는 경우에도 이어서 요청된다
+    useEffect(() => {
+        const sentinel = sentinelRef.current;
+        if (!sentinel || !canLoadMore) return;
+
+        const observer = new IntersectionObserver(
+            ([entry]) => {
+                if (entry.isIntersecting) onLoadMore();
+            },
+            { rootMargin: '200px' }
+        );
+        observer.observe(sentinel);
+        return () => observer.disconnect();
+    }, [canLoadMore, onLoadMore]);
+
+    return (
+        <>
+            {children}
+            <div ref={sentinelRef} />
+            {isLoading && <p className="text-center text-gray-500 mt-4">Loading...</p>}
+            {!isLoading && Boolean(error) && (
+                <div className="text-center mt-4">
+                    <p className="text-sm text-gray-500">목록을 불러오지 못했습니다.</p>
+                    <button className="mt-2 text-sm text-primary" onClick={onRetry}>
+                        다시 시도
+                    </button>
+                </div>
+            )}
+            {!isLoading && !error && !hasMore && endMessage}
+        </>
+    );
+};
+
+export default InfiniteScroll;
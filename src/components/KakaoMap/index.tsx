@@ -0,0 +1,90 @@
+// src/components/KakaoMap/index.tsx
+import { useEffect, useRef } from "react";
+import { Festival } from "../../types/Festival";
+import type { KakaoMap as KakaoMapInstance, KakaoMarker, KakaoMarkerClusterer } from "../../kakao.maps";
+import { geocodeFestivals } from "./kakaoMapService";
+
+const DEFAULT_CENTER = { lat: 37.5665, lng: 126.978 }; // 서울시청
+const DEFAULT_LEVEL = 8;
+const CLUSTER_MIN_LEVEL = 6; // 이 레벨보다 축소하면 마커를 묶어서 표시
+
+interface KakaoMapProps {
+    festivals: Festival[];
+    onIdle?: (map: KakaoMapInstance) => void; // 지도 이동/확대가 끝났을 때
+    onFestivalClick?: (festival: Festival) => void;
+}
+
+const KakaoMap = ({ festivals, onIdle, onFestivalClick }: KakaoMapProps) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const mapRef = useRef<KakaoMapInstance | null>(null);
+    const clustererRef = useRef<KakaoMarkerClusterer | null>(null);
+    const onIdleRef = useRef(onIdle);
+    const onFestivalClickRef = useRef(onFestivalClick);
+
+    // 지도 이벤트 리스너는 한 번만 등록하므로 최신 콜백을 ref 로 참조
+    useEffect(() => {
+        onIdleRef.current = onIdle;
+        onFestivalClickRef.current = onFestivalClick;
+    });
+
+    // 지도 & 클러스터러 생성
+    useEffect(() => {
+        const { maps } = window.kakao;
+        maps.load(() => {
+            if (!containerRef.current || mapRef.current) return;
+
+            const map = new maps.Map(containerRef.current, {
+                center: new maps.LatLng(DEFAULT_CENTER.lat, DEFAULT_CENTER.lng),
+                level: DEFAULT_LEVEL,
+            });
+            mapRef.current = map;
+            clustererRef.current = new maps.MarkerClusterer({
+                map,
+                averageCenter: true,
+                minLevel: CLUSTER_MIN_LEVEL,
+            });
+
+            maps.event.addListener(map, 'idle', () => onIdleRef.current?.(map));
+            onIdleRef.current?.(map);
+        });
+    }, []);
+
+    // 축제 위치에 마커 표시
+    useEffect(() => {
+        const controller = new AbortController(); // 축제 목록이 바뀌면 남은 위치 검색 중단
+        let markers: KakaoMarker[] = [];
+
+        const drawMarkers = async () => {
+            const positions = await geocodeFestivals(festivals, controller.signal);
+            const clusterer = clustererRef.current;
+            if (controller.signal.aborted || !clusterer) return;
+
+            const { maps } = window.kakao;
+            markers = festivals.flatMap((festival, index) => {
+                const position = positions[index];
+                if (!position) return [];
+
+                const marker = new maps.Marker({
+                    position: new maps.LatLng(position.lat, position.lng),
+                    title: festival.festivalName,
+                    clickable: true,
+                });
+                maps.event.addListener(marker, 'click', () => onFestivalClickRef.current?.(festival));
+                return [marker];
+            });
+            clusterer.addMarkers(markers);
+        };
+
+        drawMarkers();
+        return () => {
+            controller.abort();
+            clustererRef.current?.removeMarkers(markers);
+        };
+    }, [festivals]);
+
+    return (
+        <div ref={containerRef} className="w-full h-[500px] bg-gray-200 rounded-lg"></div>
+    );
+};
+
+export default KakaoMap;
@@ -0,0 +1,165 @@
+// src/components/KakaoMap/kakaoMapService.ts
+import { Festival } from '../../types/Festival';
+
+export interface Coordinates {
+    lat: number;
+    lng: number;
+}
+
+const LOCATION_TIMEOUT = 10 * 1000;
+const LOCATION_MAX_AGE = 10 * 60 * 1000; // 이 시간 안에 확인한 위치는 다시 측정하지 않는다
+
+export const getUserLocation = (): Promise<GeolocationCoordinates | null> => {
+    return new Promise((resolve, reject) => {
+        if (navigator.geolocation) {
+            // 옵션의 timeout 은 권한을 허용한 뒤부터 재므로, 권한 요청을 무시한 경우도 끝나도록 따로 제한
+            const timer = setTimeout(() => reject(new Error('위치 확인 시간 초과')), LOCATION_TIMEOUT);
+            navigator.geolocation.getCurrentPosition(
+                (position) => {
+                    clearTimeout(timer);
+                    resolve(position.coords);
+                },
+                (error) => {
+                    clearTimeout(timer);
+                    reject(error);
+                },
+                { timeout: LOCATION_TIMEOUT, maximumAge: LOCATION_MAX_AGE }
+            );
+        } else {
+            reject("Geolocation is not supported by this browser.");
+        }
+    });
+};
+
+// Function to get region from coordinates
+export const getRegionFromCoordinates = async (lat: number, lng: number): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        window.kakao.maps.load(() => {
+            const geocoder = new window.kakao.maps.services.Geocoder();
+
+            // Using Kakao Geocoder to convert coordinates to region
+            geocoder.coord2RegionCode(lng, lat, (result, status) => {
+                if (status === window.kakao.maps.services.Status.OK) {
+                    // Extract region name from the first result
+                    const region = result[0].region_1depth_name;
+                    resolve(region);
+                } else {
+                    reject("Unable to get region");
+                }
+            });
+        });
+    });
+};
+
+// 시/도 이름을 프로필 주소와 같은 짧은 이름으로 ("서울특별시" -> "서울", "경상북도" -> "경북")
+const SHORT_REGION_NAMES: { [fullName: string]: string } = {
+    서울특별시: '서울',
+    부산광역시: '부산',
+    대구광역시: '대구',
+    인천광역시: '인천',
+    광주광역시: '광주',
+    대전광역시: '대전',
+    울산광역시: '울산',
+    세종특별자치시: '세종',
+    경기도: '경기',
+    강원도: '강원',
+    강원특별자치도: '강원',
+    충청북도: '충북',
+    충청남도: '충남',
+    전라북도: '전북',
+    전북특별자치도: '전북',
+    전라남도: '전남',
+    경상북도: '경북',
+    경상남도: '경남',
+    제주특별자치도: '제주',
+};
+
+export const toShortRegionName = (region: string) => SHORT_REGION_NAMES[region] ?? region;
+
+// 주소 -> 좌표
+const searchAddress = (address: string) => new Promise<Coordinates | null>((resolve) => {
+    const geocoder = new window.kakao.maps.services.Geocoder();
+    geocoder.addressSearch(address, (result, status) => {
+        resolve(status === window.kakao.maps.services.Status.OK
+            ? { lat: Number(result[0].y), lng: Number(result[0].x) }
+            : null);
+    });
+});
+
+// 장소 이름(공연장 등) -> 좌표
+const searchPlace = (keyword: string) => new Promise<Coordinates | null>((resolve) => {
+    const places = new window.kakao.maps.services.Places();
+    places.keywordSearch(keyword, (result, status) => {
+        resolve(status === window.kakao.maps.services.Status.OK
+            ? { lat: Number(result[0].y), lng: Number(result[0].x) }
+            : null);
+    });
+});
+
+// 같은 장소는 한 번만 검색 (지도를 움직일 때마다, 다시 방문할 때마다 검색하지 않도록 localStorage 에 보관)
+const GEOCODE_CACHE_KEY = 'geocodeCache';
+const MAX_GEOCODE_CACHE = 500; // 넘으면 오래된 것부터 지운다
+const GEOCODE_CONCURRENCY = 4; // 동시에 보내는 장소 검색 수 (SDK 호출 제한)
+
+const loadGeocodeCache = (): { [key: string]: Coordinates | null } => {
+    try {
+        return JSON.parse(localStorage.getItem(GEOCODE_CACHE_KEY) ?? '{}');
+    } catch {
+        return {};
+    }
+};
+
+const geocodeCache = loadGeocodeCache();
+const pendingGeocodes = new Map<string, Promise<Coordinates | null>>();
+
+const saveGeocodeCache = () => {
+    const keys = Object.keys(geocodeCache);
+    keys.slice(0, Math.max(keys.length - MAX_GEOCODE_CACHE, 0)).forEach((key) => delete geocodeCache[key]);
+    try {
+        localStorage.setItem(GEOCODE_CACHE_KEY, JSON.stringify(geocodeCache));
+    } catch (error) {
+        console.error('위치 캐시 저장 실패:', error); // 저장 공간 부족 - 이번 방문 동안은 메모리 캐시로 동작
+    }
+};
+
+const cached = (key: string, search: () => Promise<Coordinates | null>) => {
+    if (key in geocodeCache) return Promise.resolve(geocodeCache[key]);
+    if (!pendingGeocodes.has(key)) {
+        pendingGeocodes.set(key, search().then((coords) => {
+            geocodeCache[key] = coords;
+            pendingGeocodes.delete(key);
+            saveGeocodeCache();
+            return coords;
+        }));
+    }
+    return pendingGeocodes.get(key)!;
+};
+
+// 축제 위치 찾기 - 공연장 이름이 있으면 지역과 함께 장소 검색, 없거나 실패하면 지역 주소로 검색
+export const geocodeFestival = async (festival: Festival): Promise<Coordinates | null> => {
+    const area = festival.festivalArea?.trim();
+    const hall = festival.festivalHallName?.trim();
+
+    if (hall) {
+        const keyword = area ? `${area} ${hall}` : hall;
+        const coords = await cached(`place:${keyword}`, () => searchPlace(keyword));
+        if (coords) return coords;
+    }
+    if (!area) return null;
+    return (await cached(`address:${area}`, () => searchAddress(area)))
+        ?? cached(`place:${area}`, () => searchPlace(area));
+};
+
+// 여러 축제 위치 찾기 - 한꺼번에 검색하지 않고 GEOCODE_CONCURRENCY 개씩 (취소하면 남은 축제는 null)
+export const geocodeFestivals = async (festivals: Festival[], signal?: AbortSignal) => {
+    const positions: (Coordinates | null)[] = festivals.map(() => null);
+    let nextIndex = 0;
+    const worker = async () => {
+        while (nextIndex < festivals.length && !signal?.aborted) {
+            const index = nextIndex++;
+            positions[index] = await geocodeFestival(festivals[index]);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(GEOCODE_CONCURRENCY, festivals.length) }, worker));
+    return positions;
+};
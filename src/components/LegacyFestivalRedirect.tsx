@@ -0,0 +1,13 @@
+// src/components/LegacyFestivalRedirect.tsx
+import { Navigate, useSearchParams } from 'react-router-dom';
+import { festivalPath } from '../utils/routes';
+
+// 예전 주소(/detailposts?id=...)로 공유된 링크를 새 상세 주소로 이동
+const LegacyFestivalRedirect = () => {
+    const [searchParams] = useSearchParams();
+    const festivalId = searchParams.get('id');
+
+    return <Navigate to={festivalId ? festivalPath(festivalId) : '/posts'} replace />;
+};
+
+export default LegacyFestivalRedirect;
@@ -4,12 +4,9 @@ import { useNavigate } from "react-router-dom";
 import 'swiper/css';
 import 'swiper/css/pagination';
 import 'swiper/css/navigation';
-
-interface Festival {
-    festivalId: string;
-    festivalName: string;
-    festivalUrl: string;
-}
+import { Festival } from '../types/Festival';
+import FavoriteButton from './FavoriteButton';
+import { festivalPath } from '../utils/routes';
 
 interface MainBannerProps {
     mainPosts: Festival[];
@@ -33,7 +30,7 @@ const MainBanner = ({ mainPosts }: MainBannerProps) => {
                     <SwiperSlide
                         key={mainPost.festivalId}
                         className="flex justify-center items-center"
-                        onClick={() => navigate(`/detailposts?id=${encodeURIComponent(mainPost.festivalId)}`)}
+                        onClick={() => navigate(festivalPath(mainPost.festivalId))}
                     >
                         <div className="w-full max-w-4xl bg-white rounded-lg shadow-md overflow-hidden">
                             <div className="relative w-full h-[300px] bg-gray-100 flex justify-center items-center">
@@ -42,6 +39,7 @@ const MainBanner = ({ mainPosts }: MainBannerProps) => {
                                     alt={mainPost.festivalName}
                                     className="w-full h-full object-contain"
                                 />
+                                <FavoriteButton festival={mainPost} className="absolute top-3 right-3" size={20} />
                             </div>
                         </div>
                     </SwiperSlide>
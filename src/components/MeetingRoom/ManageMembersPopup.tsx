@@ -0,0 +1,140 @@
+// src/components/MeetingRoom/ManageMembersPopup.tsx
+import { useState } from 'react';
+import { ChatRoom } from '../../types/ChatRoom';
+
+interface ManageMembersPopupProps {
+    room: ChatRoom;
+    onDelegate: (memberId: string) => void;
+    onKick: (memberId: string) => void;
+    onApprove: (memberId: string) => void;
+    onRefuse: (memberId: string) => void;
+    onClose: () => void;
+}
+
+// 인원관리 팝업창 (참여자/대기자 탭)
+const ManageMembersPopup = ({ room, onDelegate, onKick, onApprove, onRefuse, onClose }: ManageMembersPopupProps) => {
+    const [activeTab, setActiveTab] = useState("참여자");
+
+    // 참여자 목록에서 방장위치 맨 위에 고정
+    const ownerIndex = room.joinMemberIdNickNameList.findIndex(([id]) => id === String(room.memberId));
+    const joinMembers = ownerIndex !== -1
+        ? [
+            room.joinMemberIdNickNameList[ownerIndex],
+            ...room.joinMemberIdNickNameList.filter((_, idx) => idx !== ownerIndex)
+        ]
+        : room.joinMemberIdNickNameList;
+    const waitingMembers = room.waitingMemberIdNickNameList ?? [];
+
+    return (
+        <div
+            className="fixed inset-0 bg-gray-500 bg-opacity-10 flex justify-center items-center z-20"
+            onClick={(e) => e.stopPropagation()} // 팝업 외부 클릭 방지
+        >
+            <div className="bg-white w-2/3 h-3/4 p-6 rounded-lg shadow-md flex flex-col">
+                <h3 className="text-lg font-semibold mb-4">인원 관리</h3>
+                {/* 메뉴바 */}
+                <div className="flex border-b">
+                    {[
+                        { label: "참여자", count: joinMembers.length },
+                        { label: "대기자", count: waitingMembers.length },
+                    ].map(({ label, count }) => (
+                        <button
+                            key={label}
+                            className={`flex-1 p-2 text-center text-lg font-medium ${activeTab === label ? "border-b-2 border-primary text-primary" : "text-gray-500"
+                                }`}
+                            onClick={() => setActiveTab(label)}
+                        >
+                            {`${label} ${count}`}
+                        </button>
+                    ))}
+                </div>
+
+                {/* 내용 */}
+                <div className="flex-grow overflow-y-auto p-4">
+                    {activeTab === "참여자" ? (
+                        <ul>
+                            {joinMembers.map(([id, nickname], index) => (
+                                <li key={id} className="p-2 border-b flex items-center w-full">
+                                    {index === 0 ? (
+                                        <svg
+                                            className="w-6 h-6 mr-2 text-yellow-500"
+                                            fill="currentColor"
+                                            viewBox="0 0 24 24"
+                                        >
+                                            <path d="M5 16L3 5L8.5 10L12 4L15.5 10L21 5L19 16H5ZM19 19H5V21H19V19Z" />
+                                        </svg>
+                                    ) : (
+                                        <svg
+                                            className="w-6 h-6 mr-2 text-gray-400"
+                                            fill="none"
+                                            stroke="currentColor"
+                                            viewBox="0 0 24 24"
+                                        >
+                                            <path
+                                                strokeLinecap="round"
+                                                strokeLinejoin="round"
+                                                strokeWidth="2"
+                                                d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z"
+                                            />
+                                        </svg>
+                                    )}
+                                    <span>{nickname}</span>
+                                    {index !== 0 && (
+                                        <div className="ml-auto flex space-x-4">
+                                            <button
+                                                onClick={() => onDelegate(id)}
+                                                className="text-primary hover:bg-[#FFF4F1] px-2 py-1 rounded-md transition-colors duration-200"
+                                            >
+                                                위임
+                                            </button>
+                                            <button
+                                                onClick={() => onKick(id)}
+                                                className="text-gray-500 hover:bg-gray-100 px-2 py-1 rounded-md transition-colors duration-200"
+                                            >
+                                                강퇴
+                                            </button>
+                                        </div>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    ) : (
+                        <ul>
+                            {waitingMembers.length > 0 ? (
+                                waitingMembers.map(([id, nickname]) => (
+                                    <li key={id} className="p-2 border-b flex items-center w-full">
+                                        <span>{nickname}</span>
+                                        <div className="ml-auto flex space-x-4">
+                                            <button
+                                                className="text-primary hover:bg-[#FFF4F1] px-2 py-1 rounded-md transition-colors duration-200"
+                                                onClick={() => onApprove(id)}
+                                            >
+                                                승인
+                                            </button>
+                                            <button
+                                                className="text-gray-500 hover:bg-gray-100 px-2 py-1 rounded-md transition-colors duration-200"
+                                                onClick={() => onRefuse(id)}
+                                            >
+                                                거절
+                                            </button>
+                                        </div>
+                                    </li>
+                                ))
+                            ) : (
+                                <p className="text-center text-gray-500">대기자가 없습니다.</p>
+                            )}
+                        </ul>
+                    )}
+                </div>
+
+                {/* 닫기 버튼 */}
+                <div className="text-right mt-4">
+                    <button className="px-4 py-2 text-primary rounded-lg" onClick={onClose}>
+                        닫기</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ManageMembersPopup;
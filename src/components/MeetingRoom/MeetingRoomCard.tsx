@@ -0,0 +1,194 @@
+// src/components/MeetingRoom/MeetingRoomCard.tsx
+import dots from '../../assets/images/three-dots.png';
+import { ChatRoom } from '../../types/ChatRoom';
+
+interface MeetingRoomCardProps {
+    room: ChatRoom;
+    isJoined: boolean;
+    isWaiting: boolean;
+    isOwner: boolean;
+    isExpanded: boolean;
+    isMenuOpen: boolean;
+    onToggleExpand: () => void;
+    onToggleMenu: () => void;
+    onCloseMenu: () => void;
+    onManage: () => void;
+    onEdit: () => void;
+    onLeave: () => void;
+    onAddToCalendar: () => void;
+    onShare: () => void;
+    onEnter: () => void;
+    onToggleApply: () => void;
+}
+
+const MeetingRoomCard = ({
+    room,
+    isJoined,
+    isWaiting,
+    isOwner,
+    isExpanded,
+    isMenuOpen,
+    onToggleExpand,
+    onToggleMenu,
+    onCloseMenu,
+    onManage,
+    onEdit,
+    onLeave,
+    onAddToCalendar,
+    onShare,
+    onEnter,
+    onToggleApply,
+}: MeetingRoomCardProps) => (
+    <div
+        className="bg-white rounded-lg p-4 border border-gray-100 shadow-md hover:border-[#FF6B36] transition-colors duration-200 cursor-pointer"
+        onClick={onToggleExpand}
+    >
+        {/* 토요명품 표시 */}
+        <div className="flex justify-between items-center mb-4">
+            <div className={`inline-block text-xs px-3 py-1 rounded-full ${isJoined
+                ? "bg-green-50 text-green-500"
+                : "bg-[#FFF4F1] text-[#FF6B36]"
+                }`}>
+                {room.festivalName}
+            </div>
+            <div className="flex items-center text-xs text-gray-400">
+                <p>{new Date(room.createDate).toISOString().slice(0, 10).replace(/-/g, ".")}</p>
+                {/* 팝업 메뉴 (점 세개) */}
+                {isJoined && (
+                    <div className="relative">
+                        <div className="w-6 h-6 flex items-center justify-center rounded-full hover:bg-gray-100 ml-2 border border-gray-200">
+                            <img
+                                src={dots}
+                                alt="사이드바"
+                                className="h-5 cursor-pointer"
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    onToggleMenu();
+                                }}
+                            />
+                        </div>
+                        {/* 팝업 메뉴 */}
+                        {isMenuOpen && (
+                            <div
+                                className="absolute right-0 top-8 bg-white shadow-md rounded-lg border border-gray-200 w-24 text-sm z-10"
+                                onClick={(e) => e.stopPropagation()}
+                                onBlur={onCloseMenu}
+                                tabIndex={0}
+                            >
+                                {isOwner && (
+                                    <>
+                                        <button
+                                            className="w-full text-left px-3 py-2 hover:bg-gray-100 text-black"
+                                            onClick={onManage}
+                                        >
+                                            인원 관리
+                                        </button>
+                                        <button
+                                            className="w-full text-left px-3 py-2 hover:bg-gray-100 text-black"
+                                            onClick={onEdit}
+                                        >
+                                            수정하기
+                                        </button>
+                                    </>
+                                )}
+                                <button
+                                    className="w-full text-left px-3 py-2 hover:bg-gray-100 text-black"
+                                    onClick={onAddToCalendar}
+                                >
+                                    캘린더 추가
+                                </button>
+                                <button
+                                    className="w-full text-left px-3 py-2 hover:bg-gray-100 text-black"
+                                    onClick={onShare}
+                                >
+                                    공유하기
+                                </button>
+                                <button
+                                    className="w-full text-left px-3 py-2 hover:bg-gray-100 text-primary"
+                                    onClick={onLeave}
+                                >
+                                    나가기
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+
+        {/* 제목 */}
+        <h3 className="font-medium text-base mb-2 truncate max-w-[75%]">
+            {room.roomTitle}
+        </h3>
+
+        {/* 내용 */}
+        <p className={`text-sm text-gray-500 mb-6 ${isExpanded ? "" : "truncate"} max-w-full`}>
+            {room.roomContent}
+        </p>
+
+        {/* 하단 정보 */}
+        <div className="flex items-center justify-between text-xs text-gray-400 mt-2">
+            <div className="flex items-center gap-2">
+                {/* 참여 인원 */}
+                <div className="flex items-center gap-1 text-gray-500">
+                    <svg
+                        className="w-4 h-4"
+                        fill="none"
+                        viewBox="0 0 24 24"
+                        stroke="currentColor"
+                    >
+                        <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth="2"
+                            d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197M13 7a4 4 0 11-8 0 4 4 0 018 0z"
+                        />
+                    </svg>
+                    <span>{room.joinMemberNum}/{room.roomMemberLimit}</span>
+                </div>
+
+                {/* 프로그레스 바 */}
+                <div className="w-32 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                    <div
+                        className="h-full bg-gray-500"
+                        style={{
+                            width: `${(Number(room.joinMemberNum) / Number(room.roomMemberLimit)) * 100}%`
+                        }}
+                    />
+                </div>
+
+                {/* 참여중 표시 */}
+                {isJoined && (
+                    <span className="text-green-500 bg-green-50 px-2 py-0.5 rounded-full">
+                        참여중
+                    </span>
+                )}
+            </div>
+
+            {/* 참여하기/입장하기 버튼 */}
+            {isJoined ? (
+                <button
+                    className="text-sm font-medium px-3 py-1 rounded-full bg-[#FF6B36] text-white hover:bg-[#FF855B] transition-colors duration-200"
+                    onClick={onEnter}
+                >
+                    입장하기
+                </button>
+            ) : (
+                <button
+                    className={`text-sm font-medium px-3 py-1 rounded-full border transition-colors duration-200 ${isWaiting
+                        ? "text-gray-500 border-gray-400 hover:bg-gray-100"
+                        : "text-[#FF6B36] border border-[#FF6B36] hover:bg-[#FFF4F1]"
+                        }`}
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        onToggleApply();
+                    }}
+                >
+                    {isWaiting ? "취소" : "참여하기"}
+                </button>
+            )}
+        </div>
+    </div>
+);
+
+export default MeetingRoomCard;
@@ -0,0 +1,80 @@
+// src/components/MeetingRoom/RoomFormPopup.tsx
+import { useState } from 'react';
+import { ChatRoomForm } from '../../types/ChatRoom';
+
+interface RoomFormPopupProps {
+    title: string;
+    initialForm?: ChatRoomForm;
+    onSubmit: (form: ChatRoomForm) => void;
+    onClose: () => void;
+}
+
+const EMPTY_FORM: ChatRoomForm = { roomTitle: "", roomContent: "", roomMemberLimit: 10 };
+
+// 모임 생성/수정 팝업
+const RoomFormPopup = ({ title, initialForm = EMPTY_FORM, onSubmit, onClose }: RoomFormPopupProps) => {
+    const [form, setForm] = useState<ChatRoomForm>(initialForm);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+        const { name, value } = e.target;
+        setForm((prev) => ({
+            ...prev,
+            [name]: name === "roomMemberLimit" ? Number(value) : value,
+        }));
+    };
+
+    return (
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-10 flex justify-center items-center z-20"
+            onClick={(e) => e.stopPropagation()}>
+            <div className="bg-white w-2/3 h-4/7 p-6 rounded-lg shadow-md flex flex-col">
+                <h3 className="text-lg font-semibold mb-4">{title}</h3>
+
+                <label className="block mb-2">
+                    제목
+                    <input
+                        type="text"
+                        name="roomTitle"
+                        value={form.roomTitle}
+                        onChange={handleChange}
+                        maxLength={100}
+                        className="w-full border p-2 rounded mt-1"
+                    />
+                </label>
+
+                <label className="block mb-2">
+                    내용
+                    <textarea
+                        name="roomContent"
+                        value={form.roomContent}
+                        onChange={handleChange}
+                        maxLength={500}
+                        className="w-full border p-2 rounded mt-1 h-32"
+                    />
+                </label>
+
+                <label className="block mb-4">
+                    인원 제한
+                    <select
+                        name="roomMemberLimit"
+                        value={form.roomMemberLimit}
+                        onChange={handleChange}
+                        className="w-full border p-2 rounded mt-1 mb-2"
+                    >
+                        {Array.from({ length: 10 }, (_, i) => (i + 1) * 10).map((num) => (
+                            <option key={num} value={num}>{num}명</option>
+                        ))}
+                    </select>
+                </label>
+
+                <div className="flex justify-end space-x-4">
+                    <button className="pl-4 py-2 text-primary" onClick={onClose}>취소</button>
+                    <button className="pl-4 py-2 text-primary" onClick={() => onSubmit(form)}>
+                        저장
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default RoomFormPopup;
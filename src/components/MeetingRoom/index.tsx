@@ -0,0 +1,207 @@
+// src/components/MeetingRoom/index.tsx
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ChatRoom, ChatRoomForm } from '../../types/ChatRoom';
+import { Festival } from '../../types/Festival';
+import { downloadMeetingIcs } from '../../utils/calendarExport';
+import MeetingRoomCard from './MeetingRoomCard';
+import ManageMembersPopup from './ManageMembersPopup';
+import RoomFormPopup from './RoomFormPopup';
+import ConfirmPopup from '../ConfirmPopup';
+import useRoomMembership from './useRoomMembership';
+import useRoomActions from './useRoomActions';
+import useVirtualList from '../../hooks/useVirtualList';
+import ShareSheet from '../ShareSheet';
+import { meetingShareContent } from '../../utils/share';
+
+interface MeetingRoomListProps {
+    rooms: ChatRoom[];
+    onRoomsChanged: () => void | Promise<unknown>; // 수정/나가기/인원관리 후 목록 다시 불러오기
+    emptyMessage?: string;
+    festival?: Festival; // 한 축제의 모임 목록이면 캘린더 내보내기에 그 축제 일정을 바로 사용
+}
+
+// 위임/강퇴 대상
+interface MemberTarget {
+    chatRoomId: string;
+    memberId: string;
+}
+
+// 모임 카드 목록 + 참여/나가기/인원관리/수정 팝업
+const MeetingRoomList = ({ rooms, onRoomsChanged, emptyMessage = "검색된 모임이 없습니다", festival }: MeetingRoomListProps) => {
+    const navigate = useNavigate();
+    const { currentUser, isJoined, isWaiting, isOwner } = useRoomMembership();
+    const actions = useRoomActions(onRoomsChanged);
+    const [expandedRoomId, setExpandedRoomId] = useState<string | null>(null);
+    const [openMenuId, setOpenMenuId] = useState<string | null>(null);
+    const [managingRoomId, setManagingRoomId] = useState<string | null>(null);
+    const [editingRoomId, setEditingRoomId] = useState<string | null>(null);
+    const [leavingRoomId, setLeavingRoomId] = useState<string | null>(null);
+    const [delegateTarget, setDelegateTarget] = useState<MemberTarget | null>(null);
+    const [kickTarget, setKickTarget] = useState<MemberTarget | null>(null);
+    const [sharingRoomId, setSharingRoomId] = useState<string | null>(null);
+
+    // 모임이 많아져도 화면 근처 카드만 그린다 (펼친 카드는 높이가 바뀌므로 측정해서 사용)
+    const roomList = useVirtualList({
+        count: rooms.length,
+        getKey: (index) => rooms[index].chatRoomId,
+        estimateSize: 200,
+    });
+
+    // 목록을 다시 불러와도 최신 데이터로 팝업을 그리도록 id 로 찾는다
+    const managingRoom = rooms.find((room) => room.chatRoomId === managingRoomId);
+    const editingRoom = rooms.find((room) => room.chatRoomId === editingRoomId);
+    const sharingRoom = rooms.find((room) => room.chatRoomId === sharingRoomId);
+
+    // ID로 닉네임 찾기 함수
+    const getNicknameById = (target: MemberTarget) => {
+        const room = rooms.find((room) => room.chatRoomId === target.chatRoomId);
+        const member = room?.joinMemberIdNickNameList.find(([memberId]) => memberId === target.memberId);
+        return member ? member[1] : "알 수 없음";
+    };
+
+    const handleToggleApply = (chatRoomId: string) => {
+        if (!currentUser) {
+            alert("로그인이 필요합니다.");
+            return;
+        }
+        actions.toggleApply(chatRoomId, isWaiting(chatRoomId));
+    };
+
+    const handleSaveEdit = async (chatRoomId: string, form: ChatRoomForm) => {
+        if (await actions.update(chatRoomId, form)) {
+            setEditingRoomId(null);
+        }
+    };
+
+    const confirmLeave = async (chatRoomId: string) => {
+        setLeavingRoomId(null);
+        await actions.leave(chatRoomId);
+    };
+
+    const confirmDelegate = async ({ chatRoomId, memberId }: MemberTarget) => {
+        setDelegateTarget(null);
+        if (await actions.delegate(chatRoomId, memberId)) {
+            setManagingRoomId(null); // 방장이 아니게 되므로 인원관리 창 닫기
+        }
+    };
+
+    const confirmKick = async ({ chatRoomId, memberId }: MemberTarget) => {
+        setKickTarget(null);
+        await actions.kick(chatRoomId, memberId);
+    };
+
+    return (
+        <>
+            {rooms.length > 0 ? (
+                <div ref={roomList.listRef} style={roomList.listStyle}>
+                    {roomList.virtualItems.map(({ index, key }) => {
+                        const room = rooms[index];
+                        return (
+                            <div key={key} ref={roomList.measureRef(key)} className="pb-3">
+                                <MeetingRoomCard
+                                    room={room}
+                                    isJoined={isJoined(room.chatRoomId)}
+                                    isWaiting={isWaiting(room.chatRoomId)}
+                                    isOwner={isOwner(room)}
+                                    isExpanded={expandedRoomId === room.chatRoomId}
+                                    isMenuOpen={openMenuId === room.chatRoomId}
+                                    onToggleExpand={() => setExpandedRoomId(expandedRoomId === room.chatRoomId ? null : room.chatRoomId)}
+                                    onToggleMenu={() => setOpenMenuId(openMenuId === room.chatRoomId ? null : room.chatRoomId)}
+                                    onCloseMenu={() => setOpenMenuId(null)}
+                                    onManage={() => setManagingRoomId(room.chatRoomId)}
+                                    onEdit={() => setEditingRoomId(room.chatRoomId)}
+                                    onLeave={() => {
+                                        setLeavingRoomId(room.chatRoomId);
+                                        setOpenMenuId(null);
+                                    }}
+                                    onAddToCalendar={() => {
+                                        setOpenMenuId(null);
+                                        downloadMeetingIcs(room, festival);
+                                    }}
+                                    onShare={() => {
+                                        setOpenMenuId(null);
+                                        setSharingRoomId(room.chatRoomId);
+                                    }}
+                                    onEnter={() => navigate(`/chat/${room.chatRoomId}`)} // 참여한 채팅방만 이동 가능
+                                    onToggleApply={() => handleToggleApply(room.chatRoomId)}
+                                />
+                            </div>
+                        );
+                    })}
+                </div>
+            ) : (
+                <div className="text-center py-8">
+                    <p className="text-gray-500">{emptyMessage}</p>
+                </div>
+            )}
+
+            {/* 인원관리 팝업창 */}
+            {managingRoom && (
+                <ManageMembersPopup
+                    room={managingRoom}
+                    onDelegate={(memberId) => setDelegateTarget({ chatRoomId: managingRoom.chatRoomId, memberId })}
+                    onKick={(memberId) => setKickTarget({ chatRoomId: managingRoom.chatRoomId, memberId })}
+                    onApprove={(memberId) => actions.approve(managingRoom.chatRoomId, memberId)}
+                    onRefuse={(memberId) => actions.refuse(managingRoom.chatRoomId, memberId)}
+                    onClose={() => setManagingRoomId(null)}
+                />
+            )}
+
+            {/* 수정하기 팝업 */}
+            {editingRoom && (
+                <RoomFormPopup
+                    title="채팅방 수정"
+                    initialForm={{
+                        roomTitle: editingRoom.roomTitle,
+                        roomContent: editingRoom.roomContent,
+                        roomMemberLimit: Number(editingRoom.roomMemberLimit),
+                    }}
+                    onSubmit={(form) => handleSaveEdit(editingRoom.chatRoomId, form)}
+                    onClose={() => setEditingRoomId(null)}
+                />
+            )}
+
+            {/* 나가기 최종확인 팝업창 */}
+            {leavingRoomId && (
+                <ConfirmPopup
+                    message="정말 모임을 떠나시겠어요?"
+                    confirmLabel="나가기"
+                    danger
+                    onConfirm={() => confirmLeave(leavingRoomId)}
+                    onCancel={() => setLeavingRoomId(null)}
+                />
+            )}
+
+            {/* 위임하기 최종확인 팝업창 */}
+            {delegateTarget && (
+                <ConfirmPopup
+                    message={<><span className="text-primary">{getNicknameById(delegateTarget)}</span>님에게 방장권한을 위임하시겠어요?</>}
+                    confirmLabel="위임하기"
+                    onConfirm={() => confirmDelegate(delegateTarget)}
+                    onCancel={() => setDelegateTarget(null)}
+                />
+            )}
+
+            {/* 모임 공유하기 */}
+            {sharingRoom && (
+                <ShareSheet
+                    content={meetingShareContent(sharingRoom, festival)}
+                    onClose={() => setSharingRoomId(null)}
+                />
+            )}
+
+            {/* 강퇴하기 최종확인 팝업창 */}
+            {kickTarget && (
+                <ConfirmPopup
+                    message={<><span className="text-primary">{getNicknameById(kickTarget)}</span>님을 강퇴하시겠어요?</>}
+                    confirmLabel="강퇴하기"
+                    onConfirm={() => confirmKick(kickTarget)}
+                    onCancel={() => setKickTarget(null)}
+                />
+            )}
+        </>
+    );
+};
+
+export default MeetingRoomList;
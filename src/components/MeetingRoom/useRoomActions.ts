@@ -0,0 +1,75 @@
+// src/components/MeetingRoom/useRoomActions.ts
+import { chatRoomsApi } from '../../api';
+import { ChatRoomForm } from '../../types/ChatRoom';
+import useRoomMembership from './useRoomMembership';
+
+// 모임 참여/관리 요청 - 성공하면 목록(onRoomsChanged)과 세션의 참여 목록을 다시 불러온다
+const useRoomActions = (onRoomsChanged: () => void | Promise<unknown>) => {
+    const { refreshMembership } = useRoomMembership();
+
+    // 참여 신청 / 신청 취소
+    const toggleApply = async (chatRoomId: string, isWaiting: boolean) => {
+        try {
+            if (isWaiting) {
+                await chatRoomsApi.cancelApply(chatRoomId);
+            } else {
+                await chatRoomsApi.apply(chatRoomId);
+            }
+            await refreshMembership();
+        } catch (error) {
+            console.error("Error toggling chat room participation:", error);
+        }
+    };
+
+    const update = async (chatRoomId: string, form: ChatRoomForm) => {
+        try {
+            await chatRoomsApi.update(chatRoomId, form);
+            await onRoomsChanged();
+            return true;
+        } catch (error) {
+            console.error("채팅방 수정 실패:", error);
+            alert("수정에 실패했습니다.");
+            return false;
+        }
+    };
+
+    const leave = async (chatRoomId: string) => {
+        try {
+            await chatRoomsApi.leave(chatRoomId);
+            await refreshMembership();
+            await onRoomsChanged();
+        } catch (error) {
+            console.error("나가기 요청 실패:", error);
+            alert("나가기에 실패했습니다.");
+        }
+    };
+
+    // 방장 관리 요청 (위임/강퇴/승인/거절) 공통 처리
+    const manage = (
+        request: (chatRoomId: string, memberId: string) => Promise<void>,
+        label: string
+    ) => async (chatRoomId: string, memberId: string) => {
+        if (!chatRoomId || !memberId) return false;
+        try {
+            await request(chatRoomId, memberId);
+            await onRoomsChanged();
+            return true;
+        } catch (error) {
+            console.error(`${label} 요청 실패:`, error);
+            alert(`${label}에 실패했습니다.`);
+            return false;
+        }
+    };
+
+    return {
+        toggleApply,
+        update,
+        leave,
+        delegate: manage(chatRoomsApi.delegate, "위임"),
+        kick: manage(chatRoomsApi.kick, "강퇴"),
+        approve: manage(chatRoomsApi.approve, "승인"),
+        refuse: manage(chatRoomsApi.refuse, "거절"),
+    };
+};
+
+export default useRoomActions;
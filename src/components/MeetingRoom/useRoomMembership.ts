@@ -0,0 +1,21 @@
+// src/components/MeetingRoom/useRoomMembership.ts
+import { ChatRoom } from '../../types/ChatRoom';
+import useSession from '../../hooks/useSession';
+
+// 로그인한 회원의 모임 참여/대기 상태 (세션의 joinRoomIdList, waitRoomIdList 기준)
+const useRoomMembership = () => {
+    const { currentUser, refresh } = useSession();
+
+    const isJoined = (chatRoomId: number | string) =>
+        currentUser?.joinRoomIdList.includes(String(chatRoomId)) ?? false;
+
+    const isWaiting = (chatRoomId: number | string) =>
+        currentUser?.waitRoomIdList.includes(String(chatRoomId)) ?? false;
+
+    const isOwner = (room: ChatRoom) =>
+        currentUser !== null && String(room.memberId) === String(currentUser.id);
+
+    return { currentUser, isJoined, isWaiting, isOwner, refreshMembership: refresh };
+};
+
+export default useRoomMembership;
@@ -0,0 +1,37 @@
+// src/components/MentionSuggestions.tsx
+import { MentionCandidate } from '../utils/mentions';
+
+interface MentionSuggestionsProps {
+    suggestions: MentionCandidate[];
+    activeIndex: number;
+    onSelect: (candidate: MentionCandidate) => void;
+    onHover: (index: number) => void;
+}
+
+// @ 입력 시 입력창 위에 뜨는 멘션 후보 목록
+const MentionSuggestions = ({ suggestions, activeIndex, onSelect, onHover }: MentionSuggestionsProps) => {
+    if (suggestions.length === 0) return null;
+
+    return (
+        <ul
+            role="listbox"
+            className="absolute left-0 bottom-full mb-1 w-48 bg-white border border-gray-200 rounded-lg shadow-lg z-30 overflow-hidden py-1"
+        >
+            {suggestions.map((candidate, index) => (
+                <li
+                    key={candidate.nickname}
+                    role="option"
+                    aria-selected={index === activeIndex}
+                    onMouseDown={(e) => e.preventDefault()} // 입력창 포커스 유지
+                    onMouseEnter={() => onHover(index)}
+                    onClick={() => onSelect(candidate)}
+                    className={`px-3 py-2 text-sm cursor-pointer truncate ${index === activeIndex ? 'bg-gray-100' : ''}`}
+                >
+                    @{candidate.nickname}
+                </li>
+            ))}
+        </ul>
+    );
+};
+
+export default MentionSuggestions;
@@ -0,0 +1,27 @@
+// src/components/MentionText.tsx
+import { MentionCandidate, splitMentions } from '../utils/mentions';
+import UserProfile from './UserProfile';
+
+interface MentionTextProps {
+    text: string;
+    candidates: MentionCandidate[];
+    mentionClassName?: string; // 말풍선 배경 등에 맞춘 멘션 스타일
+}
+
+// 본문의 @닉네임 을 프로필 링크로 표시 (회원 정보를 모르는 멘션은 강조만)
+const MentionText = ({ text, candidates, mentionClassName = 'text-primary font-medium' }: MentionTextProps) => (
+    <>
+        {splitMentions(text, candidates).map((part, index) => {
+            if (typeof part === 'string') return part;
+            const label = <span className={mentionClassName}>@{part.nickname}</span>;
+            if (!part.memberId && !part.email) return <span key={index}>{label}</span>;
+            return (
+                <UserProfile key={index} userId={part.memberId} email={part.email}>
+                    {label}
+                </UserProfile>
+            );
+        })}
+    </>
+);
+
+export default MentionText;
@@ -0,0 +1,48 @@
+// src/components/RequireAuth.tsx
+import { ReactNode } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import useSession from '../hooks/useSession';
+import { CurrentUser } from '../types/Member';
+
+interface RequireAuthProps {
+    roles?: string[]; // 지정하면 해당 권한을 가진 회원만 접근 가능
+    children: ReactNode | ((currentUser: CurrentUser) => ReactNode);
+}
+
+// 로그인한 회원만 접근 가능한 라우트 (로그인 후 원래 페이지로 돌아오도록 from 전달)
+const RequireAuth = ({ roles, children }: RequireAuthProps) => {
+    const { currentUser, isChecking } = useSession();
+    const location = useLocation();
+
+    // 서버에서 로그인 상태를 확인하기 전에는 localStorage 정보만으로 판단하지 않는다
+    if (isChecking) {
+        return <p className="text-center text-gray-500 mt-4">Loading...</p>;
+    }
+
+    if (!currentUser) {
+        return <Navigate to="/login" replace state={{ from: location }} />;
+    }
+
+    if (roles && !roles.includes(currentUser.role)) {
+        return (
+            <div className="min-h-screen flex items-center justify-center bg-gray-100">
+                <div className="bg-white p-8 rounded-lg shadow-md text-center">
+                    <h2 className="text-2xl font-bold text-gray-900 mb-2">접근 권한 없음</h2>
+                    <p className="text-gray-600 mb-4">
+                        {roles.includes('ROLE_ADMIN') ? '관리자만 접근할 수 있는 페이지입니다.' : '접근할 수 없는 페이지입니다.'}
+                    </p>
+                    <button
+                        onClick={() => window.history.back()}
+                        className="bg-blue-500 text-white px-4 py-2 rounded hover:bg-blue-600"
+                    >
+                        이전 페이지로 돌아가기
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    return <>{typeof children === 'function' ? children(currentUser) : children}</>;
+};
+
+export default RequireAuth;
@@ -0,0 +1,87 @@
+// src/components/ScrollRestoration.tsx
+import { useEffect, useLayoutEffect } from 'react';
+import { useLocation, useNavigationType } from 'react-router-dom';
+
+const STORAGE_KEY = 'scrollPositions';
+const RESTORE_TIMEOUT = 1000; // 목록이 그려질 때까지 위치 복원을 다시 시도하는 시간 (ms)
+
+// 방문 기록(location.key)별 스크롤 위치 - 새로고침 후 뒤로 가기에도 쓰도록 sessionStorage 에 저장
+const loadPositions = (): Map<string, number> => {
+    try {
+        return new Map(JSON.parse(sessionStorage.getItem(STORAGE_KEY) ?? '[]'));
+    } catch (error) {
+        console.error('스크롤 위치 파싱 에러:', error);
+        return new Map();
+    }
+};
+
+const positions = loadPositions();
+
+// 뒤로/앞으로 가기로 돌아오면 떠날 때의 스크롤 위치로, 새 페이지로 이동하면 맨 위로
+// 목록은 캐시(useQuery/useInfiniteList)에서 바로 그려지므로 돌아온 직후 위치를 맞출 수 있다
+const ScrollRestoration = () => {
+    const location = useLocation();
+    const navigationType = useNavigationType();
+
+    useEffect(() => {
+        const previous = window.history.scrollRestoration;
+        window.history.scrollRestoration = 'manual';
+
+        const persist = () => sessionStorage.setItem(STORAGE_KEY, JSON.stringify([...positions]));
+        window.addEventListener('pagehide', persist);
+        return () => {
+            window.history.scrollRestoration = previous;
+            window.removeEventListener('pagehide', persist);
+        };
+    }, []);
+
+    // 현재 방문 기록의 스크롤 위치 저장 (페이지를 떠난 뒤에는 새 페이지 높이로 바뀌므로 스크롤할 때마다 저장)
+    useEffect(() => {
+        let frame = 0;
+        const handleScroll = () => {
+            cancelAnimationFrame(frame);
+            frame = requestAnimationFrame(() => positions.set(location.key, window.scrollY));
+        };
+        window.addEventListener('scroll', handleScroll, { passive: true });
+        return () => {
+            cancelAnimationFrame(frame);
+            window.removeEventListener('scroll', handleScroll);
+        };
+    }, [location.key]);
+
+    useLayoutEffect(() => {
+        // 검색 조건 변경처럼 기록을 바꿔치기한 경우는 그대로 둔다
+        if (navigationType === 'REPLACE') return;
+        if (navigationType === 'PUSH') {
+            window.scrollTo(0, 0);
+            return;
+        }
+
+        const target = positions.get(location.key) ?? 0;
+        const startedAt = performance.now();
+        let frame = 0;
+        // 아직 목록이 덜 그려져 끝까지 내려가지 못했으면 다음 프레임에 다시 시도 (사용자가 스크롤하면 중단)
+        const restore = () => {
+            window.scrollTo(0, target);
+            if (Math.abs(window.scrollY - target) > 1 && performance.now() - startedAt < RESTORE_TIMEOUT) {
+                frame = requestAnimationFrame(restore);
+            }
+        };
+        const stop = () => cancelAnimationFrame(frame);
+
+        restore();
+        window.addEventListener('wheel', stop, { passive: true });
+        window.addEventListener('touchstart', stop, { passive: true });
+        window.addEventListener('keydown', stop);
+        return () => {
+            stop();
+            window.removeEventListener('wheel', stop);
+            window.removeEventListener('touchstart', stop);
+            window.removeEventListener('keydown', stop);
+        };
+    }, [location.key, navigationType]);
+
+    return null;
+};
+
+export default ScrollRestoration;
@@ -0,0 +1,102 @@
+// src/components/SearchBar/SuggestionList.tsx
+import { SuggestionType } from './useSearchSuggestions';
+
+export interface DropdownItem {
+    type: SuggestionType | 'recent';
+    label: string;
+}
+
+interface SuggestionListProps {
+    id: string; // input 의 aria-controls 대상
+    getOptionId: (index: number) => string; // input 의 aria-activedescendant 와 같은 id
+    items: DropdownItem[];
+    keyword: string;
+    activeIndex: number;
+    onSelect: (item: DropdownItem) => void;
+    onHover: (index: number) => void;
+    onRemoveRecent: (label: string) => void;
+    onClearRecent: () => void;
+}
+
+const TYPE_LABELS: { [type in SuggestionType]: string } = {
+    festival: '축제',
+    area: '지역',
+    room: '모임',
+};
+
+// 입력한 부분 강조
+const highlight = (label: string, keyword: string) => {
+    const trimmed = keyword.trim();
+    const index = trimmed ? label.toLowerCase().indexOf(trimmed.toLowerCase()) : -1;
+    if (index < 0) return label;
+    return (
+        <>
+            {label.slice(0, index)}
+            <span className="text-primary font-medium">{label.slice(index, index + trimmed.length)}</span>
+            {label.slice(index + trimmed.length)}
+        </>
+    );
+};
+
+// 검색창 아래 추천 검색어 / 최근 검색어 목록
+const SuggestionList = ({ id, getOptionId, items, keyword, activeIndex, onSelect, onHover, onRemoveRecent, onClearRecent }: SuggestionListProps) => {
+    const isRecent = items[0]?.type === 'recent';
+
+    return (
+        <div className="absolute top-full left-0 right-0 mt-1 bg-white border border-gray-200 rounded-lg shadow-lg z-30 overflow-hidden">
+            {isRecent && (
+                <div className="flex items-center justify-between px-4 pt-3 pb-1 text-xs text-gray-500">
+                    <span>최근 검색어</span>
+                    <button
+                        type="button"
+                        onMouseDown={(e) => e.preventDefault()} // 입력창 포커스 유지
+                        onClick={onClearRecent}
+                        className="hover:text-primary"
+                    >
+                        전체 삭제
+                    </button>
+                </div>
+            )}
+            <ul id={id} role="listbox" className="max-h-72 overflow-y-auto py-1">
+                {items.map((item, index) => (
+                    <li
+                        key={`${item.type}-${item.label}`}
+                        id={getOptionId(index)}
+                        role="option"
+                        aria-selected={index === activeIndex}
+                        onMouseDown={(e) => e.preventDefault()}
+                        onMouseEnter={() => onHover(index)}
+                        onClick={() => onSelect(item)}
+                        className={`flex items-center gap-2 px-4 py-2 text-sm cursor-pointer ${index === activeIndex ? 'bg-gray-100' : ''}`}
+                    >
+                        {item.type === 'recent' ? (
+                            <>
+                                <span className="flex-1 truncate">{item.label}</span>
+                                <button
+                                    type="button"
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        onRemoveRecent(item.label);
+                                    }}
+                                    className="text-gray-400 hover:text-gray-600"
+                                    aria-label={`${item.label} 삭제`}
+                                >
+                                    ✕
+                                </button>
+                            </>
+                        ) : (
+                            <>
+                                <span className="text-xs px-2 py-0.5 rounded-full bg-[#FFF4F1] text-[#FF6B36] flex-shrink-0">
+                                    {TYPE_LABELS[item.type]}
+                                </span>
+                                <span className="flex-1 truncate">{highlight(item.label, keyword)}</span>
+                            </>
+                        )}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export default SuggestionList;
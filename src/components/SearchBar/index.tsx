@@ -0,0 +1,213 @@
+import { KeyboardEvent, useCallback, useId, useRef, useState } from 'react';
+import useOnClickOutside from '../../hooks/useOnClickOutside';
+import SuggestionList, { DropdownItem } from './SuggestionList';
+import useRecentSearches from './useRecentSearches';
+import useSearchSuggestions, { SuggestionType } from './useSearchSuggestions';
+
+export type SearchType = '축제명+지역' | '축제명' | '지역';
+
+interface SearchBarProps {
+    placeholder: string;
+    onChange: (keyword: string, searchType?: string) => void;
+    showSearchType?: boolean;
+    initialKeyword?: string; // URL 등에 저장된 검색 조건으로 시작할 때
+    initialSearchType?: SearchType;
+    suggestionTypes?: SuggestionType[]; // 입력 중 추천할 항목 (없으면 추천 안 함)
+    historyKey?: string; // 최근 검색어 저장 구분 (없으면 저장 안 함)
+}
+
+// 추천 항목을 고르면 검색 조건도 그 항목에 맞춘다
+const SEARCH_TYPE_BY_SUGGESTION: { [type in SuggestionType]?: SearchType } = {
+    festival: '축제명',
+    area: '지역',
+};
+
+const SearchBar = ({
+    placeholder,
+    onChange,
+    showSearchType = false,
+    initialKeyword = '',
+    initialSearchType = '축제명+지역',
+    suggestionTypes = [],
+    historyKey,
+}: SearchBarProps) => {
+    const [keyword, setKeyword] = useState(initialKeyword);
+    const [isDropdownOpen, setIsDropdownOpen] = useState(false);
+    const [selectedSearchType, setSelectedSearchType] = useState<SearchType>(initialSearchType);
+    const [isSuggestionOpen, setIsSuggestionOpen] = useState(false);
+    const [activeIndex, setActiveIndex] = useState(-1); // 키보드로 고른 항목 (-1 이면 없음)
+    const inputWrapperRef = useRef<HTMLDivElement>(null);
+    const listId = useId();
+    const suggestions = useSearchSuggestions(keyword, suggestionTypes);
+    const recent = useRecentSearches(historyKey);
+
+    // 검색어가 없으면 최근 검색어, 있으면 추천 검색어
+    const items: DropdownItem[] = keyword.trim()
+        ? suggestions
+        : recent.recentSearches.map((label) => ({ type: 'recent', label }));
+    const showSuggestions = isSuggestionOpen && items.length > 0;
+    const getOptionId = (index: number) => `${listId}-option-${index}`;
+
+    const closeSuggestions = useCallback(() => {
+        setIsSuggestionOpen(false);
+        setActiveIndex(-1);
+    }, []);
+
+    useOnClickOutside(inputWrapperRef, closeSuggestions);
+
+    const searchTypes: SearchType[] = ['축제명+지역', '축제명', '지역'];
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const newKeyword = e.target.value;
+        setKeyword(newKeyword);
+        setIsSuggestionOpen(true);
+        setActiveIndex(-1);
+        onChange(newKeyword, showSearchType ? selectedSearchType : undefined);
+    };
+
+    const handleSelect = (item: DropdownItem) => {
+        const nextSearchType = (item.type !== 'recent' && SEARCH_TYPE_BY_SUGGESTION[item.type]) || selectedSearchType;
+        setKeyword(item.label);
+        setSelectedSearchType(nextSearchType);
+        recent.add(item.label);
+        closeSuggestions();
+        onChange(item.label, showSearchType ? nextSearchType : undefined);
+    };
+
+    // ↑/↓ 로 항목 이동, Enter 로 선택, Esc 로 닫기
+    const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+        if (e.nativeEvent.isComposing) return; // 한글 조합 중 Enter 는 무시
+        switch (e.key) {
+            case 'ArrowDown':
+            case 'ArrowUp': {
+                if (items.length === 0) return;
+                e.preventDefault();
+                setIsSuggestionOpen(true);
+                // 끝에서 한 번 더 움직이면 입력창(-1)으로, 다시 움직이면 반대쪽 끝으로
+                const next = activeIndex + (e.key === 'ArrowDown' ? 1 : -1);
+                setActiveIndex(next >= items.length ? -1 : next < -1 ? items.length - 1 : next);
+                break;
+            }
+            case 'Enter':
+                if (showSuggestions && activeIndex >= 0 && items[activeIndex]) {
+                    e.preventDefault();
+                    handleSelect(items[activeIndex]);
+                }
+                break;
+            case 'Escape':
+                closeSuggestions();
+                break;
+        }
+    };
+
+    const handleSearchTypeSelect = (type: SearchType) => {
+        setSelectedSearchType(type);
+        setIsDropdownOpen(false);
+        onChange(keyword, type);
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        recent.add(keyword);
+        closeSuggestions();
+    };
+
+    return (
+        <div className="fixed top-16 left-0 right-0 bg-white z-20 shadow-sm">
+            <div className="max-w-[600px] lg:max-w-screen-lg mx-auto px-2 py-2">
+                <form onSubmit={handleSubmit} className="relative flex items-center gap-2">
+                    {/* 검색 조건 드롭다운 - Festival 페이지에서만 표시 */}
+                    {showSearchType && (
+                        <div className="relative w-36">
+                            <button
+                                type="button"
+                                onClick={() => setIsDropdownOpen(!isDropdownOpen)}
+                                className="w-36 h-12 px-4 rounded-lg border border-gray-200 bg-white hover:bg-gray-50 flex items-center justify-between"
+                            >
+                                <span className="text-sm">{selectedSearchType}</span>
+                                <svg
+                                    className={`w-4 h-4 transition-transform ${isDropdownOpen ? 'rotate-180' : ''}`}
+                                    fill="none"
+                                    stroke="currentColor"
+                                    viewBox="0 0 24 24"
+                                >
+                                    <path
+                                        strokeLinecap="round"
+                                        strokeLinejoin="round"
+                                        strokeWidth={2}
+                                        d="M19 9l-7 7-7-7"
+                                    />
+                                </svg>
+                            </button>
+
+                            {isDropdownOpen && (
+                                <div className="absolute top-full left-0 mt-1 w-28 bg-white border border-gray-200 rounded-lg shadow-lg z-30">
+                                    {searchTypes.map((type) => (
+                                        <button
+                                            key={type}
+                                            type="button"
+                                            onClick={() => handleSearchTypeSelect(type)}
+                                            className="w-full px-4 py-2 text-left text-sm hover:bg-gray-50 first:rounded-t-lg last:rounded-b-lg"
+                                        >
+                                            {type}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    {/* 검색창 */}
+                    <div ref={inputWrapperRef} className={`relative ${showSearchType ? 'flex-1' : 'w-full'}`}>
+                        <input
+                            type="text"
+                            value={keyword}
+                            onChange={handleChange}
+                            onFocus={() => setIsSuggestionOpen(true)}
+                            onKeyDown={handleKeyDown}
+                            placeholder={placeholder}
+                            className="w-full h-12 pl-12 pr-4 rounded-full border border-gray-200 focus:outline-none focus:border-primary"
+                            role="combobox"
+                            aria-autocomplete="list"
+                            aria-expanded={showSuggestions}
+                            aria-controls={listId}
+                            aria-activedescendant={showSuggestions && activeIndex >= 0 ? getOptionId(activeIndex) : undefined}
+                        />
+                        <button type="submit" className="absolute left-4 top-1/2 -translate-y-1/2">
+                            <svg
+                                className="w-5 h-5 text-gray-400"
+                                fill="none"
+                                stroke="currentColor"
+                                viewBox="0 0 24 24"
+                            >
+                                <path
+                                    strokeLinecap="round"
+                                    strokeLinejoin="round"
+                                    strokeWidth={2}
+                                    d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
+                                />
+                            </svg>
+                        </button>
+
+                        {/* 추천 검색어 / 최근 검색어 */}
+                        {showSuggestions && (
+                            <SuggestionList
+                                id={listId}
+                                getOptionId={getOptionId}
+                                items={items}
+                                keyword={keyword}
+                                activeIndex={activeIndex}
+                                onSelect={handleSelect}
+                                onHover={setActiveIndex}
+                                onRemoveRecent={recent.remove}
+                                onClearRecent={recent.clear}
+                            />
+                        )}
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+export default SearchBar;
\ No newline at end of file
@@ -0,0 +1,57 @@
+// src/components/SearchBar/useRecentSearches.ts
+import { useCallback, useEffect, useState } from 'react';
+import useCurrentUser from '../../hooks/useCurrentUser';
+
+const MAX_RECENT_SEARCHES = 10;
+
+// 회원별 + 검색창별로 따로 저장 (비로그인은 guest)
+const storageKey = (memberId: number | undefined, scope: string) => `recentSearches:${memberId ?? 'guest'}:${scope}`;
+
+const loadRecentSearches = (key: string): string[] => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(key) ?? '[]');
+        return Array.isArray(stored) ? stored.filter((item) => typeof item === 'string') : [];
+    } catch (error) {
+        console.error('최근 검색어 파싱 에러:', error);
+        return [];
+    }
+};
+
+// 최근 검색어 (최신순) - scope 가 없으면 저장하지 않는다
+const useRecentSearches = (scope?: string) => {
+    const memberId = useCurrentUser()?.id;
+    const key = scope ? storageKey(memberId, scope) : null;
+    const [recentSearches, setRecentSearches] = useState<string[]>(() => (key ? loadRecentSearches(key) : []));
+
+    // 로그인 회원이 바뀌면 그 회원의 기록으로
+    useEffect(() => {
+        setRecentSearches(key ? loadRecentSearches(key) : []);
+    }, [key]);
+
+    const save = useCallback((next: string[]) => {
+        if (!key) return;
+        setRecentSearches(next);
+        if (next.length > 0) {
+            localStorage.setItem(key, JSON.stringify(next));
+        } else {
+            localStorage.removeItem(key);
+        }
+    }, [key]);
+
+    const add = useCallback((keyword: string) => {
+        const trimmed = keyword.trim();
+        if (!trimmed || !key) return;
+        save([trimmed, ...loadRecentSearches(key).filter((item) => item !== trimmed)].slice(0, MAX_RECENT_SEARCHES));
+    }, [key, save]);
+
+    const remove = useCallback((keyword: string) => {
+        if (!key) return;
+        save(loadRecentSearches(key).filter((item) => item !== keyword));
+    }, [key, save]);
+
+    const clear = useCallback(() => save([]), [save]);
+
+    return { recentSearches, add, remove, clear };
+};
+
+export default useRecentSearches;
@@ -0,0 +1,72 @@
+// src/components/SearchBar/useSearchSuggestions.ts
+import { useEffect, useState } from 'react';
+import { chatRoomsApi, FESTIVAL_AREAS, isCanceledError, postsApi } from '../../api';
+
+export type SuggestionType = 'festival' | 'area' | 'room';
+
+export interface Suggestion {
+    type: SuggestionType;
+    label: string;
+}
+
+const SUGGESTION_DELAY = 150; // 입력이 멈춘 뒤 조회
+const MAX_PER_TYPE = 5;
+
+const unique = (labels: string[]) => [...new Set(labels)].slice(0, MAX_PER_TYPE);
+
+const fetchSuggestions = async (keyword: string, type: SuggestionType, signal: AbortSignal): Promise<Suggestion[]> => {
+    let labels: string[];
+    switch (type) {
+        case 'festival':
+            labels = (await postsApi.search(keyword, 0, MAX_PER_TYPE * 2, signal)).content.map((festival) => festival.festivalName);
+            break;
+        case 'area':
+            labels = FESTIVAL_AREAS.filter((area) => area.includes(keyword));
+            break;
+        case 'room':
+            labels = (await chatRoomsApi.search(keyword, 0, MAX_PER_TYPE * 2, signal)).content.map((room) => room.roomTitle);
+            break;
+    }
+    return unique(labels).map((label) => ({ type, label }));
+};
+
+// 입력 중인 검색어로 축제명 / 지역 / 모임 제목 추천
+// 새 검색어가 들어오면 이전 요청은 취소해서 늦게 도착한 응답이 최신 결과를 덮어쓰지 않게 한다
+const useSearchSuggestions = (keyword: string, types: SuggestionType[]) => {
+    const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+    const typesKey = types.join(','); // 매 렌더마다 새 배열이 와도 다시 조회하지 않도록
+
+    useEffect(() => {
+        const trimmed = keyword.trim();
+        const suggestionTypes = typesKey ? typesKey.split(',') as SuggestionType[] : [];
+        if (!trimmed || suggestionTypes.length === 0) {
+            setSuggestions([]);
+            return;
+        }
+
+        const controller = new AbortController();
+        const timer = setTimeout(async () => {
+            // 한 종류가 실패해도 나머지 추천은 보여준다
+            const results = await Promise.allSettled(
+                suggestionTypes.map((type) => fetchSuggestions(trimmed, type, controller.signal))
+            );
+            if (controller.signal.aborted) return;
+
+            results.forEach((result) => {
+                if (result.status === 'rejected' && !isCanceledError(result.reason)) {
+                    console.error('검색어 추천 조회 실패:', result.reason);
+                }
+            });
+            setSuggestions(results.flatMap((result) => (result.status === 'fulfilled' ? result.value : [])));
+        }, SUGGESTION_DELAY);
+
+        return () => {
+            clearTimeout(timer);
+            controller.abort();
+        };
+    }, [keyword, typesKey]);
+
+    return suggestions;
+};
+
+export default useSearchSuggestions;
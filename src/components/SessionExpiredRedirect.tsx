@@ -0,0 +1,25 @@
+// src/components/SessionExpiredRedirect.tsx
+import { useEffect } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { setSessionExpiredHandler } from '../api';
+import useSession from '../hooks/useSession';
+
+// 토큰 재발급에 실패하면 로그인 페이지로 이동 (로그인 후 원래 페이지로 돌아오도록 from 전달)
+const SessionExpiredRedirect = () => {
+    const navigate = useNavigate();
+    const location = useLocation();
+    const { clear } = useSession();
+
+    useEffect(() => {
+        setSessionExpiredHandler(() => {
+            clear();
+            alert('로그인이 만료되었습니다. 다시 로그인해주세요.');
+            navigate('/login', { replace: true, state: { from: location } });
+        });
+        return () => setSessionExpiredHandler(null);
+    }, [navigate, location, clear]);
+
+    return null;
+};
+
+export default SessionExpiredRedirect;
@@ -0,0 +1,98 @@
+// src/components/ShareSheet.tsx
+import { Link2, MessageCircle, Share2, X } from 'lucide-react';
+import {
+    canShareToKakao,
+    canUseWebShare,
+    copyToClipboard,
+    shareToKakao,
+    shareWithDevice,
+    ShareContent,
+} from '../utils/share';
+
+interface ShareSheetProps {
+    content: ShareContent;
+    onClose: () => void;
+}
+
+// 공유하기 시트 - 링크 복사 / 기기 공유(지원 시) / 카카오톡(앱 키가 있을 때)
+const ShareSheet = ({ content, onClose }: ShareSheetProps) => {
+    const handleCopy = async () => {
+        try {
+            await copyToClipboard(content.url);
+            alert('링크가 복사되었습니다.');
+            onClose();
+        } catch (error) {
+            console.error('링크 복사 실패:', error);
+            alert('링크를 복사하지 못했습니다.');
+        }
+    };
+
+    const handleDeviceShare = async () => {
+        try {
+            await shareWithDevice(content);
+            onClose();
+        } catch (error) {
+            console.error('공유 실패:', error);
+            alert('공유하지 못했습니다.');
+        }
+    };
+
+    const handleKakaoShare = async () => {
+        try {
+            await shareToKakao(content);
+            onClose();
+        } catch (error) {
+            console.error('카카오톡 공유 실패:', error);
+            alert('카카오톡으로 공유하지 못했습니다.');
+        }
+    };
+
+    const options = [
+        { label: '링크 복사', icon: Link2, onClick: handleCopy, visible: true },
+        { label: '카카오톡', icon: MessageCircle, onClick: handleKakaoShare, visible: canShareToKakao() },
+        { label: '더보기', icon: Share2, onClick: handleDeviceShare, visible: canUseWebShare() },
+    ].filter((option) => option.visible);
+
+    return (
+        <div
+            className="fixed inset-0 bg-gray-500 bg-opacity-50 flex justify-center items-end sm:items-center z-40"
+            onClick={onClose}
+        >
+            <div
+                className="bg-white w-full max-w-[600px] sm:w-80 rounded-t-2xl sm:rounded-lg shadow-md p-6"
+                onClick={(e) => e.stopPropagation()}
+                role="dialog"
+                aria-label="공유하기"
+            >
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-lg font-semibold">공유하기</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="닫기">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                {/* 공유될 내용 미리보기 */}
+                <div className="flex gap-3 p-3 mb-5 rounded-lg bg-gray-50">
+                    <img src={content.imageUrl} alt="" className="w-14 h-14 rounded-md object-cover bg-gray-200 flex-shrink-0" />
+                    <div className="min-w-0">
+                        <p className="text-sm font-medium truncate">{content.title}</p>
+                        <p className="text-xs text-gray-500 mt-1 line-clamp-2">{content.description}</p>
+                    </div>
+                </div>
+
+                <div className="flex justify-around">
+                    {options.map(({ label, icon: Icon, onClick }) => (
+                        <button key={label} onClick={onClick} className="flex flex-col items-center gap-2 text-sm text-gray-700">
+                            <span className="w-12 h-12 rounded-full bg-[#FFF4F1] text-[#FF6B36] flex items-center justify-center">
+                                <Icon size={22} />
+                            </span>
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ShareSheet;
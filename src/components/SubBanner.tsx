@@ -1,14 +1,8 @@
 import { Swiper, SwiperSlide } from 'swiper/react';
 import { useNavigate } from "react-router-dom";
-
-interface Festival {
-    festivalId: string;
-    festivalName: string;
-    festivalUrl: string;
-    festivalArea: string;
-    festivalStartDate: string;
-    festivalEndDate: string;
-}
+import { Festival } from '../types/Festival';
+import FavoriteButton from './FavoriteButton';
+import { festivalPath } from '../utils/routes';
 
 interface EventBannerProps {
     title: string;
@@ -27,7 +21,7 @@ const SubBanner = ({ title, posts }: EventBannerProps) => {
                 {posts?.map((post) => (
                     <SwiperSlide
                         key={post.festivalId}
-                        onClick={() => navigate(`/detailposts?id=${encodeURIComponent(post.festivalId)}`)}
+                        onClick={() => navigate(festivalPath(post.festivalId))}
                     >
                         <div className="bg-white rounded-lg shadow-md overflow-hidden flex flex-col">
                             <div className="relative pb-[90%]">
@@ -36,6 +30,7 @@ const SubBanner = ({ title, posts }: EventBannerProps) => {
                                     alt={post.festivalName}
                                     className="absolute inset-0 w-full h-full object-cover bg-gray-200"
                                 />
+                                <FavoriteButton festival={post} className="absolute top-1 right-1" size={16} />
                             </div>
                             <div className="p-2">
                                 <h3 className="text-sm font-medium leading-tight truncate">
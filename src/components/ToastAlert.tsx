@@ -2,6 +2,7 @@ import { useEffect } from 'react';
 import { Bell } from 'lucide-react';
 import { Alert } from '../types/Alert';
 import { useNavigate } from 'react-router-dom';
+import { alertPath } from '../utils/routes';
 
 interface ToastAlertProps {
     alert: Alert;
@@ -20,32 +21,9 @@ export const ToastAlert = ({ alert, onClose }: ToastAlertProps) => {
         try {
             const navigationData = JSON.parse(alert.navigationData);
 
-            switch (alert.navigationType) {
-                case 'GROUP':
-                    if (navigationData.chatRoomId) {
-                        navigate(`/chat/${navigationData.chatRoomId}`);
-                    }
-                    break;
-                case 'BOARD':
-                    if (navigationData.boardId) {
-                        navigate(`/notice/${navigationData.boardId}`);
-                    }
-                    break;
-                case 'FESTIVAL':
-                    // 축제 관련 네비게이션을 위한 자리
-                    console.log('Festival navigation:', navigationData);
-                    break;
-                case 'COMMENT':
-                    // 댓글 관련 네비게이션을 위한 자리
-                    console.log('Comment navigation:', navigationData);
-                    break;
-                case 'NONE':
-                    // 네비게이션이 필요없는 알림을 위한 자리
-                    console.log('No navigation needed');
-                    break;
-                default:
-                    console.log('Unknown navigation type:', alert.navigationType);
-            }
+            // 댓글/메시지 알림(멘션 등)은 해당 댓글/메시지 위치까지 이동
+            const path = alertPath(alert.navigationType, navigationData);
+            if (path) navigate(path);
 
             onClose();  // 토스트 알림 닫기
         } catch (error) {
@@ -63,6 +41,7 @@ export const ToastAlert = ({ alert, onClose }: ToastAlertProps) => {
             '참여': 'text-blue-500',
             '위임': 'text-blue-500',
             '답글': 'text-blue-500',
+            '언급': 'text-blue-500',
             '변경': 'text-blue-500',
 
             // 빨간색 키워드
@@ -92,7 +71,7 @@ export const ToastAlert = ({ alert, onClose }: ToastAlertProps) => {
                                 </span>
                             ) : (
                                 <span className="text-sm font-bold tracking-wide">
-                                    {line.split(/(참가 신청|승인|참여|위임|답글|변경|거절|강퇴|취소|삭제|신고|차단|새로운 전체 공지사항|비밀번호)/).map((part, index) => {
+                                    {line.split(/(참가 신청|승인|참여|위임|답글|언급|변경|거절|강퇴|취소|삭제|신고|차단|새로운 전체 공지사항|비밀번호)/).map((part, index) => {
                                         if (!part) return null;
 
                                         const keyword = keywords[part as keyof typeof keywords];
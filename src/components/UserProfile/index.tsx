@@ -1,21 +1,17 @@
 // src/components/UserProfile/index.tsx
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useCallback, ReactNode } from 'react';
 import { MoreVertical, UserPlus, Flag } from 'lucide-react';
 import useOnClickOutside from '../../hooks/useOnClickOutside';
+import { friendsApi, getErrorMessage, membersApi, reportsApi } from '../../api';
+import { ProfileInfo } from '../../types/Member';
 
 interface UserProfileProps {
     userId?: number;
     email?: string;
+    children?: ReactNode; // 메뉴를 여는 내용 (멘션 등) - 없으면 ⋮ 아이콘
 }
 
-interface ProfileInfo {
-    memberId: number;
-    nickname: string;
-    profilePath: string;
-    isFriend: boolean;
-}
-
-const UserProfile = ({ userId, email }: UserProfileProps) => {
+const UserProfile = ({ userId, email, children }: UserProfileProps) => {
     const [isOpen, setIsOpen] = useState(false);
     const [reportContent, setReportContent] = useState('');
     const [showReportModal, setShowReportModal] = useState(false);
@@ -27,63 +23,38 @@ const UserProfile = ({ userId, email }: UserProfileProps) => {
     useOnClickOutside(modalRef, () => setShowReportModal(false));
 
 
-    useEffect(() => {
-        const fetchProfileInfo = async () => {
-            try {
-                let url = `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/members`;
-                let options: RequestInit = {
-                    credentials: 'include'
-                };
-
-                if (userId) {
-                    url += `/${userId}/profile-info`;
-                } else if (email) {
-                    url += `/email/profile-info`;
-                    options = {
-                        ...options,
-                        method: 'POST',
-                        headers: {
-                            'Content-Type': 'application/json'
-                        },
-                        body: JSON.stringify({ email })
-                    };
-                } else {
-                    return;
-                }
-
-                const response = await fetch(url, options);
-
-                if (response.ok) {
-                    const data = await response.json();
-                    setProfileInfo(data.data);
-                }
-            } catch (error) {
-                console.error('프로필 정보 조회 실패:', error);
+    const fetchProfileInfo = useCallback(async () => {
+        try {
+            if (userId) {
+                setProfileInfo(await membersApi.getProfileInfo(userId));
+            } else if (email) {
+                setProfileInfo(await membersApi.getProfileInfoByEmail(email));
             }
-        };
+        } catch (error) {
+            console.error('프로필 정보 조회 실패:', error);
+        }
+    }, [userId, email]);
 
+    // 아이콘은 프로필을 받은 뒤에 보여주고, 멘션처럼 내용이 있으면 처음 열 때 받아온다 (본문에 멘션이 많아도 요청이 몰리지 않도록)
+    const hasChildren = Boolean(children);
+    useEffect(() => {
+        if (hasChildren) return;
         fetchProfileInfo();
-    }, [userId, email]);
+    }, [hasChildren, fetchProfileInfo]);
+
+    const handleToggle = () => {
+        if (!isOpen && !profileInfo) fetchProfileInfo();
+        setIsOpen(!isOpen);
+    };
 
     const handleFriendRequest = async () => {
         if (!profileInfo) return;
 
         try {
-            const response = await fetch(`${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/friends/friend-requests`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                credentials: 'include',
-                body: JSON.stringify({ receiverId: profileInfo.memberId })
-            });
-
-            if (response.ok) {
-                alert('친구 신청이 전송되었습니다.');
-            } else {
-                const error = await response.json();
-                alert(error.msg || '친구 신청에 실패했습니다.');
-            }
+            await friendsApi.sendRequest(profileInfo.memberId);
+            alert('친구 신청이 전송되었습니다.');
         } catch (error) {
-            alert('서버 연결에 실패했습니다.');
+            alert(getErrorMessage(error, '친구 신청에 실패했습니다.'));
         }
         setIsOpen(false);
     };
@@ -102,26 +73,15 @@ const UserProfile = ({ userId, email }: UserProfileProps) => {
         }
 
         try {
-            const response = await fetch(`${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/reports`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                credentials: 'include',
-                body: JSON.stringify({
-                    reportedId: profileInfo.memberId,  // reportedId로 전달
-                    content: reportContent
-                })
+            await reportsApi.create({
+                reportedId: profileInfo.memberId,  // reportedId로 전달
+                content: reportContent
             });
-
-            if (response.ok) {
-                alert('신고가 접수되었습니다.');
-                setShowReportModal(false);
-                setReportContent('');
-            } else {
-                const error = await response.json();
-                alert(error.msg || '신고 접수에 실패했습니다.');
-            }
+            alert('신고가 접수되었습니다.');
+            setShowReportModal(false);
+            setReportContent('');
         } catch (error) {
-            alert('서버 연결에 실패했습니다.');
+            alert(getErrorMessage(error, '신고 접수에 실패했습니다.'));
         }
     };
 
@@ -134,9 +94,13 @@ const UserProfile = ({ userId, email }: UserProfileProps) => {
 
     return (
         <div className="relative inline-flex items-center gap-2">
-            {profileInfo && (
+            {children ? (
+                <button type="button" onClick={handleToggle} className="hover:underline">
+                    {children}
+                </button>
+            ) : profileInfo && (
                 <button
-                    onClick={() => setIsOpen(!isOpen)}
+                    onClick={handleToggle}
                     className="flex items-center text-gray-500 hover:text-primary hover:bg-gray-100 rounded p-1"
                 >
                     <MoreVertical className="w-4 h-4" />  {/* 아이콘만 표시 */}
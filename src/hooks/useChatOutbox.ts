@@ -0,0 +1,150 @@
+// src/hooks/useChatOutbox.ts
+import { RefObject, useCallback, useEffect, useRef, useState } from 'react';
+import { Client } from '@stomp/stompjs';
+import { ChatReplyPreview, OutgoingMessage, OutgoingStatus } from '../types/Chat';
+import { createClientId, loadOutbox, removeOutboxMessage, saveOutboxMessage } from '../utils/chatOutbox';
+
+const RECEIPT_TIMEOUT = 10 * 1000; // 이 시간 안에 서버 수신 확인(receipt)이 없으면 실패로 본다
+
+const logStorageError = (error: unknown) => console.error('보낼 메시지 보관 실패:', error);
+
+// 채팅 메시지 보내기 - STOMP 로 보내고 서버 수신 확인(receipt)을 기다린다
+// 보내는 중: 화면에 먼저 보여주고 보관함(IndexedDB)에 저장 / 수신 확인: 보관함에서 삭제 (에코가 오면 화면에서도 교체)
+// 연결이 끊겨 있으면 보관해 두었다가 다시 연결되면(flush) 보내고, 실패한 메시지는 재전송/삭제할 수 있다
+const useChatOutbox = (chatRoomId: string, clientRef: RefObject<Client | null>) => {
+    const [outgoing, setOutgoing] = useState<OutgoingMessage[]>([]);
+    const outgoingRef = useRef(outgoing);
+    const timersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+    const inFlightRef = useRef(new Set<string>()); // 보내고 수신 확인을 기다리는 clientId - 같은 메시지를 두 번 보내지 않는다
+
+    useEffect(() => {
+        outgoingRef.current = outgoing;
+    });
+
+    const setStatus = useCallback((clientId: string, status: OutgoingStatus) => {
+        const message = outgoingRef.current.find((item) => item.clientId === clientId);
+        if (!message) return; // 이미 에코를 받았거나 삭제한 메시지
+
+        // 수신 확인된 메시지는 보관할 필요 없음
+        if (status === 'sent') {
+            removeOutboxMessage(clientId).catch(logStorageError);
+        } else {
+            saveOutboxMessage({ ...message, status }).catch(logStorageError);
+        }
+        setOutgoing((prev) => prev.map((item) => (item.clientId === clientId ? { ...item, status } : item)));
+    }, []);
+
+    // 수신 확인 대기를 끝낸다 (수신 확인/시간 초과/에코/삭제)
+    const settle = useCallback((clientId: string) => {
+        clearTimeout(timersRef.current.get(clientId));
+        timersRef.current.delete(clientId);
+        inFlightRef.current.delete(clientId);
+    }, []);
+
+    const publish = useCallback((message: OutgoingMessage) => {
+        const client = clientRef.current;
+        if (!client?.connected) return; // 연결되면 flush 에서 보낸다
+        if (inFlightRef.current.has(message.clientId)) return;
+
+        const receiptId = `send-${message.clientId}`;
+        inFlightRef.current.add(message.clientId);
+        timersRef.current.set(message.clientId, setTimeout(() => {
+            settle(message.clientId);
+            setStatus(message.clientId, 'failed');
+        }, RECEIPT_TIMEOUT));
+
+        client.watchForReceipt(receiptId, () => {
+            settle(message.clientId);
+            setStatus(message.clientId, 'sent');
+        });
+        client.publish({
+            destination: `/app/chat/${message.chatRoomId}`,
+            headers: { receipt: receiptId },
+            body: JSON.stringify({
+                clientId: message.clientId,
+                content: message.content,
+                mentions: message.mentions,
+                replyToId: message.replyTo?.messageId,
+            }),
+        });
+    }, [clientRef, setStatus, settle]);
+
+    // (재)연결 시 / 보관함을 불러온 뒤 보내는 중인 메시지 전송 (수신 확인을 기다리는 메시지는 publish 에서 건너뛴다)
+    const flush = useCallback(() => {
+        outgoingRef.current.filter((message) => message.status === 'sending').forEach(publish);
+    }, [publish]);
+
+    // 채팅방에 들어오면 보관된 메시지를 불러온다 - 보내는 중이던 것은 연결되면 flush 에서 보낸다
+    useEffect(() => {
+        let cancelled = false;
+        outgoingRef.current = [];
+        setOutgoing([]);
+        loadOutbox(chatRoomId)
+            .then((saved) => {
+                if (cancelled) return;
+                // 불러오는 사이에 보낸 메시지는 뒤에 유지
+                const savedIds = new Set(saved.map((message) => message.clientId));
+                const merge = (current: OutgoingMessage[]) =>
+                    [...saved, ...current.filter((message) => !savedIds.has(message.clientId))];
+                // 연결 전이면 onConnect 의 flush 가 바로 볼 수 있도록 ref 도 함께 갱신
+                outgoingRef.current = merge(outgoingRef.current);
+                setOutgoing(merge);
+                // 이미 연결되어 onConnect 의 flush 가 지나갔으면 불러온 메시지도 flush 로 보낸다
+                if (clientRef.current?.connected) flush();
+            })
+            .catch(logStorageError);
+        return () => {
+            cancelled = true;
+        };
+    }, [chatRoomId, clientRef, flush]);
+
+    useEffect(() => {
+        const timers = timersRef.current;
+        const inFlight = inFlightRef.current;
+        return () => {
+            timers.forEach(clearTimeout);
+            timers.clear();
+            inFlight.clear();
+        };
+    }, []);
+
+    const send = (content: string, mentions: string[], replyTo?: ChatReplyPreview) => {
+        const message: OutgoingMessage = {
+            clientId: createClientId(),
+            chatRoomId,
+            content,
+            mentions,
+            replyTo,
+            createdAt: new Date().toISOString(),
+            status: 'sending',
+        };
+        outgoingRef.current = [...outgoingRef.current, message];
+        setOutgoing((prev) => [...prev, message]);
+        saveOutboxMessage(message).catch(logStorageError);
+        publish(message);
+    };
+
+    const retry = (clientId: string) => {
+        const message = outgoingRef.current.find((item) => item.clientId === clientId);
+        if (!message) return;
+        setStatus(clientId, 'sending');
+        publish({ ...message, status: 'sending' });
+    };
+
+    const discard = (clientId: string) => {
+        settle(clientId);
+        setOutgoing((prev) => prev.filter((message) => message.clientId !== clientId));
+        removeOutboxMessage(clientId).catch(logStorageError);
+    };
+
+    // 서버 에코를 받으면 보내는 중인 메시지를 지운다 (화면에는 에코 메시지가 대신 보인다)
+    const acknowledge = useCallback((clientId: string) => {
+        settle(clientId);
+        setOutgoing((prev) => prev.filter((message) => message.clientId !== clientId));
+        removeOutboxMessage(clientId).catch(logStorageError);
+    }, [settle]);
+
+    return { outgoing, send, retry, discard, flush, acknowledge };
+};
+
+export default useChatOutbox;
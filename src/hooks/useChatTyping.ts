@@ -0,0 +1,78 @@
+// src/hooks/useChatTyping.ts
+import { RefObject, useCallback, useEffect, useRef, useState } from 'react';
+import { Client } from '@stomp/stompjs';
+import { TypingEvent } from '../types/Chat';
+
+const TYPING_THROTTLE = 2000; // 입력 중 신호를 다시 보내는 간격
+const TYPING_TIMEOUT = 5000; // 이 시간 동안 신호가 없으면 입력을 멈춘 것으로 본다
+
+// "○○님이 입력 중..." - 입력하는 동안 STOMP 로 입력 중 신호를 (throttle 해서) 보내고, 다른 멤버의 신호를 모은다
+// 멈춤 신호를 못 받아도(연결 끊김 등) TYPING_TIMEOUT 후에 사라진다
+const useChatTyping = (chatRoomId: string, clientRef: RefObject<Client | null>, currentUserNickname: string) => {
+    const [typingNicknames, setTypingNicknames] = useState<string[]>([]);
+    const expiryTimersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+    const lastSentRef = useRef(0);
+    // 구독 핸들러는 연결할 때 한 번 등록되므로 닉네임은 ref 로 본다 (사용자 정보가 늦게 올 수 있음)
+    const nicknameRef = useRef(currentUserNickname);
+
+    useEffect(() => {
+        nicknameRef.current = currentUserNickname;
+    });
+
+    const publish = useCallback((typing: boolean) => {
+        const client = clientRef.current;
+        if (!client?.connected) return;
+        client.publish({
+            destination: `/app/chat/${chatRoomId}/typing`,
+            body: JSON.stringify({ typing }),
+        });
+    }, [chatRoomId, clientRef]);
+
+    const removeTyping = useCallback((nickname: string) => {
+        clearTimeout(expiryTimersRef.current.get(nickname));
+        expiryTimersRef.current.delete(nickname);
+        setTypingNicknames((prev) => prev.filter((name) => name !== nickname));
+    }, []);
+
+    // 입력할 때마다 부른다 - TYPING_THROTTLE 에 한 번만 보낸다
+    const notifyTyping = useCallback(() => {
+        const now = Date.now();
+        if (now - lastSentRef.current < TYPING_THROTTLE) return;
+        lastSentRef.current = now;
+        publish(true);
+    }, [publish]);
+
+    // 전송하거나 입력창을 비우거나 떠날 때
+    const stopTyping = useCallback(() => {
+        if (lastSentRef.current === 0) return; // 보낸 입력 중 신호가 없음
+        lastSentRef.current = 0;
+        publish(false);
+    }, [publish]);
+
+    // /topic/chat/{chatRoomId}/typing 구독 핸들러
+    const handleTypingEvent = useCallback((event: TypingEvent) => {
+        if (event.nickname === nicknameRef.current) return;
+        if (!event.typing) {
+            removeTyping(event.nickname);
+            return;
+        }
+        clearTimeout(expiryTimersRef.current.get(event.nickname));
+        expiryTimersRef.current.set(event.nickname, setTimeout(() => removeTyping(event.nickname), TYPING_TIMEOUT));
+        setTypingNicknames((prev) => (prev.includes(event.nickname) ? prev : [...prev, event.nickname]));
+    }, [removeTyping]);
+
+    // 채팅방이 바뀌면 초기화
+    useEffect(() => {
+        const timers = expiryTimersRef.current;
+        setTypingNicknames([]);
+        lastSentRef.current = 0;
+        return () => {
+            timers.forEach(clearTimeout);
+            timers.clear();
+        };
+    }, [chatRoomId]);
+
+    return { typingNicknames, notifyTyping, stopTyping, handleTypingEvent };
+};
+
+export default useChatTyping;
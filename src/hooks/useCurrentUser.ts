@@ -0,0 +1,8 @@
+// src/hooks/useCurrentUser.ts
+import { useContext } from 'react';
+import { SessionContext } from '../providers/SessionContext';
+
+// 로그인한 회원 정보 (비로그인 시 null)
+const useCurrentUser = () => useContext(SessionContext).currentUser;
+
+export default useCurrentUser;
@@ -0,0 +1,69 @@
+// src/hooks/useDocumentMeta.ts
+import { useEffect } from 'react';
+
+export interface DocumentMeta {
+    title: string;
+    description?: string;
+    image?: string; // 미리보기 이미지 (절대 주소)
+    url?: string; // 공유되는 정식 주소 (절대 주소)
+}
+
+const SITE_NAME = '숨은 사람 친구';
+
+// 바꾼 meta 태그는 페이지를 떠날 때 원래 값(index.html)으로 되돌린다
+const setMetaTag = (attribute: 'name' | 'property', key: string, content: string | undefined) => {
+    let element = document.head.querySelector<HTMLMetaElement>(`meta[${attribute}="${key}"]`);
+    const created = !element;
+    if (!element) {
+        element = document.createElement('meta');
+        element.setAttribute(attribute, key);
+        document.head.appendChild(element);
+    }
+    const previous = element.getAttribute('content');
+    if (content) {
+        element.setAttribute('content', content);
+    } else {
+        element.removeAttribute('content');
+    }
+
+    const target = element;
+    return () => {
+        if (created) {
+            target.remove();
+        } else if (previous !== null) {
+            target.setAttribute('content', previous);
+        } else {
+            target.removeAttribute('content');
+        }
+    };
+};
+
+// 상세 페이지의 문서 제목과 공유 미리보기(Open Graph) 태그 설정 - 데이터를 받기 전(null)에는 바꾸지 않는다
+const useDocumentMeta = (meta: DocumentMeta | null) => {
+    const title = meta ? `${meta.title} | ${SITE_NAME}` : null;
+    const description = meta?.description;
+    const image = meta?.image;
+    const url = meta?.url;
+
+    useEffect(() => {
+        if (!title) return;
+        const previousTitle = document.title;
+        document.title = title;
+
+        const restores = [
+            setMetaTag('name', 'description', description),
+            setMetaTag('property', 'og:title', title),
+            setMetaTag('property', 'og:description', description),
+            setMetaTag('property', 'og:image', image),
+            setMetaTag('property', 'og:url', url),
+            setMetaTag('name', 'twitter:card', image ? 'summary_large_image' : 'summary'),
+        ];
+
+        return () => {
+            document.title = previousTitle;
+            restores.forEach((restore) => restore());
+        };
+    }, [title, description, image, url]);
+};
+
+export default useDocumentMeta;
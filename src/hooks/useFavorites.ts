@@ -0,0 +1,8 @@
+// src/hooks/useFavorites.ts
+import { useContext } from 'react';
+import { FavoritesContext } from '../providers/FavoritesContext';
+
+// 찜한 축제 목록과 찜하기/해제
+const useFavorites = () => useContext(FavoritesContext);
+
+export default useFavorites;
@@ -0,0 +1,121 @@
+// src/hooks/useInfiniteList.ts
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { getQueryState, hashQueryKey, isCanceledError, Page, QueryKey, setQueryData } from '../api';
+import useQuery from './useQuery';
+
+interface UseInfiniteListOptions<T> {
+    queryKey: QueryKey; // 검색 조건 등을 담은 캐시 키 - 바뀌면 첫 페이지부터 다시 조회
+    fetchPage: (page: number, signal?: AbortSignal) => Promise<Page<T>>;
+    delay?: number; // 조건이 바뀐 뒤 조회까지 대기 (검색어 입력 디바운스)
+    staleTime?: number; // 이 시간 안에 다시 돌아오면 캐시된 목록을 그대로 사용
+}
+
+// 지금까지 불러온 페이지들 (캐시에 저장되는 값)
+interface InfiniteData<T> {
+    items: T[];
+    nextPage: number;
+    hasMore: boolean;
+}
+
+interface LoadMoreState {
+    isLoading: boolean;
+    error: unknown;
+}
+
+const toInfiniteData = <T>(pages: Page<T>[]): InfiniteData<T> => {
+    const last = pages[pages.length - 1];
+    return {
+        items: pages.flatMap((page) => page.content),
+        nextPage: last.page.number + 1,
+        hasMore: last.page.number + 1 < last.page.totalPages,
+    };
+};
+
+// 페이지 단위로 이어 불러오는 목록 (무한 스크롤)
+// 불러온 목록은 조건별로 캐시되어 뒤로 가기로 돌아오면 바로 보이고, 오래된 캐시는 불러온 페이지 수만큼 다시 받아온다
+const useInfiniteList = <T>({ queryKey, fetchPage, delay = 0, staleTime = 0 }: UseInfiniteListOptions<T>) => {
+    const hash = hashQueryKey(queryKey);
+    const keyRef = useRef(queryKey);
+    const fetchPageRef = useRef(fetchPage);
+    const controllerRef = useRef<AbortController | null>(null);
+    const isFetchingRef = useRef(false); // 렌더 전에 loadMore 가 연달아 불려도 한 번만 요청
+    const [more, setMore] = useState<LoadMoreState>({ isLoading: false, error: null });
+
+    // 콜백은 한 번만 만들고 최신 값은 ref 로 참조
+    useEffect(() => {
+        keyRef.current = queryKey;
+        fetchPageRef.current = fetchPage;
+    });
+
+    // 처음 조회 / 다시 조회 - 지금까지 불러온 페이지 수만큼 처음부터 받아서 교체
+    const query = useQuery<InfiniteData<T>>(queryKey, async () => {
+        const pageCount = Math.max(getQueryState<InfiniteData<T>>(queryKey).data?.nextPage ?? 1, 1);
+        const pages = await Promise.all(
+            Array.from({ length: pageCount }, (_, page) => fetchPageRef.current(page))
+        );
+        return toInfiniteData(pages);
+    }, { staleTime, delay });
+
+    // 조건이 바뀌면 이전 조건의 다음 페이지 요청은 취소
+    useEffect(() => {
+        setMore({ isLoading: false, error: null });
+        return () => {
+            controllerRef.current?.abort();
+            isFetchingRef.current = false;
+        };
+    }, [hash]);
+
+    const loadMore = useCallback(async () => {
+        const key = keyRef.current;
+        const data = getQueryState<InfiniteData<T>>(key).data;
+        if (isFetchingRef.current || !data?.hasMore) return;
+
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        isFetchingRef.current = true;
+        setMore({ isLoading: true, error: null });
+
+        try {
+            const page = await fetchPageRef.current(data.nextPage, controller.signal);
+            if (controller.signal.aborted) return;
+            // 그 사이 목록을 다시 받아왔으면 (무효화 등) 이어 붙이지 않는다
+            setQueryData<InfiniteData<T>>(key, (prev) => prev && prev.nextPage === data.nextPage
+                ? { ...toInfiniteData([page]), items: [...prev.items, ...page.content] }
+                : prev ?? toInfiniteData([page]));
+            setMore({ isLoading: false, error: null });
+        } catch (error) {
+            if (controller.signal.aborted || isCanceledError(error)) return;
+            console.error('목록 조회 실패:', error);
+            setMore({ isLoading: false, error });
+        } finally {
+            if (controllerRef.current === controller) isFetchingRef.current = false;
+        }
+    }, []);
+
+    // 실패한 요청 다시 시도
+    const { refetch } = query;
+    const retry = useCallback(() => {
+        if (getQueryState(keyRef.current).data === undefined) {
+            refetch();
+        } else {
+            loadMore();
+        }
+    }, [refetch, loadMore]);
+
+    // 수정/삭제 후 불러온 페이지들 다시 조회 (스크롤 위치 유지)
+    const refresh = useCallback(() => refetch(), [refetch]);
+
+    const data = query.data;
+    return {
+        items: data?.items ?? [],
+        nextPage: data?.nextPage ?? 0,
+        hasMore: data?.hasMore ?? true,
+        isLoading: query.isLoading || more.isLoading,
+        error: more.error ?? (data === undefined ? query.error : null),
+        loadMore,
+        retry,
+        refresh,
+    };
+};
+
+export default useInfiniteList;
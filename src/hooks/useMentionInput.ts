@@ -0,0 +1,70 @@
+// src/hooks/useMentionInput.ts
+import { ChangeEvent, KeyboardEvent, useRef, useState } from 'react';
+import { filterMentionCandidates, getMentionQuery, insertMention, MentionCandidate } from '../utils/mentions';
+
+interface UseMentionInputOptions {
+    value: string;
+    onChange: (value: string) => void;
+    candidates: MentionCandidate[];
+}
+
+// 입력창에서 @ 를 치면 후보를 보여주고, 방향키/Enter/Tab 으로 고르면 @닉네임 으로 바꾼다
+const useMentionInput = <T extends HTMLInputElement | HTMLTextAreaElement>({ value, onChange, candidates }: UseMentionInputOptions) => {
+    const inputRef = useRef<T>(null);
+    const [mention, setMention] = useState<{ start: number; query: string } | null>(null);
+    const [activeIndex, setActiveIndex] = useState(0);
+
+    const suggestions = mention ? filterMentionCandidates(candidates, mention.query) : [];
+
+    const handleChange = (e: ChangeEvent<T>) => {
+        const text = e.target.value;
+        onChange(text);
+        setMention(getMentionQuery(text, e.target.selectionStart ?? text.length));
+        setActiveIndex(0);
+    };
+
+    const select = (candidate: MentionCandidate) => {
+        if (!mention) return;
+        const input = inputRef.current;
+        const caret = input?.selectionStart ?? value.length;
+        const next = insertMention(value, mention.start, caret, candidate.nickname);
+        onChange(next.text);
+        setMention(null);
+        // 값이 바뀐 뒤에 커서를 멘션 뒤로 옮긴다
+        requestAnimationFrame(() => {
+            input?.focus();
+            input?.setSelectionRange(next.caret, next.caret);
+        });
+    };
+
+    const close = () => setMention(null);
+
+    // 후보 목록이 열려 있을 때 키 입력을 처리했으면 true (Enter 전송 등을 막는다)
+    const handleKeyDown = (e: KeyboardEvent<T>) => {
+        if (suggestions.length === 0) return false;
+        switch (e.key) {
+            case 'ArrowDown':
+                setActiveIndex((index) => (index + 1) % suggestions.length);
+                break;
+            case 'ArrowUp':
+                setActiveIndex((index) => (index - 1 + suggestions.length) % suggestions.length);
+                break;
+            case 'Enter':
+            case 'Tab':
+                if (e.nativeEvent.isComposing) return true; // 한글 조합 중 Enter
+                select(suggestions[Math.min(activeIndex, suggestions.length - 1)]);
+                break;
+            case 'Escape':
+                close();
+                break;
+            default:
+                return false;
+        }
+        e.preventDefault();
+        return true;
+    };
+
+    return { inputRef, suggestions, activeIndex, setActiveIndex, handleChange, handleKeyDown, select, close };
+};
+
+export default useMentionInput;
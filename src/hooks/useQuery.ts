@@ -0,0 +1,57 @@
+// src/hooks/useQuery.ts
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import { fetchQuery, getQueryState, hashQueryKey, isCanceledError, QueryKey, subscribeQuery } from '../api';
+
+interface UseQueryOptions {
+    staleTime?: number; // 이 시간(ms) 안에 받아온 캐시가 있으면 다시 요청하지 않는다
+    enabled?: boolean; // false 면 요청하지 않음 (필요한 값이 아직 없을 때)
+    delay?: number; // 키가 바뀐 뒤 요청까지 대기 (검색어 입력 디바운스)
+}
+
+// 키 단위로 캐시되는 조회 (stale-while-revalidate)
+// 캐시가 있으면 바로 보여주고, 오래된 캐시면 보여주는 동안 다시 받아온다
+const useQuery = <T>(key: QueryKey, fetcher: () => Promise<T>, { staleTime = 0, enabled = true, delay = 0 }: UseQueryOptions = {}) => {
+    // 매 렌더 새로 만들어지는 키 배열 대신 내용(hash)이 바뀔 때만 바뀌는 키를 쓴다
+    const hash = hashQueryKey(key);
+    const queryKey = useMemo(() => JSON.parse(hash) as QueryKey, [hash]);
+    const fetcherRef = useRef(fetcher);
+
+    // 콜백은 키가 바뀔 때만 만들고 최신 fetcher 는 ref 로 참조
+    useEffect(() => {
+        fetcherRef.current = fetcher;
+    });
+
+    const subscribe = useCallback(
+        (listener: () => void) => subscribeQuery(queryKey, listener),
+        [queryKey]
+    );
+    const state = useSyncExternalStore(subscribe, () => getQueryState<T>(queryKey));
+
+    const fetch = useCallback(
+        (staleTime: number) => fetchQuery(queryKey, () => fetcherRef.current(), { staleTime })
+            .catch((error) => {
+                if (!isCanceledError(error)) console.error('데이터 조회 실패:', error);
+                return undefined;
+            }),
+        [queryKey]
+    );
+
+    useEffect(() => {
+        if (!enabled) return;
+        const timer = setTimeout(() => fetch(staleTime), delay);
+        return () => clearTimeout(timer);
+    }, [enabled, staleTime, delay, fetch]);
+
+    // 캐시와 상관없이 다시 받기 (진행 중인 요청이 있으면 그 결과를 사용)
+    const refetch = useCallback(() => fetch(0), [fetch]);
+
+    return {
+        data: state.data,
+        error: state.error,
+        isLoading: state.data === undefined && !state.error && enabled, // 처음 받아오는 중
+        isFetching: state.isFetching, // 백그라운드 갱신 포함
+        refetch,
+    };
+};
+
+export default useQuery;
@@ -0,0 +1,8 @@
+// src/hooks/useSession.ts
+import { useContext } from 'react';
+import { SessionContext } from '../providers/SessionContext';
+
+// 로그인/로그아웃 등 세션 액션까지 필요할 때 사용
+const useSession = () => useContext(SessionContext);
+
+export default useSession;
@@ -0,0 +1,45 @@
+// src/hooks/useUserRegion.ts
+import { useCallback, useState } from 'react';
+import { getRegionFromCoordinates, getUserLocation, toShortRegionName } from '../components/KakaoMap/kakaoMapService';
+
+const LAST_REGION_KEY = 'lastRegion';
+const LAST_REGION_AT_KEY = 'lastRegionAt'; // 마지막으로 지역을 찾은 시각
+const REGION_MAX_AGE = 60 * 60 * 1000; // 이 시간이 지나면 다시 찾는다
+
+// 기기 위치로 찾은 시/도 ("서울", "경기" ...) - 위치 권한이 없으면 마지막으로 찾은 지역 유지
+const useUserRegion = () => {
+    const [region, setRegion] = useState<string | null>(() => localStorage.getItem(LAST_REGION_KEY));
+    const [isLocating, setIsLocating] = useState(false);
+
+    // 현재 위치의 지역 다시 찾기 (실패하면 마지막으로 찾은 지역, 없으면 null)
+    const locate = useCallback(async () => {
+        setIsLocating(true);
+        try {
+            const coords = await getUserLocation();
+            if (!coords) throw new Error('위치 정보 없음');
+
+            const nextRegion = toShortRegionName(await getRegionFromCoordinates(coords.latitude, coords.longitude));
+            localStorage.setItem(LAST_REGION_KEY, nextRegion);
+            localStorage.setItem(LAST_REGION_AT_KEY, String(Date.now()));
+            setRegion(nextRegion);
+            return nextRegion;
+        } catch (error) {
+            console.error('현재 위치 확인 실패:', error); // 권한 거부, 위치 서비스 꺼짐 등
+            return localStorage.getItem(LAST_REGION_KEY);
+        } finally {
+            setIsLocating(false);
+        }
+    }, []);
+
+    // 마지막으로 찾은 지역이 없거나 오래됐을 때만 다시 찾기 (화면에 들어올 때마다 위치를 묻지 않도록)
+    const locateIfStale = useCallback(async () => {
+        const storedRegion = localStorage.getItem(LAST_REGION_KEY);
+        const locatedAt = Number(localStorage.getItem(LAST_REGION_AT_KEY));
+        if (storedRegion && Date.now() - locatedAt < REGION_MAX_AGE) return storedRegion;
+        return locate();
+    }, [locate]);
+
+    return { region, isLocating, locate, locateIfStale };
+};
+
+export default useUserRegion;
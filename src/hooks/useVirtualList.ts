@@ -0,0 +1,214 @@
+// src/hooks/useVirtualList.ts
+import { CSSProperties, RefObject, useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+
+type ItemKey = string | number;
+
+interface UseVirtualListOptions {
+    count: number;
+    getKey: (index: number) => ItemKey;
+    estimateSize: number; // 아직 그려지지 않은 항목의 예상 높이 (px)
+    scrollElementRef?: RefObject<HTMLElement>; // 없으면 window 스크롤
+    overscan?: number; // 화면 위아래로 미리 그려둘 영역 (px)
+}
+
+export interface VirtualItem {
+    index: number;
+    key: ItemKey;
+}
+
+// 긴 목록에서 화면 근처 항목만 그린다 (항목마다 높이가 달라도 됨 - 그려진 항목은 실제 높이를 측정)
+// 위쪽에 항목이 추가되거나(이전 채팅 불러오기) 위쪽 항목 높이가 바뀌어도 보고 있던 위치가 움직이지 않도록 스크롤을 보정한다
+const useVirtualList = ({ count, getKey, estimateSize, scrollElementRef, overscan = 600 }: UseVirtualListOptions) => {
+    const listRef = useRef<HTMLDivElement>(null);
+    const sizesRef = useRef(new Map<ItemKey, number>());
+    const [viewport, setViewport] = useState({ top: 0, height: 0 }); // 목록 기준 화면 위치
+    const [, setMeasureVersion] = useState(0);
+
+    const keys = Array.from({ length: count }, (_, index) => getKey(index));
+    const sizeOf = (key: ItemKey) => sizesRef.current.get(key) ?? estimateSize;
+
+    // 각 항목의 시작 위치
+    const starts: number[] = [];
+    let totalSize = 0;
+    keys.forEach((key) => {
+        starts.push(totalSize);
+        totalSize += sizeOf(key);
+    });
+
+    // 목록 맨 위를 0 으로 한 화면(스크롤 영역)의 위치
+    const readViewport = useCallback(() => {
+        const list = listRef.current;
+        if (!list) return { top: 0, height: 0 };
+        const scrollElement = scrollElementRef?.current;
+        const viewportTop = scrollElement ? scrollElement.getBoundingClientRect().top : 0;
+        return {
+            top: viewportTop - list.getBoundingClientRect().top,
+            height: scrollElement ? scrollElement.clientHeight : window.innerHeight,
+        };
+    }, [scrollElementRef]);
+
+    // 스크롤 영역 맨 위부터 목록 맨 위까지의 거리
+    const readListOffset = useCallback(() => {
+        const list = listRef.current;
+        if (!list) return 0;
+        const scrollElement = scrollElementRef?.current;
+        return scrollElement
+            ? list.getBoundingClientRect().top - scrollElement.getBoundingClientRect().top + scrollElement.scrollTop
+            : list.getBoundingClientRect().top + window.scrollY;
+    }, [scrollElementRef]);
+
+    const scrollBy = useCallback((delta: number) => {
+        if (!delta) return;
+        const scrollElement = scrollElementRef?.current;
+        if (scrollElement) {
+            scrollElement.scrollTop += delta;
+        } else {
+            window.scrollBy(0, delta);
+        }
+    }, [scrollElementRef]);
+
+    // 스크롤/리사이즈 시 화면 위치 갱신 (프레임당 한 번)
+    useLayoutEffect(() => {
+        const target: HTMLElement | Window = scrollElementRef?.current ?? window;
+        let frame = 0;
+        const update = () => {
+            cancelAnimationFrame(frame);
+            frame = requestAnimationFrame(() => setViewport(readViewport()));
+        };
+
+        setViewport(readViewport());
+        target.addEventListener('scroll', update, { passive: true });
+        window.addEventListener('resize', update);
+        return () => {
+            cancelAnimationFrame(frame);
+            target.removeEventListener('scroll', update);
+            window.removeEventListener('resize', update);
+        };
+    }, [scrollElementRef, readViewport]);
+
+    // 측정 전후 값은 렌더 시점이 아닌 최신 값을 써야 하므로 ref 로 참조
+    const latestRef = useRef({ keys, starts });
+    useLayoutEffect(() => {
+        latestRef.current = { keys, starts };
+    });
+
+    // 그려진 항목 높이 측정
+    const elementsRef = useRef(new Map<ItemKey, HTMLElement>());
+    const [resizeObserver] = useState(() => new ResizeObserver((entries) => {
+        let changed = false;
+        let scrollDelta = 0;
+        const viewportTop = readViewport().top;
+        const { keys: currentKeys, starts: currentStarts } = latestRef.current;
+
+        entries.forEach((entry) => {
+            const element = entry.target as HTMLElement;
+            const key = [...elementsRef.current.entries()].find(([, el]) => el === element)?.[0];
+            if (key === undefined) return;
+            const size = element.getBoundingClientRect().height;
+            const previous = sizesRef.current.get(key) ?? estimateSize;
+            if (size === previous) return;
+
+            sizesRef.current.set(key, size);
+            changed = true;
+            // 화면보다 위에 있는 항목의 높이가 바뀌면 그만큼 스크롤을 옮겨 보던 위치 유지
+            const index = currentKeys.indexOf(key);
+            if (index >= 0 && currentStarts[index] + previous <= viewportTop) {
+                scrollDelta += size - previous;
+            }
+        });
+
+        if (changed) {
+            scrollBy(scrollDelta);
+            setMeasureVersion((version) => version + 1);
+        }
+    }));
+
+    useEffect(() => () => resizeObserver.disconnect(), [resizeObserver]);
+
+    // 항목 key 별 ref 콜백 (같은 함수를 돌려줘야 매 렌더마다 다시 관찰하지 않는다)
+    const measureRefs = useRef(new Map<ItemKey, (element: HTMLElement | null) => void>());
+    const measureRef = (key: ItemKey) => {
+        let ref = measureRefs.current.get(key);
+        if (!ref) {
+            ref = (element: HTMLElement | null) => {
+                const previous = elementsRef.current.get(key);
+                if (previous) resizeObserver.unobserve(previous);
+                if (element) {
+                    elementsRef.current.set(key, element);
+                    resizeObserver.observe(element);
+                } else {
+                    elementsRef.current.delete(key);
+                    measureRefs.current.delete(key);
+                }
+            };
+            measureRefs.current.set(key, ref);
+        }
+        return ref;
+    };
+
+    // 앞쪽에 항목이 추가되면 (이전 메시지 불러오기) 추가된 높이만큼 스크롤을 내려 보던 항목 유지
+    // 같은 렌더에서 목록 위의 요소(더보기 버튼 등)가 사라져 목록 위치가 바뀐 만큼도 함께 보정
+    const firstKeyRef = useRef<ItemKey | undefined>(undefined);
+    const listOffsetRef = useRef(0);
+    const firstKey = keys[0];
+    useLayoutEffect(() => {
+        const previousFirstKey = firstKeyRef.current;
+        firstKeyRef.current = firstKey;
+        if (previousFirstKey === undefined) return;
+        // 첫 항목이 바뀔 때만 확인 - 나머지 값은 위에서 갱신된 latestRef 로 본다
+        const { keys: currentKeys, starts: currentStarts } = latestRef.current;
+        const index = currentKeys.indexOf(previousFirstKey);
+        if (index > 0) {
+            scrollBy(currentStarts[index] + readListOffset() - listOffsetRef.current);
+        }
+    }, [firstKey, readListOffset, scrollBy]);
+
+    useLayoutEffect(() => {
+        listOffsetRef.current = readListOffset();
+    });
+
+    // 항목을 화면 가운데로 스크롤 (알림으로 들어온 메시지 등)
+    // 위쪽 항목이 아직 예상 높이라 위치가 어긋날 수 있어, 그려져서 측정된 다음 프레임에 한 번 더 맞춘다
+    const scrollToIndex = useCallback((index: number) => {
+        const scrollTo = () => {
+            const { keys: currentKeys, starts: currentStarts } = latestRef.current;
+            const key = currentKeys[index];
+            if (key === undefined) return;
+            const scrollElement = scrollElementRef?.current;
+            const viewportHeight = scrollElement ? scrollElement.clientHeight : window.innerHeight;
+            const size = sizesRef.current.get(key) ?? estimateSize;
+            const top = readListOffset() + currentStarts[index] - Math.max((viewportHeight - size) / 2, 0);
+            if (scrollElement) {
+                scrollElement.scrollTop = top;
+            } else {
+                window.scrollTo(0, top);
+            }
+        };
+        scrollTo();
+        requestAnimationFrame(() => requestAnimationFrame(scrollTo));
+    }, [scrollElementRef, readListOffset, estimateSize]);
+
+    // 화면 근처 항목 범위
+    const rangeTop = viewport.top - overscan;
+    const rangeBottom = viewport.top + viewport.height + overscan;
+    const virtualItems: VirtualItem[] = [];
+    keys.forEach((key, index) => {
+        const start = starts[index];
+        if (start + sizeOf(key) >= rangeTop && start <= rangeBottom) {
+            virtualItems.push({ index, key });
+        }
+    });
+
+    const first = virtualItems[0];
+    const last = virtualItems[virtualItems.length - 1];
+    const paddingTop = first ? starts[first.index] : 0;
+    const paddingBottom = last ? totalSize - starts[last.index] - sizeOf(last.key) : totalSize;
+
+    // 목록 요소에 붙일 스타일 - 그리지 않은 항목 자리는 padding 으로 비워둔다
+    // 브라우저 자체 스크롤 보정(overflow-anchor)과 겹치지 않도록 끈다
+    const listStyle: CSSProperties = { paddingTop, paddingBottom, overflowAnchor: 'none' };
+
+    return { listRef, listStyle, virtualItems, measureRef, scrollToIndex };
+};
+
+export default useVirtualList;
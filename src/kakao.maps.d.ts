@@ -9,17 +9,30 @@ interface KakaoNamespace {
     maps: {
         services: KakaoServices;
         LatLng: new (lat: number, lng: number) => KakaoLatLng;
+        LatLngBounds: new (sw?: KakaoLatLng, ne?: KakaoLatLng) => KakaoLatLngBounds;
         Map: new (container: HTMLElement, options: MapOptions) => KakaoMap;
+        Marker: new (options: MarkerOptions) => KakaoMarker;
+        MarkerClusterer: new (options: MarkerClustererOptions) => KakaoMarkerClusterer; // libraries=clusterer
+        event: KakaoEvent;
         load: (callback: () => void) => void;
     };
 }
 
 // Kakao LatLng Type
-interface KakaoLatLng {
+export interface KakaoLatLng {
     getLat: () => number;
     getLng: () => number;
 }
 
+// 지도 영역 (남서쪽 ~ 북동쪽)
+export interface KakaoLatLngBounds {
+    extend: (latlng: KakaoLatLng) => void;
+    contain: (latlng: KakaoLatLng) => boolean;
+    isEmpty: () => boolean;
+    getSouthWest: () => KakaoLatLng;
+    getNorthEast: () => KakaoLatLng;
+}
+
 // Map Options Type
 interface MapOptions {
     center: KakaoLatLng;
@@ -27,29 +40,102 @@ interface MapOptions {
 }
 
 // Kakao Map Type
-interface KakaoMap {
+export interface KakaoMap {
     setCenter: (latlng: KakaoLatLng) => void;
+    getCenter: () => KakaoLatLng;
     setLevel: (level: number) => void;
+    getLevel: () => number;
+    getBounds: () => KakaoLatLngBounds;
+    setBounds: (bounds: KakaoLatLngBounds) => void;
+    panTo: (latlng: KakaoLatLng) => void;
+    relayout: () => void;
+}
+
+// 마커
+interface MarkerOptions {
+    position: KakaoLatLng;
+    map?: KakaoMap;
+    title?: string;
+    clickable?: boolean;
+}
+
+export interface KakaoMarker {
+    setMap: (map: KakaoMap | null) => void;
+    getPosition: () => KakaoLatLng;
+    getTitle: () => string;
+}
+
+// 마커 클러스터러
+interface MarkerClustererOptions {
+    map: KakaoMap;
+    averageCenter?: boolean; // 클러스터 위치를 마커들의 평균 위치로
+    minLevel?: number; // 이 레벨 이상(축소)일 때만 클러스터링
+    gridSize?: number;
+    disableClickZoom?: boolean;
+}
+
+export interface KakaoMarkerClusterer {
+    addMarkers: (markers: KakaoMarker[]) => void;
+    removeMarkers: (markers: KakaoMarker[]) => void;
+    clear: () => void;
+}
+
+// 이벤트 (idle, click, zoom_changed 등)
+interface KakaoEvent {
+    addListener: (target: KakaoMap | KakaoMarker | KakaoMarkerClusterer, type: string, handler: (...args: unknown[]) => void) => void;
+    removeListener: (target: KakaoMap | KakaoMarker | KakaoMarkerClusterer, type: string, handler: (...args: unknown[]) => void) => void;
 }
 
 // Kakao Geocoder Service Type
 interface KakaoServices {
-    Geocoder: {
-        coord2RegionCode: (
-            lng: number,
-            lat: number,
-            callback: (result: RegionCode[], status: string) => void
-        ) => void;
-    };
+    Geocoder: new () => KakaoGeocoder;
+    Places: new () => KakaoPlaces;
     Status: {
         OK: string;
+        ZERO_RESULT: string;
+        ERROR: string;
     };
 }
 
+interface KakaoGeocoder {
+    coord2RegionCode: (
+        lng: number,
+        lat: number,
+        callback: (result: RegionCode[], status: string) => void
+    ) => void;
+    // 주소 -> 좌표
+    addressSearch: (
+        address: string,
+        callback: (result: AddressSearchResult[], status: string) => void
+    ) => void;
+}
+
+// 장소(공연장 이름 등) 키워드 검색
+interface KakaoPlaces {
+    keywordSearch: (
+        keyword: string,
+        callback: (result: PlacesSearchResult[], status: string) => void
+    ) => void;
+}
+
 // RegionCode returned by the Geocoder
 interface RegionCode {
     region_1depth_name: string; // The region (e.g., "Seoul")
     region_2depth_name?: string; // The sub-region (optional)
 }
 
+// 좌표는 문자열 (x: 경도, y: 위도)
+interface AddressSearchResult {
+    address_name: string;
+    x: string;
+    y: string;
+}
+
+interface PlacesSearchResult {
+    place_name: string;
+    address_name: string;
+    x: string;
+    y: string;
+}
+
 export {};
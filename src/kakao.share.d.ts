@@ -0,0 +1,34 @@
+// 카카오 JavaScript SDK (공유하기) - utils/share.ts 에서 필요할 때 불러온다
+declare global {
+    interface Window {
+        Kakao?: KakaoSdk;
+    }
+}
+
+interface KakaoSdk {
+    init: (appKey: string) => void;
+    isInitialized: () => boolean;
+    Share: {
+        sendDefault: (settings: KakaoFeedSettings) => void;
+    };
+}
+
+export interface KakaoLink {
+    webUrl: string;
+    mobileWebUrl: string;
+}
+
+// 피드 템플릿 (https://developers.kakao.com/docs/latest/ko/message/js-link#default-template-msg)
+export interface KakaoFeedSettings {
+    objectType: 'feed';
+    content: {
+        title: string;
+        description?: string;
+        imageUrl: string;
+        link: KakaoLink;
+    };
+    buttons?: {
+        title: string;
+        link: KakaoLink;
+    }[];
+}
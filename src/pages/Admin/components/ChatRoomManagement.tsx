@@ -1,17 +1,6 @@
 import { useState, useEffect } from 'react';
-
-interface ChatRoom {
-    memberId: string;
-    chatRoomId: string;
-    roomTitle: string;
-    roomContent: string;
-    festivalName: string;  // 축제 이름 필드 추가
-    roomMemberLimit: string;
-    joinMemberNum: string;
-    createDate: string;
-    joinMemberIdNickNameList: string[][];
-    waitingMemberIdNickNameList: string[][];
-}
+import { chatRoomsApi, membersApi } from '../../../api';
+import { ChatRoom } from '../../../types/ChatRoom';
 
 const ChatRoomManagement = () => {
     const [chatRooms, setChatRooms] = useState<ChatRoom[]>([]);
@@ -22,19 +11,8 @@ const ChatRoomManagement = () => {
     // 멤버 ID로 닉네임 조회하는 함수
     const fetchMemberNickname = async (memberId: string) => {
         try {
-            const response = await fetch(
-                `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/members/${memberId}`,
-                {
-                    credentials: 'include',
-                    headers: {
-                        'Authorization': `Bearer ${localStorage.getItem('accessToken')}`,
-                    }
-                }
-            );
-            if (response.ok) {
-                const data = await response.json();
-                return data.nickname;
-            }
+            const member = await membersApi.get(memberId);
+            return member.nickname;
         } catch (error) {
             console.error('멤버 정보 조회 실패:', error);
             return null;
@@ -57,16 +35,10 @@ const ChatRoomManagement = () => {
 
     const fetchChatRooms = async () => {
         try {
-            const response = await fetch(
-                `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/posts/chat-rooms`,
-                { credentials: 'include' }
-            );
-            if (response.ok) {
-                const data = await response.json();
-                setChatRooms(data.content);
-                // 채팅방 데이터를 가져온 후 방장들의 닉네임 조회
-                await fetchAllMemberNicknames(data.content);
-            }
+            const { content } = await chatRoomsApi.getPage();
+            setChatRooms(content);
+            // 채팅방 데이터를 가져온 후 방장들의 닉네임 조회
+            await fetchAllMemberNicknames(content);
         } catch (error) {
             console.error('채팅방 목록 조회 실패:', error);
         }
@@ -79,20 +51,7 @@ const ChatRoomManagement = () => {
             setIsLoading(true);
             
             // 채팅방 삭제 API 호출
-            const response = await fetch(
-                `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/posts/delete-chat-room/${chatRoomId}`,
-                {
-                    method: 'GET',  // DELETE에서 GET으로 변경
-                    credentials: 'include',
-                    headers: {
-                        'Authorization': `Bearer ${localStorage.getItem('accessToken')}`,
-                    }
-                }
-            );
-
-            if (!response.ok) {
-                throw new Error('채팅방 삭제 실패');
-            }
+            await chatRoomsApi.remove(chatRoomId);
 
             // 성공적으로 삭제되면 목록 새로고침
             await fetchChatRooms();
@@ -1,34 +1,21 @@
 import { useState, useEffect } from 'react';
-
-interface Member {
-    id: number;
-    nickname: string;
-    phoneNumber: string | null;
-    state: string;
-    role: 'ROLE_ADMIN' | 'ROLE_USER';
-    createDate: string;
-}
+import { membersApi } from '../../../api';
+import { MemberSummary } from '../../../types/Member';
 
 const MemberManagement = () => {
-    const [members, setMembers] = useState<Member[]>([]);
+    const [members, setMembers] = useState<MemberSummary[]>([]);
     const [searchTerm, setSearchTerm] = useState('');
 
     const fetchMembers = async () => {
         try {
-            const response = await fetch(
-                `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/members`,
-                { credentials: 'include' }
-            );
-            if (response.ok) {
-                const data = await response.json();
-                console.log('전체 회원 데이터:', data);
-                if (data && data.length > 0) {
-                    console.log('첫 번째 회원 데이터:', data[0]);
-                    console.log('첫 번째 회원의 role 값:', data[0].role);
-                    console.log('첫 번째 회원의 모든 필드:', Object.keys(data[0]));
-                }
-                setMembers(data);
+            const data = await membersApi.getAll();
+            console.log('전체 회원 데이터:', data);
+            if (data && data.length > 0) {
+                console.log('첫 번째 회원 데이터:', data[0]);
+                console.log('첫 번째 회원의 role 값:', data[0].role);
+                console.log('첫 번째 회원의 모든 필드:', Object.keys(data[0]));
             }
+            setMembers(data);
         } catch (error) {
             console.error('회원 목록 조회 실패:', error);
         }
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
+import { boardsApi, getErrorMessage } from '../../../api';
 
 const NoticeEdit = () => {
     const [title, setTitle] = useState('');
@@ -10,15 +11,9 @@ const NoticeEdit = () => {
     useEffect(() => {
         const fetchNotice = async () => {
             try {
-                const response = await fetch(
-                    `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/boards/${id}`,
-                    { credentials: 'include' }
-                );
-                if (response.ok) {
-                    const data = await response.json();
-                    setTitle(data.data.title);
-                    setContent(data.data.content);
-                }
+                const notice = await boardsApi.get(id!);
+                setTitle(notice.title);
+                setContent(notice.content);
             } catch (error) {
                 console.error('공지사항 조회 실패:', error);
                 alert('공지사항을 불러오는데 실패했습니다.');
@@ -36,28 +31,12 @@ const NoticeEdit = () => {
         }
 
         try {
-            const response = await fetch(
-                `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/boards/${id}`,
-                {
-                    method: 'PATCH',
-                    credentials: 'include',
-                    headers: {
-                        'Content-Type': 'application/json',
-                    },
-                    body: JSON.stringify({ title, content })
-                }
-            );
-
-            if (response.ok) {
-                alert('공지사항이 수정되었습니다.');
-                navigate('/admin?tab=notices');
-            } else {
-                const errorData = await response.json();
-                alert(errorData.msg || '공지사항 수정에 실패했습니다.');
-            }
+            await boardsApi.update(id!, { title, content });
+            alert('공지사항이 수정되었습니다.');
+            navigate('/admin?tab=notices');
         } catch (error) {
             console.error('공지사항 수정 실패:', error);
-            alert('공지사항 수정 중 오류가 발생했습니다.');
+            alert(getErrorMessage(error, '공지사항 수정에 실패했습니다.'));
         }
     };
 
@@ -1,16 +1,11 @@
 import { useState, useEffect } from 'react';
 import Pagination from '../../../components/Pagination';
 import { useNavigate } from 'react-router-dom';
-
-interface Notice {
-    id: number;
-    title: string;
-    content: string;
-    createDate: string;
-}
+import { boardsApi, getErrorMessage } from '../../../api';
+import { Board } from '../../../types/Board';
 
 const NoticeManagement = () => {
-    const [notices, setNotices] = useState<Notice[]>([]);
+    const [notices, setNotices] = useState<Board[]>([]);
     const [searchTerm, setSearchTerm] = useState('');
     const [currentPage, setCurrentPage] = useState(0);
     const [totalPages, setTotalPages] = useState(0);
@@ -19,30 +14,22 @@ const NoticeManagement = () => {
     const fetchNotices = async (page: number = 0) => {
         try {
             const pageSize = 10;
-            const response = await fetch(
-                `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/boards?page=${page}&size=${pageSize}`,
-                { credentials: 'include' }
-            );
-            if (response.ok) {
-                const data = await response.json();
-                const content = data.data.content;
-                const remainingItems = pageSize - content.length;
-                
-                // 마지막 페이지에서 빈 항목 채우기
-                if (remainingItems > 0 && content.length > 0) {
-                    const emptyItems = Array(remainingItems).fill({
-                        id: -1,
-                        title: '',
-                        content: '',
-                        createDate: ''
-                    });
-                    setNotices([...content, ...emptyItems]);
-                } else {
-                    setNotices(content);
-                }
-                
-                setTotalPages(Math.max(1, data.data.page.totalPages));
+            const { content, page: pageInfo } = await boardsApi.getPage(page, pageSize);
+            const remainingItems = pageSize - content.length;
+
+            // 마지막 페이지에서 빈 항목 채우기
+            if (remainingItems > 0 && content.length > 0) {
+                const emptyItems = Array(remainingItems).fill({
+                    id: -1,
+                    title: '',
+                    content: '',
+                    createDate: ''
+                });
+                setNotices([...content, ...emptyItems]);
+            } else {
+                setNotices(content);
             }
+            setTotalPages(Math.max(1, pageInfo.totalPages));
         } catch (error) {
             console.error('공지사항 목록 조회 실패:', error);
         }
@@ -54,27 +41,12 @@ const NoticeManagement = () => {
         }
 
         try {
-            const response = await fetch(
-                `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/boards/${noticeId}`,
-                {
-                    method: 'DELETE',
-                    credentials: 'include',
-                    headers: {
-                        'Content-Type': 'application/json',
-                    }
-                }
-            );
-
-            if (response.ok) {
-                alert('공지사항이 삭제되었습니다.');
-                fetchNotices(currentPage); // 현재 페이지 새로고침
-            } else {
-                const errorData = await response.json();
-                alert(errorData.msg || '공지사항 삭제에 실패했습니다.');
-            }
+            await boardsApi.remove(noticeId);
+            alert('공지사항이 삭제되었습니다.');
+            fetchNotices(currentPage); // 현재 페이지 새로고침
         } catch (error) {
             console.error('공지사항 삭제 실패:', error);
-            alert('공지사항 삭제 중 오류가 발생했습니다.');
+            alert(getErrorMessage(error, '공지사항 삭제에 실패했습니다.'));
         }
     };
 
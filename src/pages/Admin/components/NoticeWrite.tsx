@@ -1,5 +1,6 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { boardsApi, getErrorMessage } from '../../../api';
 
 const NoticeWrite = () => {
     const [title, setTitle] = useState('');
@@ -14,28 +15,12 @@ const NoticeWrite = () => {
         }
 
         try {
-            const response = await fetch(
-                `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/boards/create`,
-                {
-                    method: 'POST',
-                    credentials: 'include',
-                    headers: {
-                        'Content-Type': 'application/json',
-                    },
-                    body: JSON.stringify({ title, content })
-                }
-            );
-
-            if (response.ok) {
-                alert('공지사항이 등록되었습니다.');
-                navigate('/admin?tab=notices');
-            } else {
-                const errorData = await response.json();
-                alert(errorData.msg || '공지사항 등록에 실패했습니다.');
-            }
+            await boardsApi.create({ title, content });
+            alert('공지사항이 등록되었습니다.');
+            navigate('/admin?tab=notices');
         } catch (error) {
             console.error('공지사항 등록 실패:', error);
-            alert('공지사항 등록 중 오류가 발생했습니다.');
+            alert(getErrorMessage(error, '공지사항 등록에 실패했습니다.'));
         }
     };
 
@@ -1,15 +1,14 @@
 import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { getErrorMessage, reportsApi } from '../../../api';
+import { CommentTargetType } from '../../../types/Comment';
+import { Report } from '../../../types/Report';
+import { REPORT_REASON_LABELS, reportTargetPath } from '../../../utils/reports';
 
-interface Report {
-    id: number;
-    reporterId: number;
-    reporterNickname: string;
-    reportedId: number;
-    reportedNickname: string;
-    content: string;
-    status: 'ACTIVE' | 'REJECTED' | 'CONFIRMED';
-    createDate: string;
-}
+const TARGET_TYPE_LABELS: { [type in CommentTargetType]: string } = {
+    FESTIVAL_COMMENT: '축제 댓글',
+    BOARD_COMMENT: '공지사항 댓글',
+};
 
 const ReportManagement = () => {
     const [reports, setReports] = useState<Report[]>([]);
@@ -17,21 +16,9 @@ const ReportManagement = () => {
 
     const fetchReports = async () => {
         try {
-            const response = await fetch(
-                `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/reports`,
-                { 
-                    credentials: 'include',
-                    headers: {
-                        'Authorization': `Bearer ${localStorage.getItem('accessToken')}`,
-                        'Content-Type': 'application/json'
-                    }
-                }
-            );
-            if (response.ok) {
-                const data = await response.json();
-                console.log('신고 데이터:', data);  // 데이터 구조 확인
-                setReports(data.data.content || []);  // data.data.content가 없을 경우 빈 배열 사용
-            }
+            const data = await reportsApi.getPage();
+            console.log('신고 데이터:', data);  // 데이터 구조 확인
+            setReports(data.content || []);  // content가 없을 경우 빈 배열 사용
         } catch (error) {
             console.error('신고 목록 조회 실패:', error);
         }
@@ -41,28 +28,12 @@ const ReportManagement = () => {
         if (!window.confirm('이 신고를 거절하시겠습니까?')) return;
 
         try {
-            const response = await fetch(
-                `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/reports/${reportId}/reject`,
-                {
-                    method: 'PATCH',
-                    credentials: 'include',
-                    headers: {
-                        'Authorization': `Bearer ${localStorage.getItem('accessToken')}`,
-                        'Content-Type': 'application/json'
-                    }
-                }
-            );
-
-            if (response.ok) {
-                alert('신고가 거절되었습니다.');
-                fetchReports();
-            } else {
-                const errorData = await response.json();
-                alert(errorData.msg || '신고 거절에 실패했습니다.');
-            }
+            await reportsApi.reject(reportId);
+            alert('신고가 거절되었습니다.');
+            fetchReports();
         } catch (error) {
             console.error('신고 거절 실패:', error);
-            alert('신고 거절 중 오류가 발생했습니다.');
+            alert(getErrorMessage(error, '신고 거절에 실패했습니다.'));
         }
     };
 
@@ -70,28 +41,12 @@ const ReportManagement = () => {
         if (!window.confirm('이 신고를 승인하시겠습니까?')) return;
 
         try {
-            const response = await fetch(
-                `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/reports/${reportId}/confirm`,
-                {
-                    method: 'PATCH',
-                    credentials: 'include',
-                    headers: {
-                        'Authorization': `Bearer ${localStorage.getItem('accessToken')}`,
-                        'Content-Type': 'application/json'
-                    }
-                }
-            );
-
-            if (response.ok) {
-                alert('신고가 승인되었습니다.');
-                fetchReports();
-            } else {
-                const errorData = await response.json();
-                alert(errorData.msg || '신고 승인에 실패했습니다.');
-            }
+            await reportsApi.confirm(reportId);
+            alert('신고가 승인되었습니다.');
+            fetchReports();
         } catch (error) {
             console.error('신고 승인 실패:', error);
-            alert('신고 승인 중 오류가 발생했습니다.');
+            alert(getErrorMessage(error, '신고 승인에 실패했습니다.'));
         }
     };
 
@@ -143,6 +98,7 @@ const ReportManagement = () => {
                         <th className="p-4 text-left">ID</th>
                         <th className="p-4 text-left">신고자</th>
                         <th className="p-4 text-left">피신고자</th>
+                        <th className="p-4 text-left">신고 대상</th>
                         <th className="p-4 text-left">신고 내용</th>
                         <th className="p-4 text-left">상태</th>
                         <th className="p-4 text-left">신고일</th>
@@ -155,7 +111,33 @@ const ReportManagement = () => {
                             <td className="p-4">{report.id}</td>
                             <td className="p-4">{report.reporterNickname}</td>
                             <td className="p-4">{report.reportedNickname}</td>
+                            <td className="p-4 max-w-[240px]">
+                                {report.targetType ? (
+                                    <>
+                                        <p className="text-xs text-gray-500">{TARGET_TYPE_LABELS[report.targetType]}</p>
+                                        {reportTargetPath(report) ? (
+                                            <Link
+                                                to={reportTargetPath(report)!}
+                                                target="_blank"
+                                                className="block truncate text-primary hover:underline"
+                                                title={report.targetContent ?? undefined}
+                                            >
+                                                {report.targetContent || `댓글 #${report.targetId}`}
+                                            </Link>
+                                        ) : (
+                                            <p className="truncate">{report.targetContent}</p>
+                                        )}
+                                    </>
+                                ) : (
+                                    <span className="text-gray-500">회원</span>
+                                )}
+                            </td>
                             <td className="p-4 max-w-[300px] truncate" title={report.content}>
+                                {report.reason && (
+                                    <span className="mr-2 px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700">
+                                        {REPORT_REASON_LABELS[report.reason]}
+                                    </span>
+                                )}
                                 {report.content}
                             </td>
                             <td className="p-4">
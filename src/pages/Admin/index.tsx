@@ -3,6 +3,7 @@ import MemberManagement from './components/MemberManagement';
 import NoticeManagement from './components/NoticeManagement';
 import ChatRoomManagement from './components/ChatRoomManagement';
 import ReportManagement from './components/ReportManagement';
+import { boardsApi, chatRoomsApi, membersApi, reportsApi } from '../../api';
 
 interface DashboardStats {
     totalMembers: number;
@@ -22,65 +23,20 @@ const Admin = () => {
 
     const fetchDashboardStats = async () => {
         try {
-            // 공지사항 수 조회
-            const noticesResponse = await fetch(
-                `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/boards`,
-                { credentials: 'include' }
-            );
-            
-            if (noticesResponse.ok) {
-                const noticesData = await noticesResponse.json();
-                console.log('공지사항 데이터:', noticesData);  // 데이터 구조 확인
-                setStats(prevStats => ({
-                    ...prevStats,
-                    totalNotices: noticesData.data.page.totalElements
-                }));
-            }
-
-            // 회원 수 조회
-            const membersResponse = await fetch(
-                `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/members`,
-                { credentials: 'include' }
-            );
-            
-            if (membersResponse.ok) {
-                const membersData = await membersResponse.json();
-                console.log('회원 데이터:', membersData);  // 데이터 구조 확인
-                setStats(prevStats => ({
-                    ...prevStats,
-                    totalMembers: membersData.length
-                }));
-            }
-
-            // 채팅방 수 조회
-            const chatRoomsResponse = await fetch(
-                `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/posts/chat-rooms`,
-                { credentials: 'include' }
-            );
-
-            if (chatRoomsResponse.ok) {
-                const chatRoomsData = await chatRoomsResponse.json();
-                console.log('채팅방 데이터:', chatRoomsData);
-                setStats(prevStats => ({
-                    ...prevStats,
-                    totalChatRooms: chatRoomsData.content?.length || 0
-                }));
-            }
-
-            // 신고 수 조회 추가
-            const reportsResponse = await fetch(
-                `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/reports`,
-                { credentials: 'include' }
-            );
-
-            if (reportsResponse.ok) {
-                const reportsData = await reportsResponse.json();
-                setStats(prevStats => ({
-                    ...prevStats,
-                    totalReports: reportsData.data.totalElements || 0
-                }));
-            }
-
+            // 하나가 실패해도 나머지 통계는 표시
+            const [notices, members, chatRooms, reports] = await Promise.allSettled([
+                boardsApi.getPage(),        // 공지사항 수 조회
+                membersApi.getAll(),        // 회원 수 조회
+                chatRoomsApi.getPage(),     // 채팅방 수 조회
+                reportsApi.getPage()        // 신고 수 조회
+            ]);
+
+            setStats(prevStats => ({
+                totalNotices: notices.status === 'fulfilled' ? notices.value.page.totalElements : prevStats.totalNotices,
+                totalMembers: members.status === 'fulfilled' ? members.value.length : prevStats.totalMembers,
+                totalChatRooms: chatRooms.status === 'fulfilled' ? chatRooms.value.content?.length || 0 : prevStats.totalChatRooms,
+                totalReports: reports.status === 'fulfilled' ? reports.value.page?.totalElements || 0 : prevStats.totalReports
+            }));
         } catch (error) {
             console.error('통계 데이터 조회 실패:', error);
         }
@@ -1,204 +1,242 @@
-import { useEffect, useState } from 'react';
-import SearchBar from '../components/SearchBar';
-import { useNavigate } from "react-router-dom";
-
-// API 응답 데이터 타입 정의
-interface FestivalPost {
-    festivalId: string;
-    festivalName: string;
-    festivalStartDate: string;
-    festivalEndDate: string;
-    festivalUrl: string;
-    festivalArea: string;
-}
-
-// API 응답 전체 구조
-interface FestivalApiResponse {
-    content: FestivalPost[];
-    page: {
-        totalPages: number;
-        number: number; // 현재 페이지 (0부터 시작)
-    };
-}
-
+import { useState } from 'react';
+import SearchBar, { SearchType } from '../components/SearchBar';
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { FESTIVAL_GENRES, FestivalFilters, FestivalSearchWhere, postKeys, postsApi } from '../api';
+import useCurrentUser from '../hooks/useCurrentUser';
+import useUserRegion from '../hooks/useUserRegion';
+import FavoriteButton from '../components/FavoriteButton';
+import FestivalFilterPanel from '../components/FestivalFilterPanel';
+import InfiniteScroll from '../components/InfiniteScroll';
+import useInfiniteList from '../hooks/useInfiniteList';
+import useVirtualList from '../hooks/useVirtualList';
+import {
+    countPanelFilters,
+    DEFAULT_FESTIVAL_FILTERS,
+    hasAnyFilter,
+    parseFestivalFilters,
+    toFestivalSearchParams,
+    toKeySearchParams,
+} from '../utils/festivalFilters';
+import { festivalPath } from '../utils/routes';
+
+const PAGE_SIZE = 15;
+const COLUMNS = 3; // 한 줄에 보이는 카드 수 (가상 스크롤은 줄 단위)
+
+// 검색창 드롭다운 <-> 검색 API where 값
+const WHERE_BY_SEARCH_TYPE: { [type in SearchType]: FestivalSearchWhere } = {
+    '축제명+지역': 'all',
+    '축제명': 'name',
+    '지역': 'area',
+};
+const SEARCH_TYPE_BY_WHERE: { [where in FestivalSearchWhere]: SearchType } = {
+    all: '축제명+지역',
+    name: '축제명',
+    area: '지역',
+};
 
 const Festival = () => {
-    const [selectedGenre, setSelectedGenre] = useState("전체");
-    const [searchPosts, setSearchPosts] = useState<FestivalPost[]>([]);
-    const [isLoading, setIsLoading] = useState(false);
-    const [hasMore, setHasMore] = useState(true); // 더 불러올 데이터가 있는지 여부
-    const [page, setPage] = useState(0);
-    const [searchKeyword, setSearchKeyword] = useState("");
-    const [searchType, setSearchType] = useState("축제명+지역");
+    const [nearRegion, setNearRegion] = useState<string | null>(null); // "내 주변"으로 고른 지역
     const navigate = useNavigate();
-    // const [searchParams] = useSearchParams();
-    // const selectedGenre = searchParams.get("genre") || ""; // 기본값 "축제"
-
-    const genres = [
-        "전체",
-        "축제",
-        "뮤지컬",
-        "연극",
-        "서커스/마술",
-        "대중음악",
-        "국악",
-        "클래식"
-    ];
-
-    // 축제 데이터 가져오기 (페이지 스크롤링 기준 요청)
-    const fetchFestivalPosts = async (pageNumber: number, keyword = "") => {
-        // JPA 쿼리
-        // if (selectedGenre === "전체") {
-        //     url = `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/posts/all?&page=${pageNumber}&size=15`;
-        // }else {
-        //     url = keyword
-        //         ? `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/posts/search?keyword=${encodeURIComponent(keyword)}&page=${pageNumber}&size=15`
-        //         : `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/posts/select?genre=${encodeURIComponent(selectedGenre)}&page=${pageNumber}&size=15`;
-        // }
-
-        if (isLoading || !hasMore) return;
-        setIsLoading(true);
-        try {
-            let url: string = "";
-            let where = "";
-
-            // 검색 타입에 따른 where 값 설정
-            switch (searchType) {
-                case '축제명+지역':
-                    where = 'all';
-                    break;
-                case '축제명':
-                    where = 'name';
-                    break;
-                case '지역':
-                    where = 'area';
-                    break;
-            }
-
-            // 엘라스틱 검색 URL 구성
-            if (selectedGenre === "전체") {
-                if (keyword === "") {
-                    url = `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/posts/search/all?page=${pageNumber}&size=15`;
-                } else {
-                    url = `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/posts/search/key?genre=&where=${where}&keyword=${encodeURIComponent(keyword)}&page=${pageNumber}&size=15`
-                }
-            } else {
-                url = `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/posts/search/key?where=${where}&genre=${encodeURIComponent(selectedGenre)}&keyword=${encodeURIComponent(keyword)}&page=${pageNumber}&size=15`;
-            }
-
-            const response = await fetch(url);
-            if (!response.ok) {
-                throw new Error(`HTTP error! Status: ${response.status}`);
-            }
-            const data: FestivalApiResponse = await response.json();
-
-            setSearchPosts((prev) => (pageNumber === 0 ? data.content : [...prev, ...data.content]));
-            setHasMore(data.page.number + 1 < data.page.totalPages);
-            setPage(data.page.number + 1);
-        } catch (error) {
-            console.error("Error fetching festival posts:", error);
-        } finally {
-            setIsLoading(false);
-        }
+    const profileLocation = useCurrentUser()?.location?.split(" ")[0];
+    const { isLocating, locate } = useUserRegion();
+
+    // 검색 조건은 URL 에 저장 (공유/새로고침해도 같은 결과)
+    const [searchParams, setSearchParams] = useSearchParams();
+    const filterQuery = searchParams.toString();
+    const filters = parseFestivalFilters(searchParams);
+    const [isFilterOpen, setIsFilterOpen] = useState(() => countPanelFilters(filters) > 0);
+
+    const genres = ["전체", ...FESTIVAL_GENRES];
+    const isNearby = nearRegion !== null && filters.areas.includes(nearRegion);
+
+    // replace: 검색어 입력처럼 자주 바뀌는 조건은 방문 기록을 쌓지 않는다
+    const updateFilters = (changes: Partial<FestivalFilters>, replace = false) => {
+        setSearchParams(toFestivalSearchParams({ ...filters, ...changes }), { replace });
     };
 
+    // 축제 데이터 가져오기 (무한 스크롤, 검색 조건(URL)이 바뀌면 디바운스 후 처음부터, 조건별로 캐시)
+    // 엘라스틱 검색 요청 - 기간/여러 지역·장르/진행 중/정렬 조건이 있을 때만 상세 검색
+    const keySearchParams = toKeySearchParams(filters);
+    const searchPosts = useInfiniteList({
+        fetchPage: (page, signal) => {
+            if (!hasAnyFilter(filters)) return postsApi.searchAll(page, PAGE_SIZE, signal);
+            return keySearchParams
+                ? postsApi.searchByKey({ ...keySearchParams, page, size: PAGE_SIZE }, signal)
+                : postsApi.searchAdvanced(filters, page, PAGE_SIZE, signal);
+        },
+        queryKey: postKeys.list(filterQuery),
+        delay: 100, // 100ms 디바운스 적용
+        staleTime: 60 * 1000, // 상세 페이지에서 돌아오면 1분 안에는 다시 받지 않고 그대로 보여준다
+    });
+
+    // 카드가 많아져도 화면 근처 줄만 그린다
+    const rowCount = Math.ceil(searchPosts.items.length / COLUMNS);
+    const festivalRows = useVirtualList({
+        count: rowCount,
+        getKey: (row) => searchPosts.items[row * COLUMNS].festivalId,
+        estimateSize: 270,
+    });
+
+    // 장르는 여러 개 선택 가능 ("전체"는 선택 해제)
     const handleGenreClick = (genre: string) => {
-        if (selectedGenre != genre) {
-            setSelectedGenre(genre);
-            setPage(0);
-            setHasMore(true);
-            setSearchPosts([]);
+        if (genre === "전체") {
+            updateFilters({ genres: [] });
+            return;
         }
+        updateFilters({
+            genres: filters.genres.includes(genre)
+                ? filters.genres.filter((selected) => selected !== genre)
+                : [...filters.genres, genre],
+        });
     };
 
-    // 검색어 변경 시 자동 검색 (디바운스 적용)
-    useEffect(() => {
-        const delayDebounceFn = setTimeout(() => {
-            fetchFestivalPosts(0, searchKeyword);
-        }, 100); // 100ms 디바운스 적용
-
-        return () => clearTimeout(delayDebounceFn);
-    }, [searchKeyword, searchType]);
-
-    useEffect(() => {
-        fetchFestivalPosts(0, searchKeyword);
-    }, [selectedGenre])
+    // 내 주변 필터 토글 - 현재 지역을 지역 필터로 선택 (위치 권한이 없으면 마지막으로 찾은 지역 > 프로필 주소 순으로 사용)
+    const handleNearbyClick = async () => {
+        if (isNearby) {
+            updateFilters({ areas: filters.areas.filter((area) => area !== nearRegion) });
+            return;
+        }
+        const nextRegion = (await locate()) ?? profileLocation ?? null;
+        if (!nextRegion) {
+            alert("현재 위치를 확인할 수 없습니다. 위치 권한을 허용하거나 마이페이지에서 주소를 등록해주세요.");
+            return;
+        }
+        setNearRegion(nextRegion);
+        updateFilters({ areas: [nextRegion] });
+    };
 
     // 검색 실행 함수
     const handleSearch = (keyword: string, newSearchType?: string) => {
-        setSearchKeyword(keyword);
-        setSearchType(newSearchType ?? "");
-        setPage(0);
-        setHasMore(true);
+        updateFilters({
+            keyword,
+            where: WHERE_BY_SEARCH_TYPE[newSearchType as SearchType] ?? DEFAULT_FESTIVAL_FILTERS.where,
+        }, true);
+    };
+
+    // 상세 검색 패널 조건만 초기화 (검색어/장르 유지)
+    const handleResetFilters = () => {
+        const { areas, startDate, endDate, ongoing, sort } = DEFAULT_FESTIVAL_FILTERS;
+        updateFilters({ areas, startDate, endDate, ongoing, sort });
     };
 
-    // 무한 스크롤 이벤트 리스너
-    useEffect(() => {
-        const handleScroll = () => {
-            if (window.innerHeight + window.scrollY >= document.body.offsetHeight - 200 && !isLoading) {
-                fetchFestivalPosts(page, searchKeyword);
-            }
-        };
-        window.addEventListener("scroll", handleScroll);
-        return () => window.removeEventListener("scroll", handleScroll);
-    }, [page, isLoading, searchKeyword]);
+    const panelFilterCount = countPanelFilters(filters);
+    // 첫 페이지를 받기 전(디바운스 대기 포함)에는 결과 없음 대신 로딩 표시
+    const isEmpty = searchPosts.items.length === 0 && !searchPosts.isLoading && !searchPosts.error && !searchPosts.hasMore;
 
     return (
         <div className="max-w-[600px] mx-auto">
             {/* 검색창 */}
-            <SearchBar placeholder="축제, 공연을 검색해보세요" onChange={handleSearch} showSearchType={true} />
+            <SearchBar
+                placeholder="축제, 공연을 검색해보세요"
+                onChange={handleSearch}
+                showSearchType={true}
+                initialKeyword={filters.keyword}
+                initialSearchType={SEARCH_TYPE_BY_WHERE[filters.where]}
+                suggestionTypes={['festival', 'area']}
+                historyKey="festival"
+            />
 
             <div className="p-4 my-20">
                 <div className="flex overflow-x-auto gap-1 mb-4 mt-[-15px]" style={{ scrollbarWidth: 'none', msOverflowStyle: 'none' }}>
-                    {genres.map((genre) => (
+                    {genres.map((genre) => {
+                        const isSelected = genre === "전체" ? filters.genres.length === 0 : filters.genres.includes(genre);
+                        return (
+                            <button
+                                key={genre}
+                                onClick={() => handleGenreClick(genre)}
+                                className={`px-4 py-2 rounded-full text-sm whitespace-nowrap ${isSelected
+                                    ? 'bg-primary text-white'
+                                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                                    }`}
+                            >
+                                {genre}
+                            </button>
+                        );
+                    })}
+                </div>
+
+                <div className="flex justify-between items-center mb-3">
+                    <div className="flex gap-2">
+                        <button
+                            onClick={handleNearbyClick}
+                            disabled={isLocating}
+                            className={`px-3 py-1 rounded-full text-sm border ${isNearby
+                                ? 'border-primary bg-[#FFF4F1] text-primary'
+                                : 'border-gray-200 text-gray-600 hover:bg-gray-100'
+                                }`}
+                        >
+                            {isLocating ? '위치 확인 중...' : isNearby ? `내 주변 · ${nearRegion}` : '내 주변'}
+                        </button>
                         <button
-                            key={genre}
-                            onClick={() => handleGenreClick(genre)}
-                            className={`px-4 py-2 rounded-full text-sm whitespace-nowrap ${selectedGenre === genre
-                                ? 'bg-primary text-white'
-                                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                            onClick={() => setIsFilterOpen(!isFilterOpen)}
+                            className={`px-3 py-1 rounded-full text-sm border ${panelFilterCount > 0
+                                ? 'border-primary bg-[#FFF4F1] text-primary'
+                                : 'border-gray-200 text-gray-600 hover:bg-gray-100'
                                 }`}
                         >
-                            {genre}
+                            상세 검색{panelFilterCount > 0 && ` · ${panelFilterCount}`}
                         </button>
-                    ))}
+                    </div>
+                    <button className="text-sm text-primary" onClick={() => navigate('/calendar')}>
+                        캘린더로 보기
+                    </button>
                 </div>
 
-                {searchPosts && searchPosts.length > 0 ? (
-                    <div className="grid grid-cols-3 gap-3">
-                        {searchPosts.map((searchPost) => (
-                            <div key={searchPost.festivalId}
-                                className="bg-white rounded-lg shadow-md overflow-hidden flex flex-col"
-                                onClick={() => navigate(`/detailposts?id=${encodeURIComponent(searchPost.festivalId)}`)}
-                            >
-                                {/* 이미지 영역 */}
-                                <div className="relative pb-[90%]">
-                                    <img
-                                        src={searchPost.festivalUrl || "https://via.placeholder.com/150"}
-                                        alt={searchPost.festivalName}
-                                        className="absolute inset-0 w-full h-full object-cover bg-gray-200"
-                                    />
-                                </div>
-                                {/* 텍스트 영역 */}
-                                <div className="p-2">
-                                    <h3 className="text-sm font-medium leading-tight line-clamp-2">{searchPost.festivalName}</h3>
-                                    <p className="text-xs text-gray-500 mt-1 mb-[-10px]">{searchPost.festivalArea}</p>
-                                </div>
-                                {/* 날짜 영역을 카드 하단에 고정 */}
-                                <div className="p-2 text-xs text-gray-500 bg-white mt-auto">
-                                    <p>
-                                        {searchPost.festivalStartDate?.replace(/-/g, '.')} - {searchPost.festivalEndDate?.replace(/-/g, '.')}
-                                    </p>
-                                </div>
-                            </div>
-                        ))}
-                    </div>
-                ) : (
-                    <div className="text-center py-8">
-                        <p className="text-gray-500">검색된 축제 / 공연이 없습니다</p>
-                    </div>
+                {isFilterOpen && (
+                    <FestivalFilterPanel
+                        filters={filters}
+                        onChange={(changes) => updateFilters(changes)}
+                        onReset={handleResetFilters}
+                    />
                 )}
-                {isLoading && <p className="text-center text-gray-500 mt-4">Loading...</p>}
+
+                <InfiniteScroll
+                    hasMore={searchPosts.hasMore}
+                    isLoading={searchPosts.isLoading}
+                    error={searchPosts.error}
+                    onLoadMore={searchPosts.loadMore}
+                    onRetry={searchPosts.retry}
+                >
+                    {searchPosts.items.length > 0 ? (
+                        <div ref={festivalRows.listRef} style={festivalRows.listStyle}>
+                            {festivalRows.virtualItems.map(({ index: row, key }) => (
+                                <div key={key} ref={festivalRows.measureRef(key)} className="grid grid-cols-3 gap-3 pb-3">
+                                    {searchPosts.items.slice(row * COLUMNS, (row + 1) * COLUMNS).map((searchPost) => (
+                                        <div key={searchPost.festivalId}
+                                            className="bg-white rounded-lg shadow-md overflow-hidden flex flex-col"
+                                            onClick={() => navigate(festivalPath(searchPost.festivalId))}
+                                        >
+                                            {/* 이미지 영역 */}
+                                            <div className="relative pb-[90%]">
+                                                <img
+                                                    src={searchPost.festivalUrl || "https://via.placeholder.com/150"}
+                                                    alt={searchPost.festivalName}
+                                                    className="absolute inset-0 w-full h-full object-cover bg-gray-200"
+                                                />
+                                                <FavoriteButton festival={searchPost} className="absolute top-1 right-1" size={16} />
+                                            </div>
+                                            {/* 텍스트 영역 */}
+                                            <div className="p-2">
+                                                <h3 className="text-sm font-medium leading-tight line-clamp-2">{searchPost.festivalName}</h3>
+                                                <p className="text-xs text-gray-500 mt-1 mb-[-10px]">{searchPost.festivalArea}</p>
+                                            </div>
+                                            {/* 날짜 영역을 카드 하단에 고정 */}
+                                            <div className="p-2 text-xs text-gray-500 bg-white mt-auto">
+                                                <p>
+                                                    {searchPost.festivalStartDate?.replace(/-/g, '.')} - {searchPost.festivalEndDate?.replace(/-/g, '.')}
+                                                </p>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            ))}
+                        </div>
+                    ) : isEmpty && (
+                        <div className="text-center py-8">
+                            <p className="text-gray-500">검색된 축제 / 공연이 없습니다</p>
+                        </div>
+                    )}
+                </InfiniteScroll>
             </div>
         </div>
     );
@@ -0,0 +1,91 @@
+// src/pages/FestivalCalendar/calendarUtils.ts
+import { Festival } from '../../types/Festival';
+
+export type CalendarView = 'month' | 'week';
+
+// 한 주 안에서 축제 기간을 막대로 그리기 위한 위치 정보
+export interface FestivalBar {
+    festival: Festival;
+    startCol: number; // 0(일) ~ 6(토)
+    span: number;
+    lane: number; // 위에서부터 몇 번째 줄인지
+    continuesBefore: boolean; // 지난 주부터 이어지는 기간
+    continuesAfter: boolean; // 다음 주로 이어지는 기간
+}
+
+export const WEEKDAYS = ['일', '월', '화', '수', '목', '금', '토'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const addDays = (date: Date, days: number) =>
+    new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+export const startOfWeek = (date: Date) => addDays(date, -date.getDay());
+
+export const isSameDay = (a: Date, b: Date) =>
+    a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+
+// 날짜 차이 (일 단위, 서머타임 등으로 인한 오차 보정)
+const diffDays = (from: Date, to: Date) => Math.round((to.getTime() - from.getTime()) / DAY_MS);
+
+// yyyy-MM-dd (API 파라미터 형식)
+export const toDateParam = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// "2025-01-31" / "2025.01.31" 모두 로컬 날짜로 변환
+export const parseFestivalDate = (value: string) => {
+    const [year, month, day] = value.split(/[-.]/).map(Number);
+    return new Date(year, month - 1, day);
+};
+
+// 화면에 그릴 주 목록 (월간: 1일이 포함된 주 ~ 말일이 포함된 주, 주간: 기준일이 포함된 주)
+export const getCalendarWeeks = (view: CalendarView, cursor: Date): Date[][] => {
+    const first = view === 'month'
+        ? startOfWeek(new Date(cursor.getFullYear(), cursor.getMonth(), 1))
+        : startOfWeek(cursor);
+    const last = view === 'month'
+        ? startOfWeek(new Date(cursor.getFullYear(), cursor.getMonth() + 1, 0))
+        : first;
+
+    const weeks: Date[][] = [];
+    for (let weekStart = first; weekStart <= last; weekStart = addDays(weekStart, 7)) {
+        weeks.push(Array.from({ length: 7 }, (_, i) => addDays(weekStart, i)));
+    }
+    return weeks;
+};
+
+// 한 주에 걸친 축제들을 겹치지 않는 줄에 배치
+export const layoutWeek = (week: Date[], festivals: Festival[]): FestivalBar[] => {
+    const weekStart = week[0];
+    const weekEnd = week[week.length - 1];
+
+    const inWeek = festivals
+        .map((festival) => ({
+            festival,
+            start: parseFestivalDate(festival.festivalStartDate),
+            end: parseFestivalDate(festival.festivalEndDate || festival.festivalStartDate),
+        }))
+        .filter(({ start, end }) => start <= weekEnd && end >= weekStart)
+        // 먼저 시작하는 축제, 같으면 긴 축제를 위쪽 줄에
+        .sort((a, b) => a.start.getTime() - b.start.getTime() || b.end.getTime() - a.end.getTime());
+
+    const laneEnds: number[] = []; // 줄마다 마지막으로 차지한 열
+    return inWeek.map(({ festival, start, end }) => {
+        const startCol = Math.max(0, diffDays(weekStart, start));
+        const endCol = Math.min(6, diffDays(weekStart, end));
+        let lane = laneEnds.findIndex((laneEnd) => laneEnd < startCol);
+        if (lane === -1) {
+            lane = laneEnds.length;
+        }
+        laneEnds[lane] = endCol;
+
+        return {
+            festival,
+            startCol,
+            span: endCol - startCol + 1,
+            lane,
+            continuesBefore: start < weekStart,
+            continuesAfter: end > weekEnd,
+        };
+    });
+};
@@ -0,0 +1,80 @@
+// src/pages/FestivalCalendar/components/WeekRow.tsx
+import { Festival } from '../../../types/Festival';
+import { isSameDay, layoutWeek } from '../calendarUtils';
+
+interface WeekRowProps {
+    week: Date[];
+    festivals: Festival[];
+    currentMonth: number | null; // 월간 보기에서 다른 달 날짜를 흐리게 표시 (주간 보기는 null)
+    maxLanes?: number; // 넘치는 축제는 "+n" 으로 표시
+    onFestivalClick: (festival: Festival) => void;
+    onMoreClick: (date: Date) => void;
+}
+
+const WeekRow = ({ week, festivals, currentMonth, maxLanes, onFestivalClick, onMoreClick }: WeekRowProps) => {
+    const today = new Date();
+    const bars = layoutWeek(week, festivals);
+    const visibleBars = maxLanes === undefined ? bars : bars.filter((bar) => bar.lane < maxLanes);
+
+    // 날짜별로 가려진 축제 수
+    const hiddenCounts = week.map((_, col) =>
+        bars.filter((bar) => bar.lane >= (maxLanes ?? Infinity) && bar.startCol <= col && col < bar.startCol + bar.span).length
+    );
+
+    return (
+        <div className={`border-b border-gray-100 ${currentMonth === null ? 'min-h-[300px]' : 'min-h-[112px]'}`}>
+            {/* 날짜 */}
+            <div className="grid grid-cols-7">
+                {week.map((date) => (
+                    <div key={date.getTime()} className="px-1 pt-1 text-xs text-center">
+                        <span className={`inline-flex items-center justify-center w-6 h-6 rounded-full ${isSameDay(date, today)
+                            ? 'bg-primary text-white'
+                            : currentMonth !== null && date.getMonth() !== currentMonth
+                                ? 'text-gray-300'
+                                : date.getDay() === 0 ? 'text-red-400' : date.getDay() === 6 ? 'text-blue-400' : 'text-gray-700'
+                            }`}>
+                            {date.getDate()}
+                        </span>
+                    </div>
+                ))}
+            </div>
+
+            {/* 축제 기간 막대 */}
+            <div className="grid grid-cols-7 gap-y-1 py-1" style={{ gridAutoRows: '20px' }}>
+                {visibleBars.map((bar) => (
+                    <button
+                        key={bar.festival.festivalId}
+                        title={`${bar.festival.festivalName} (${bar.festival.festivalStartDate?.replace(/-/g, '.')} - ${bar.festival.festivalEndDate?.replace(/-/g, '.')})`}
+                        onClick={() => onFestivalClick(bar.festival)}
+                        className={`mx-0.5 px-2 text-[11px] text-left truncate bg-[#FFF4F1] text-[#FF6B36] hover:bg-[#FFE4DA] transition-colors duration-200
+                            ${bar.continuesBefore ? 'rounded-l-none ml-0' : 'rounded-l-md'}
+                            ${bar.continuesAfter ? 'rounded-r-none mr-0' : 'rounded-r-md'}`}
+                        style={{ gridColumn: `${bar.startCol + 1} / span ${bar.span}`, gridRow: bar.lane + 1 }}
+                    >
+                        {bar.festival.festivalName}
+                    </button>
+                ))}
+            </div>
+
+            {/* 더보기 */}
+            {hiddenCounts.some((count) => count > 0) && (
+                <div className="grid grid-cols-7 pb-1">
+                    {hiddenCounts.map((count, col) => (
+                        <div key={col} className="text-center">
+                            {count > 0 && (
+                                <button
+                                    className="text-[11px] text-gray-500 hover:text-primary"
+                                    onClick={() => onMoreClick(week[col])}
+                                >
+                                    +{count}
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default WeekRow;
@@ -0,0 +1,155 @@
+// src/pages/FestivalCalendar/index.tsx
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { FESTIVAL_GENRES, postsApi } from '../../api';
+import { Festival } from '../../types/Festival';
+import WeekRow from './components/WeekRow';
+import { addDays, CalendarView, getCalendarWeeks, toDateParam, WEEKDAYS } from './calendarUtils';
+import { festivalPath } from '../../utils/routes';
+
+const MONTH_MAX_LANES = 3; // 월간 보기에서 한 주에 보여줄 축제 줄 수
+
+const genres = ["전체", ...FESTIVAL_GENRES];
+
+const FestivalCalendar = () => {
+    const navigate = useNavigate();
+    const [view, setView] = useState<CalendarView>('month');
+    const [cursor, setCursor] = useState(() => new Date()); // 보고 있는 달/주의 기준일
+    const [selectedGenre, setSelectedGenre] = useState("전체");
+    const [festivals, setFestivals] = useState<Festival[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+
+    const weeks = getCalendarWeeks(view, cursor);
+    const startDate = toDateParam(weeks[0][0]);
+    const endDate = toDateParam(weeks[weeks.length - 1][6]);
+
+    // 화면에 보이는 기간의 축제 가져오기
+    useEffect(() => {
+        let ignore = false; // 기간/장르를 빠르게 바꿨을 때 이전 응답 무시
+
+        const fetchFestivals = async () => {
+            setIsLoading(true);
+            try {
+                const data = await postsApi.searchByPeriod({
+                    startDate,
+                    endDate,
+                    genre: selectedGenre === "전체" ? "" : selectedGenre,
+                });
+                if (!ignore) setFestivals(data);
+            } catch (error) {
+                console.error("Error fetching calendar festivals:", error);
+                if (!ignore) setFestivals([]);
+            } finally {
+                if (!ignore) setIsLoading(false);
+            }
+        };
+
+        fetchFestivals();
+        return () => {
+            ignore = true;
+        };
+    }, [startDate, endDate, selectedGenre]);
+
+    const handleMove = (direction: 1 | -1) => {
+        setCursor((prev) => view === 'month'
+            ? new Date(prev.getFullYear(), prev.getMonth() + direction, 1)
+            : addDays(prev, 7 * direction));
+    };
+
+    // 넘친 축제는 해당 날짜가 포함된 주간 보기에서 모두 표시
+    const handleMoreClick = (date: Date) => {
+        setCursor(date);
+        setView('week');
+    };
+
+    const title = view === 'month'
+        ? `${cursor.getFullYear()}년 ${cursor.getMonth() + 1}월`
+        : `${weeks[0][0].getMonth() + 1}월 ${weeks[0][0].getDate()}일 - ${weeks[0][6].getMonth() + 1}월 ${weeks[0][6].getDate()}일`;
+
+    return (
+        <div className="max-w-[600px] mx-auto p-4 mt-4">
+            {/* 기간 이동 & 보기 전환 */}
+            <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-2">
+                    <button
+                        className="w-8 h-8 rounded-full hover:bg-gray-100 text-gray-500"
+                        onClick={() => handleMove(-1)}
+                        aria-label="이전"
+                    >
+                        &lt;
+                    </button>
+                    <h2 className="text-lg font-bold min-w-[150px] text-center">{title}</h2>
+                    <button
+                        className="w-8 h-8 rounded-full hover:bg-gray-100 text-gray-500"
+                        onClick={() => handleMove(1)}
+                        aria-label="다음"
+                    >
+                        &gt;
+                    </button>
+                    <button
+                        className="text-sm text-primary ml-1"
+                        onClick={() => setCursor(new Date())}
+                    >
+                        오늘
+                    </button>
+                </div>
+                <div className="flex rounded-full bg-gray-100 p-1 text-sm">
+                    {([['month', '월'], ['week', '주']] as const).map(([value, label]) => (
+                        <button
+                            key={value}
+                            className={`px-3 py-1 rounded-full ${view === value ? 'bg-white text-primary shadow-sm' : 'text-gray-500'}`}
+                            onClick={() => setView(value)}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {/* 장르 필터 */}
+            <div className="flex overflow-x-auto gap-1 mb-4" style={{ scrollbarWidth: 'none', msOverflowStyle: 'none' }}>
+                {genres.map((genre) => (
+                    <button
+                        key={genre}
+                        onClick={() => setSelectedGenre(genre)}
+                        className={`px-4 py-2 rounded-full text-sm whitespace-nowrap ${selectedGenre === genre
+                            ? 'bg-primary text-white'
+                            : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                            }`}
+                    >
+                        {genre}
+                    </button>
+                ))}
+            </div>
+
+            {/* 달력 */}
+            <div className="border border-gray-100 rounded-lg overflow-hidden">
+                <div className="grid grid-cols-7 bg-gray-50 text-xs text-gray-500">
+                    {WEEKDAYS.map((weekday) => (
+                        <div key={weekday} className="py-2 text-center">{weekday}</div>
+                    ))}
+                </div>
+                {weeks.map((week) => (
+                    <WeekRow
+                        key={week[0].getTime()}
+                        week={week}
+                        festivals={festivals}
+                        currentMonth={view === 'month' ? cursor.getMonth() : null}
+                        maxLanes={view === 'month' ? MONTH_MAX_LANES : undefined}
+                        onFestivalClick={(festival) => navigate(festivalPath(festival.festivalId))}
+                        onMoreClick={handleMoreClick}
+                    />
+                ))}
+            </div>
+
+            {isLoading && <p className="text-center text-gray-500 mt-4">Loading...</p>}
+            {!isLoading && festivals.length === 0 && (
+                <div className="text-center py-8">
+                    <p className="text-gray-500">이 기간에 진행하는 축제 / 공연이 없습니다</p>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default FestivalCalendar;
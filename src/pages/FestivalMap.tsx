@@ -1,16 +1,162 @@
+import { useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
 import KakaoMap from "../components/KakaoMap";
+import { getRegionFromCoordinates, toShortRegionName } from "../components/KakaoMap/kakaoMapService";
+import type { KakaoMap as KakaoMapInstance } from "../kakao.maps";
+import { fetchQuery, postKeys, postsApi } from "../api";
+import { Festival } from "../types/Festival";
+import { festivalPath } from "../utils/routes";
+
+const MAP_FESTIVAL_SIZE = 50; // 지역별로 지도에 표시할 최대 축제 수
+const MAP_STALE_TIME = 5 * 60 * 1000; // 지도를 움직이다 같은 지역으로 돌아오면 다시 받지 않는다
+const REGION_GRID = 3; // 화면에 걸친 지역을 찾을 때 가로/세로로 확인할 지점 수
+const COUNTRY_LEVEL = 11; // 이 레벨 이상으로 축소하면 전국이 보이므로 축제를 표시하지 않는다 (위치 검색이 너무 많아진다)
+const MAX_VIEWPORT_REGIONS = 4; // 한 번에 조회할 최대 지역 수 (화면 중심에 가까운 지역부터)
+const MAX_TITLE_REGIONS = 3;
+
+// 지도 화면에 걸친 시/도 (축제 검색 지역과 같은 짧은 이름, "서울특별시" -> "서울")
+const getViewportRegions = async (map: KakaoMapInstance) => {
+    const bounds = map.getBounds();
+    const sw = bounds.getSouthWest();
+    const ne = bounds.getNorthEast();
+    const points = Array.from({ length: REGION_GRID * REGION_GRID }, (_, index) => {
+        const row = Math.floor(index / REGION_GRID) / (REGION_GRID - 1);
+        const col = (index % REGION_GRID) / (REGION_GRID - 1);
+        return {
+            lat: sw.getLat() + (ne.getLat() - sw.getLat()) * row,
+            lng: sw.getLng() + (ne.getLng() - sw.getLng()) * col,
+        };
+    });
+    // 바다 위 등 행정구역이 없는 지점은 건너뛴다
+    const center = map.getCenter();
+    const results = await Promise.allSettled([
+        getRegionFromCoordinates(center.getLat(), center.getLng()),
+        ...points.map(({ lat, lng }) => getRegionFromCoordinates(lat, lng)),
+    ]);
+    const regions = results.flatMap((result) => (result.status === "fulfilled" ? [toShortRegionName(result.value)] : []));
+    return [...new Set(regions)].slice(0, MAX_VIEWPORT_REGIONS);
+};
+
+const formatRegions = (regions: string[]) =>
+    regions.length > MAX_TITLE_REGIONS
+        ? `${regions.slice(0, MAX_TITLE_REGIONS).join(", ")} 외 ${regions.length - MAX_TITLE_REGIONS}곳`
+        : regions.join(", ");
 
 const Map = () => {
+    const navigate = useNavigate();
+    const [festivals, setFestivals] = useState<Festival[]>([]);
+    const [regions, setRegions] = useState<string[]>([]);
+    const [selectedFestival, setSelectedFestival] = useState<Festival | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isZoomedOut, setIsZoomedOut] = useState(false);
+    const requestIdRef = useRef(0); // idle 이벤트가 연달아 오면 마지막 화면의 결과만 사용
+
+    // 지도를 움직일 때마다 화면에 걸친 지역(최대 MAX_VIEWPORT_REGIONS 곳)의 축제 조회 (지역별로 캐시)
+    const handleIdle = async (map: KakaoMapInstance) => {
+        const requestId = ++requestIdRef.current;
+        const zoomedOut = map.getLevel() >= COUNTRY_LEVEL;
+        setIsZoomedOut(zoomedOut);
+        if (zoomedOut) {
+            setRegions([]);
+            setFestivals([]);
+            setSelectedFestival(null);
+            setIsLoading(false);
+            return;
+        }
+
+        setIsLoading(true);
+        try {
+            const nextRegions = await getViewportRegions(map);
+            if (requestId !== requestIdRef.current) return;
+            setRegions(nextRegions);
+
+            const pages = await Promise.all(nextRegions.map((area) =>
+                fetchQuery(postKeys.mapByArea(area), () => postsApi.searchByKey({
+                    where: 'area',
+                    genre: '',
+                    keyword: area,
+                    page: 0,
+                    size: MAP_FESTIVAL_SIZE,
+                }), { staleTime: MAP_STALE_TIME })
+            ));
+            // 그 사이 지도를 다시 움직였다면 무시
+            if (requestId !== requestIdRef.current) return;
+            // 지역이 겹쳐 같은 축제가 여러 번 올 수 있다
+            const seenIds = new Set<Festival["festivalId"]>();
+            const nextFestivals = pages.flatMap((page) => page.content).filter((festival) => {
+                if (seenIds.has(festival.festivalId)) return false;
+                seenIds.add(festival.festivalId);
+                return true;
+            });
+            setFestivals(nextFestivals);
+            setSelectedFestival((selected) =>
+                selected && nextFestivals.some((festival) => festival.festivalId === selected.festivalId) ? selected : null);
+        } catch (error) {
+            console.error("Error fetching map festivals:", error);
+        } finally {
+            if (requestId === requestIdRef.current) setIsLoading(false);
+        }
+    };
+
+    const regionLabel = formatRegions(regions);
+
     return (
-        <div className="flex flex-col min-h-screen">
-            <main className="flex-1 mt-16 mb-16">
-                <div className="max-w-[600px] lg:max-w-screen-lg mx-auto lg:py-6">
-                    <div className="bg-white lg:rounded-2xl lg:shadow-md p-6">
-                        <h1 className="text-2xl font-bold text-center mb-4">카카오 지도</h1>
-                        <KakaoMap />
+        <div className="p-4 lg:p-6">
+            <div className="flex items-center justify-between mb-4">
+                <h1 className="text-lg font-bold">{regionLabel ? `${regionLabel}의 축제 / 공연` : '축제 지도'}</h1>
+                {isLoading && <p className="text-sm text-gray-500">Loading...</p>}
+            </div>
+
+            <div className="relative">
+                <KakaoMap
+                    festivals={festivals}
+                    onIdle={handleIdle}
+                    onFestivalClick={setSelectedFestival}
+                />
+
+                {/* 선택한 축제 미리보기 */}
+                {selectedFestival && (
+                    <div className="absolute left-3 right-3 bottom-3 z-10 bg-white rounded-lg shadow-md flex overflow-hidden">
+                        <img
+                            src={selectedFestival.festivalUrl || "https://via.placeholder.com/150"}
+                            alt={selectedFestival.festivalName}
+                            className="w-24 h-28 object-cover bg-gray-200 flex-shrink-0"
+                        />
+                        <div className="flex-1 min-w-0 p-3 flex flex-col">
+                            <div className="flex items-start justify-between gap-2">
+                                <h3 className="text-sm font-medium leading-tight line-clamp-2">{selectedFestival.festivalName}</h3>
+                                <button
+                                    className="text-gray-400 hover:text-gray-600 text-sm"
+                                    onClick={() => setSelectedFestival(null)}
+                                    aria-label="닫기"
+                                >
+                                    ✕
+                                </button>
+                            </div>
+                            <p className="text-xs text-gray-500 mt-1 truncate">
+                                {selectedFestival.festivalArea}
+                                {selectedFestival.festivalHallName && ` · ${selectedFestival.festivalHallName}`}
+                            </p>
+                            <p className="text-xs text-gray-500 mt-1">
+                                {selectedFestival.festivalStartDate?.replace(/-/g, '.')} - {selectedFestival.festivalEndDate?.replace(/-/g, '.')}
+                            </p>
+                            <button
+                                className="mt-auto self-end text-sm text-primary"
+                                onClick={() => navigate(festivalPath(selectedFestival.festivalId))}
+                            >
+                                상세보기
+                            </button>
+                        </div>
                     </div>
-                </div>
-            </main>
+                )}
+            </div>
+
+            {isZoomedOut && (
+                <p className="text-center text-gray-500 mt-4">지도를 확대하면 축제 / 공연이 표시됩니다</p>
+            )}
+            {!isLoading && regionLabel && festivals.length === 0 && (
+                <p className="text-center text-gray-500 mt-4">{regionLabel}에서 진행하는 축제 / 공연이 없습니다</p>
+            )}
         </div>
     );
 };
@@ -1,12 +1,7 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import AuthHeader from '../components/AuthHeader';
-
-
-interface EmailInfo {
-    maskedEmail: string;
-    createdAt: string;
-}
+import { authApi, EmailInfo, getErrorMessage } from '../api';
 
 const FindAccount = () => {
     const navigate = useNavigate();
@@ -17,23 +12,11 @@ const FindAccount = () => {
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         try {
-            const response = await fetch(`${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/auth/find-account`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ phoneNumber })
-            });
-
-            if (response.ok) {
-                const rsData = await response.json();
-                console.log('서버 응답:', rsData);
-                setFoundEmails(rsData.data.emailInfos);
-                setShowResults(true);
-            } else {
-                const errorData = await response.json();
-                alert(errorData.msg || '등록된 계정을 찾을 수 없습니다.');
-            }
+            const { emailInfos } = await authApi.findAccount(phoneNumber);
+            setFoundEmails(emailInfos);
+            setShowResults(true);
         } catch (error) {
-            alert('서버 연결에 실패했습니다.');
+            alert(getErrorMessage(error, '등록된 계정을 찾을 수 없습니다.'));
         }
     };
 
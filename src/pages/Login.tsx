@@ -5,12 +5,10 @@ import googleSimpleIcon from '../assets/images/google_simple_icon.png';
 import naverSimpleIcon from '../assets/images/naver_simple_icon.png';
 import githubSimpleIcon from '../assets/images/github_simple_icon.png';
 import { Link, useNavigate, useLocation } from 'react-router-dom';
+import { getErrorMessage } from '../api';
+import useSession from '../hooks/useSession';
 
-interface LoginProps {
-    setIsLoggedIn: React.Dispatch<React.SetStateAction<boolean>>;
-}
-
-const Login: React.FC<LoginProps> = ({ setIsLoggedIn }) => {
+const Login = () => {
     const socialLoginForKakaoUrl = import.meta.env.VITE_CORE_API_BASE_URL + `/oauth2/authorization/kakao`; // 카카오 로그인 요청 URL
     const socialLoginForGoogleUrl = import.meta.env.VITE_CORE_API_BASE_URL + `/oauth2/authorization/google`; // 구글 로그인 요청 URL
     const socialLoginForNaverUrl = import.meta.env.VITE_CORE_API_BASE_URL + `/oauth2/authorization/naver`;  // 네이버 로그인 요청 URL
@@ -18,6 +16,7 @@ const Login: React.FC<LoginProps> = ({ setIsLoggedIn }) => {
     const redirectUrlAfterSocialLogin = import.meta.env.VITE_CORE_FRONT_BASE_URL; // 카카오 로그인 후 리다이렉트 URL
     const navigate = useNavigate();
     const location = useLocation();
+    const { login } = useSession();
 
     // from 파라미터 추출
     const from = location.state?.from?.pathname || '/';
@@ -38,55 +37,17 @@ const Login: React.FC<LoginProps> = ({ setIsLoggedIn }) => {
     const handleLogin = async (e: React.FormEvent) => {
         e.preventDefault();
         try {
-            const response = await fetch(
-                `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/auth/login`,
-                {
-                    method: 'POST',
-                    credentials: 'include',
-                    headers: {
-                        'Content-Type': 'application/json',
-                    },
-                    body: JSON.stringify({ email, password })
-                }
-            );
-
-            if (response.ok) {
-                const data = await response.json();
-                localStorage.setItem('accessToken', data.data.accessToken);
-                localStorage.setItem('refreshToken', data.data.refreshToken);
-                if (saveEmail) {
-                    localStorage.setItem('savedEmail', email);
-                } else {
-                    localStorage.removeItem('savedEmail');
-                }
-
-                // 사용자 정보 즉시 조회
-                const userResponse = await fetch(
-                    `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/auth/me`,
-                    {
-                        credentials: 'include',
-                        headers: {
-                            'Authorization': `Bearer ${data.data.accessToken}`,
-                            'Content-Type': 'application/json',
-                        }
-                    }
-                );
-
-                if (userResponse.ok) {
-                    const userData = await userResponse.json();
-                    localStorage.setItem('userInfo', JSON.stringify(userData));
-                    localStorage.setItem('isLoggedIn', 'true');
-                    setIsLoggedIn(true);
-                    navigate(from, { replace: true });
-                    window.location.reload();
-                }
+            await login(email, password);
+            if (saveEmail) {
+                localStorage.setItem('savedEmail', email);
             } else {
-                const errorData = await response.json();
-                alert(errorData.msg || '로그인에 실패했습니다.');
+                localStorage.removeItem('savedEmail');
             }
+
+            navigate(from, { replace: true });
         } catch (error) {
             console.error('Login error:', error);
-            alert('로그인 중 오류가 발생했습니다.');
+            alert(getErrorMessage(error, '로그인에 실패했습니다.'));
         }
     };
 
@@ -0,0 +1,85 @@
+// src/pages/MeetingDetail.tsx
+import { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { chatRoomKeys, chatRoomsApi, postKeys, postsApi } from '../api';
+import MeetingRoomList from '../components/MeetingRoom';
+import ShareSheet from '../components/ShareSheet';
+import useDocumentMeta from '../hooks/useDocumentMeta';
+import useQuery from '../hooks/useQuery';
+import { festivalPath } from '../utils/routes';
+import { meetingShareContent } from '../utils/share';
+
+// 공유 링크(/meetings/:chatRoomId)로 들어오는 모임 페이지
+const MeetingDetail = () => {
+    const chatRoomId = useParams<{ chatRoomId: string }>().chatRoomId ?? '';
+    const navigate = useNavigate();
+    const [isShareOpen, setIsShareOpen] = useState(false);
+
+    const roomQuery = useQuery(
+        chatRoomKeys.detail(chatRoomId),
+        () => chatRoomsApi.getDetail(chatRoomId),
+        { enabled: Boolean(chatRoomId) }
+    );
+    const room = roomQuery.data;
+
+    // 모임 응답에는 축제 이름만 있어서 이름으로 축제를 찾는다 (포스터/일정/링크에 사용)
+    const festivalName = room?.festivalName ?? '';
+    const festivalQuery = useQuery(
+        postKeys.search(festivalName, 0, 10),
+        () => postsApi.search(festivalName, 0, 10),
+        { enabled: Boolean(festivalName), staleTime: 5 * 60 * 1000 }
+    );
+    const festival = festivalQuery.data?.content.find((item) => item.festivalName === festivalName) ?? null;
+
+    const shareContent = room ? meetingShareContent(room, festival) : null;
+    useDocumentMeta(shareContent && {
+        title: shareContent.title,
+        description: shareContent.description,
+        image: shareContent.imageUrl,
+        url: shareContent.url,
+    });
+
+    if (roomQuery.isLoading) return <p className="text-center text-gray-500 mt-4">Loading...</p>;
+    if (!room) {
+        return (
+            <div className="text-center py-8">
+                <p className="text-gray-500">모임을 찾을 수 없습니다</p>
+                <button className="mt-2 text-sm text-primary" onClick={() => navigate('/chatroom')}>
+                    모임 목록으로
+                </button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="max-w-[600px] mx-auto p-4">
+            <div className="flex justify-between items-center mb-4">
+                <button
+                    className="text-lg font-bold text-left truncate"
+                    onClick={() => festival && navigate(festivalPath(festival.festivalId))}
+                    disabled={!festival}
+                >
+                    {room.festivalName}
+                </button>
+                <button
+                    className="text-sm text-primary border border-primary rounded-full px-3 py-1 hover:bg-[#FFF4F1] flex-shrink-0"
+                    onClick={() => setIsShareOpen(true)}
+                >
+                    공유하기
+                </button>
+            </div>
+
+            <MeetingRoomList
+                rooms={[room]}
+                onRoomsChanged={roomQuery.refetch}
+                festival={festival ?? undefined}
+            />
+
+            {isShareOpen && shareContent && (
+                <ShareSheet content={shareContent} onClose={() => setIsShareOpen(false)} />
+            )}
+        </div>
+    );
+};
+
+export default MeetingDetail;
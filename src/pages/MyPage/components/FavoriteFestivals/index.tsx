@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import FavoriteButton from '../../../../components/FavoriteButton';
+import useFavorites from '../../../../hooks/useFavorites';
+import { Festival } from '../../../../types/Festival';
+import { festivalPath } from '../../../../utils/routes';
+
+type SortOption = 'upcoming' | 'endingSoon';
+
+const SORT_LABELS: { [key in SortOption]: string } = {
+    upcoming: '다가오는 순',
+    endingSoon: '마감 임박 순',
+};
+
+// 축제 날짜는 한국 기준이므로 오늘도 한국 날짜로 비교 ("yyyy-MM-dd" 문자열끼리 비교)
+const getTodayInSeoul = () => new Date().toLocaleDateString('sv-SE', { timeZone: 'Asia/Seoul' });
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const getStatusLabel = (festival: Festival, today: string) => {
+    if (festival.festivalEndDate < today) return '종료';
+    if (festival.festivalStartDate <= today) return '진행중';
+    const days = Math.round((Date.parse(festival.festivalStartDate) - Date.parse(today)) / DAY_MS);
+    return `D-${days}`;
+};
+
+// 종료된 축제는 정렬 기준과 상관없이 맨 아래로
+const sortFavorites = (favorites: Festival[], sortOption: SortOption, today: string) => {
+    const key = sortOption === 'upcoming' ? 'festivalStartDate' : 'festivalEndDate';
+    return [...favorites].sort((a, b) => {
+        const aEnded = a.festivalEndDate < today;
+        const bEnded = b.festivalEndDate < today;
+        if (aEnded !== bEnded) return aEnded ? 1 : -1;
+        return a[key].localeCompare(b[key]);
+    });
+};
+
+export default function FavoriteFestivals() {
+    const navigate = useNavigate();
+    const { favorites, isLoading } = useFavorites();
+    const [sortOption, setSortOption] = useState<SortOption>('upcoming');
+
+    const today = getTodayInSeoul();
+    const sortedFavorites = sortFavorites(favorites, sortOption, today);
+
+    return (
+        <div className="bg-white rounded-lg shadow-md p-6">
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-semibold">찜한 축제 {favorites.length}</h2>
+                <div className="flex gap-2">
+                    {(Object.keys(SORT_LABELS) as SortOption[]).map((option) => (
+                        <button
+                            key={option}
+                            className={`text-sm px-3 py-1 rounded-full border ${sortOption === option
+                                ? "text-[#FF6B36] border-[#FF6B36] bg-[#FFF4F1]"
+                                : "text-gray-500 border-gray-200 hover:bg-gray-100"
+                                }`}
+                            onClick={() => setSortOption(option)}
+                        >
+                            {SORT_LABELS[option]}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <p className="text-xs text-gray-400 mb-4">찜한 축제가 시작하기 전에 알림으로 알려드려요.</p>
+
+            {isLoading ? (
+                <p className="text-center text-gray-500 mt-4">Loading...</p>
+            ) : sortedFavorites.length > 0 ? (
+                <div className="space-y-3">
+                    {sortedFavorites.map((festival) => {
+                        const status = getStatusLabel(festival, today);
+                        return (
+                            <div
+                                key={festival.festivalId}
+                                className={`flex items-center gap-3 p-2 rounded-lg border border-gray-100 cursor-pointer hover:border-[#FF6B36] ${status === '종료' ? 'opacity-50' : ''}`}
+                                onClick={() => navigate(festivalPath(festival.festivalId))}
+                            >
+                                <img
+                                    src={festival.festivalUrl || "https://via.placeholder.com/150"}
+                                    alt={festival.festivalName}
+                                    className="w-16 h-20 object-cover rounded bg-gray-200 flex-shrink-0"
+                                />
+                                <div className="flex-1 min-w-0">
+                                    <span className="inline-block text-xs px-2 py-0.5 rounded-full bg-[#FFF4F1] text-[#FF6B36] mb-1">
+                                        {status}
+                                    </span>
+                                    <h3 className="text-sm font-medium truncate">{festival.festivalName}</h3>
+                                    <p className="text-xs text-gray-500 truncate">{festival.festivalArea}</p>
+                                    <p className="text-xs text-gray-500">
+                                        {festival.festivalStartDate?.replace(/-/g, '.')} - {festival.festivalEndDate?.replace(/-/g, '.')}
+                                    </p>
+                                </div>
+                                <FavoriteButton festival={festival} className="flex-shrink-0" />
+                            </div>
+                        );
+                    })}
+                </div>
+            ) : (
+                <div className="text-center py-8">
+                    <p className="text-gray-500">찜한 축제가 없습니다</p>
+                </div>
+            )}
+        </div>
+    );
+}
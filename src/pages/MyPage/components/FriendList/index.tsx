@@ -1,18 +1,12 @@
 import { useState, useEffect } from 'react';
 import UserProfile from '../../../../components/UserProfile';
+import { friendsApi, FriendRequestAction } from '../../../../api';
+import { Friend } from '../../../../types/Friend';
 
 
 interface FriendRequestProcessedEvent {
     requestId: number;
-    action: 'accept' | 'reject';
-}
-
-interface Friend {
-    id: number;          // member의 id
-    nickname: string;
-    profilePath: string | null;
-    status: string;
-    requestId?: number;  // friend 테이블의 id (친구 관계의 id)
+    action: FriendRequestAction;
 }
 
 export default function FriendList() {
@@ -23,14 +17,7 @@ export default function FriendList() {
     // 친구 신청 목록 조회
     const fetchPendingRequests = async () => {
         try {
-            const response = await fetch(
-                `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/friends/friend-requests`,
-                { credentials: 'include' }
-            );
-            const data = await response.json();
-            if (data.resultCode === "200") {
-                setPendingRequests(data.data);
-            }
+            setPendingRequests(await friendsApi.getReceivedRequests());
         } catch (error) {
             console.error('친구 신청 목록 조회 실패:', error);
         }
@@ -39,14 +26,7 @@ export default function FriendList() {
     // 보낸 친구 신청 목록 조회
     const fetchSentRequests = async () => {
         try {
-            const response = await fetch(
-                `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/friends/self-friend-requests`,
-                { credentials: 'include' }
-            );
-            const data = await response.json();
-            if (data.resultCode === "200") {
-                setSentRequests(data.data);
-            }
+            setSentRequests(await friendsApi.getSentRequests());
         } catch (error) {
             console.error('보낸 친구 신청 목록 조회 실패:', error);
         }
@@ -55,14 +35,7 @@ export default function FriendList() {
     // 수락된 친구 목록 조회
     const fetchAcceptedFriends = async () => {
         try {
-            const response = await fetch(
-                `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/friends`,
-                { credentials: 'include' }
-            );
-            const data = await response.json();
-            if (data.resultCode === "200") {
-                setAcceptedFriends(data.data);
-            }
+            setAcceptedFriends(await friendsApi.getFriends());
         } catch (error) {
             console.error('친구 목록 조회 실패:', error);
         }
@@ -71,17 +44,9 @@ export default function FriendList() {
     // 친구 신청 수락
     const handleAccept = async (requestId: number) => {
         try {
-            const response = await fetch(
-                `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/friends/friend-requests/${requestId}/accept`,
-                {
-                    method: 'POST',
-                    credentials: 'include'
-                }
-            );
-            if (response.ok) {
-                fetchPendingRequests();
-                fetchAcceptedFriends();
-            }
+            await friendsApi.respondToRequest(requestId, 'accept');
+            fetchPendingRequests();
+            fetchAcceptedFriends();
         } catch (error) {
             console.error('친구 신청 수락 실패:', error);
         }
@@ -90,16 +55,8 @@ export default function FriendList() {
     // 친구 신청 거절
     const handleReject = async (requestId: number) => {
         try {
-            const response = await fetch(
-                `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/friends/friend-requests/${requestId}/reject`,
-                {
-                    method: 'POST',
-                    credentials: 'include'
-                }
-            );
-            if (response.ok) {
-                fetchPendingRequests();
-            }
+            await friendsApi.respondToRequest(requestId, 'reject');
+            fetchPendingRequests();
         } catch (error) {
             console.error('친구 신청 거절 실패:', error);
         }
@@ -108,16 +65,8 @@ export default function FriendList() {
     // 친구 삭제
     const handleDelete = async (friendId: number) => {
         try {
-            const response = await fetch(
-                `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/friends/${friendId}`,
-                {
-                    method: 'DELETE',
-                    credentials: 'include'
-                }
-            );
-            if (response.ok) {
-                fetchAcceptedFriends();
-            }
+            await friendsApi.remove(friendId);
+            fetchAcceptedFriends();
         } catch (error) {
             console.error('친구 삭제 실패:', error);
         }
@@ -126,16 +75,8 @@ export default function FriendList() {
     // 친구 신청 취소
     const handleCancel = async (requestId: number) => {
         try {
-            const response = await fetch(
-                `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/friends/friend-requests/${requestId}`,
-                {
-                    method: 'DELETE',
-                    credentials: 'include'
-                }
-            );
-            if (response.ok) {
-                fetchSentRequests();
-            }
+            await friendsApi.cancelRequest(requestId);
+            fetchSentRequests();
         } catch (error) {
             console.error('친구 신청 취소 실패:', error);
         }
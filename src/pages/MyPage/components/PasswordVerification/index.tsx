@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import CreatePassword from './CreatePassword';
 import VerifyPassword from './VerifyPassword';
 import { UserInfo } from '../../types';
+import { authApi, getErrorMessage, membersApi } from '../../../../api';
 
 interface PasswordVerificationProps {
     userInfo: UserInfo;
@@ -27,24 +28,10 @@ const PasswordVerification = ({ userInfo, setUserInfo, setIsPasswordVerified }:
 
     const validateStoredToken = async () => {
         try {
-            const response = await fetch(
-                `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/members/me/password/validate`,
-                {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    credentials: 'include',
-                    body: JSON.stringify({ token: verificationToken })
-                }
-            );
-
-            if (response.ok) {
-                setIsPasswordVerified(true);
-            } else {
-                // 토큰이 유효하지 않으면 저장된 토큰 삭제
-                localStorage.removeItem('password-verification-token');
-                setVerificationToken(null);
-            }
+            await membersApi.validatePasswordToken(verificationToken!);
+            setIsPasswordVerified(true);
         } catch (error) {
+            // 토큰이 유효하지 않으면 저장된 토큰 삭제
             console.error('토큰 검증 에러:', error);
             localStorage.removeItem('password-verification-token');
             setVerificationToken(null);
@@ -54,29 +41,14 @@ const PasswordVerification = ({ userInfo, setUserInfo, setIsPasswordVerified }:
     const handlePasswordVerify = async (e: React.FormEvent) => {
         e.preventDefault();
         try {
-            const response = await fetch(
-                `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/members/me/password`,
-                {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    credentials: 'include',
-                    body: JSON.stringify({ password })
-                }
-            );
-
-            if (response.ok) {
-                const data = await response.json();
-                // 받은 토큰을 localStorage에 저장
-                localStorage.setItem('password-verification-token', data.data.token);
-                setVerificationToken(data.data.token);
-                setIsPasswordVerified(true);
-            } else {
-                const errorData = await response.json();
-                alert(errorData.msg || '비밀번호가 일치하지 않습니다.');
-            }
+            const { token } = await membersApi.verifyPassword(password);
+            // 받은 토큰을 localStorage에 저장
+            localStorage.setItem('password-verification-token', token);
+            setVerificationToken(token);
+            setIsPasswordVerified(true);
         } catch (error) {
             console.error('비밀번호 확인 에러:', error);
-            alert('서버 연결에 실패했습니다.');
+            alert(getErrorMessage(error, '비밀번호가 일치하지 않습니다.'));
         }
     };
 
@@ -88,39 +60,16 @@ const PasswordVerification = ({ userInfo, setUserInfo, setIsPasswordVerified }:
         }
 
         try {
-            const response = await fetch(`${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/members/me/social/password`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                credentials: 'include',
-                body: JSON.stringify({ password: newPassword })
-            });
-
-            if (response.ok) {
-                const data = await response.json();
-
-                // 비밀번호 설정 후 사용자 정보 다시 조회
-                const userInfoResponse = await fetch(
-                    `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/auth/me`,
-                    {
-                        credentials: 'include'
-                    }
-                );
+            const data = await membersApi.createSocialPassword(newPassword);
 
-                if (userInfoResponse.ok) {
-                    const userInfoData = await userInfoResponse.json();
-                    localStorage.setItem('userInfo', JSON.stringify(userInfoData)); // 로컬스토리지도 업데이트
-                    setUserInfo(userInfoData.data); // userInfo 상태 업데이트
-                }
+            // 비밀번호 설정 후 사용자 정보 다시 조회
+            setUserInfo(await authApi.me<UserInfo>()); // userInfo 상태 업데이트
 
-                alert(data.msg || '비밀번호가 설정되었습니다.');
-                setIsPasswordVerified(true);
-            } else {
-                const errorData = await response.json();
-                alert(errorData.msg || '비밀번호 설정에 실패했습니다.');
-            }
+            alert(data.msg || '비밀번호가 설정되었습니다.');
+            setIsPasswordVerified(true);
         } catch (error) {
             console.error('비밀번호 설정 에러:', error);
-            alert('서버 연결에 실패했습니다.');
+            alert(getErrorMessage(error, '비밀번호 설정에 실패했습니다.'));
         }
     };
 
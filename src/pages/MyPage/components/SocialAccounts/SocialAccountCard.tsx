@@ -1,5 +1,6 @@
 import { SocialAccount } from '../../types';
 import { useState } from 'react';
+import { authApi, getErrorMessage, membersApi } from '../../../../api';
 import kakaoIcon from '../../../../assets/images/kakaotalk_simple_icon.png';
 import googleIcon from '../../../../assets/images/google_simple_icon.png';
 import naverIcon from '../../../../assets/images/naver_simple_icon.png';
@@ -32,50 +33,30 @@ const SocialAccountCard = ({ type, account, onSocialAction }: SocialAccountCardP
 
     const handleSocialLink = async () => {
         try {
-            const response = await fetch(
-                `${apiUrl}/api/v1/members/me/social/${type.toLowerCase()}/validate`,
-                {
-                    method: 'GET',
-                    credentials: 'include',
-                }
-            );
-
-            if (response.ok) {
-                // 소셜 연동 페이지로 이동하기 전에 콜백 등록
-                window.sessionStorage.setItem('needsUpdate', 'true');
-                window.location.href = `${socialLoginUrl}?redirectUrl=${redirectUrl}`;
-            } else {
-                const errorData = await response.json();
-                alert(errorData.msg || '소셜 계정 연동 준비에 실패했습니다.');
-            }
+            await membersApi.validateSocialLink(type);
+            // 소셜 연동 페이지로 이동하기 전에 콜백 등록
+            window.sessionStorage.setItem('needsUpdate', 'true');
+            window.location.href = `${socialLoginUrl}?redirectUrl=${redirectUrl}`;
         } catch (error) {
             console.error('소셜 연동 검증 에러:', error);
-            alert('서버 연결에 실패했습니다.');
+            alert(getErrorMessage(error, '소셜 계정 연동 준비에 실패했습니다.'));
         }
     };
 
     const retryFetchUserInfo = async (retries = 3) => {
         for (let i = 0; i < retries; i++) {
             try {
-                const response = await fetch(
-                    `${apiUrl}/api/v1/auth/me`,  // /members/me 대신 /auth/me 사용
-                    {
-                        credentials: 'include'
-                    }
-                );
-
-                if (response.ok) {
-                    onSocialAction();
-                    return true;
-                }
-
-                await new Promise(resolve => setTimeout(resolve, 1000));
+                await authApi.me();  // /members/me 대신 /auth/me 사용
+                onSocialAction();
+                return true;
             } catch (error) {
                 console.error('회원 정보 조회 실패:', error);
                 if (i === retries - 1) {
                     alert('회원 정보 업데이트에 실패했습니다.');
                 }
             }
+
+            await new Promise(resolve => setTimeout(resolve, 1000));
         }
         return false;
     };
@@ -94,22 +75,11 @@ const SocialAccountCard = ({ type, account, onSocialAction }: SocialAccountCardP
 
         if (account.active) {
             try {
-                const response = await fetch(
-                    `${apiUrl}/api/v1/members/me/social/${type.toLowerCase()}`,
-                    {
-                        method: 'DELETE',
-                        credentials: 'include',
-                    }
-                );
-
-                if (response.ok) {
-                    await retryFetchUserInfo();
-                } else {
-                    alert('소셜 계정 연동 해제에 실패했습니다.');
-                }
+                await membersApi.unlinkSocial(type);
+                await retryFetchUserInfo();
             } catch (error) {
                 console.error('소셜 연동 해제 에러:', error);
-                alert('서버 연결에 실패했습니다.');
+                alert(getErrorMessage(error, '소셜 계정 연동 해제에 실패했습니다.'));
             } finally {
                 setIsLoading(false);
             }
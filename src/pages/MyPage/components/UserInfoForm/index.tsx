@@ -2,6 +2,7 @@
 import { useState } from 'react';
 import { FiEdit2 } from 'react-icons/fi';
 import { UserInfo, EditFormData } from '../../types';
+import { getErrorMessage, membersApi } from '../../../../api';
 
 declare global {
     interface Window {
@@ -57,35 +58,18 @@ const UserInfoForm = ({ userInfo, editForm, setEditForm, onUpdate, onDelete }: U
         }
 
         try {
-            const response = await fetch(
-                `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/members/me/password`,
-                {
-                    method: 'PATCH',
-                    headers: { 'Content-Type': 'application/json' },
-                    credentials: 'include',
-                    body: JSON.stringify({
-                        currentPassword: passwordForm.currentPassword,
-                        newPassword: passwordForm.newPassword
-                    })
-                }
-            );
-
-            if (response.ok) {
-                alert('비밀번호가 변경되었습니다.');
-                setIsPasswordChanging(false);
-                setPasswordForm({
-                    currentPassword: '',
-                    newPassword: '',
-                    confirmPassword: ''
-                });
-                setPasswordError('');
-            } else {
-                const data = await response.json();
-                setPasswordError(data.msg || '비밀번호 변경에 실패했습니다.');
-            }
+            await membersApi.changePassword(passwordForm.currentPassword, passwordForm.newPassword);
+            alert('비밀번호가 변경되었습니다.');
+            setIsPasswordChanging(false);
+            setPasswordForm({
+                currentPassword: '',
+                newPassword: '',
+                confirmPassword: ''
+            });
+            setPasswordError('');
         } catch (error) {
             console.error('비밀번호 변경 에러:', error);
-            setPasswordError('서버 연결에 실패했습니다.');
+            setPasswordError(getErrorMessage(error, '비밀번호 변경에 실패했습니다.'));
         }
     };
 
@@ -99,37 +83,19 @@ const UserInfoForm = ({ userInfo, editForm, setEditForm, onUpdate, onDelete }: U
 
         setVerification(prev => ({ ...prev, isSending: true, error: '' }));
         try {
-            const response = await fetch(
-                `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/members/me/phone/verification-code`,
-                {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    credentials: 'include',
-                    body: JSON.stringify({ phoneNumber: numberOnly })
-                }
-            );
-
-            if (response.ok) {
-                setVerification(prev => ({
-                    ...prev,
-                    isVerifying: true,
-                    isSending: false,
-                    error: ''
-                }));
-                alert('인증번호가 전송되었습니다.');
-            } else {
-                const data = await response.json();
-                setVerification(prev => ({
-                    ...prev,
-                    isSending: false,
-                    error: data.msg || '인증번호 전송에 실패했습니다.'
-                }));
-            }
+            await membersApi.sendPhoneVerificationCode(numberOnly);
+            setVerification(prev => ({
+                ...prev,
+                isVerifying: true,
+                isSending: false,
+                error: ''
+            }));
+            alert('인증번호가 전송되었습니다.');
         } catch (error) {
             setVerification(prev => ({
                 ...prev,
                 isSending: false,
-                error: '서버 연결에 실패했습니다.'
+                error: getErrorMessage(error, '인증번호 전송에 실패했습니다.')
             }));
         }
     };
@@ -138,35 +104,18 @@ const UserInfoForm = ({ userInfo, editForm, setEditForm, onUpdate, onDelete }: U
     const verifyCode = async (phoneNumber: string, code: string) => {
         const numberOnly = phoneNumber.replace(/[^\d]/g, '');
         try {
-            const response = await fetch(
-                `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/members/me/phone/verify`,
-                {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    credentials: 'include',
-                    body: JSON.stringify({ phoneNumber: numberOnly, code })
-                }
-            );
-
-            if (response.ok) {
-                setVerification(prev => ({
-                    ...prev,
-                    isVerifying: false,
-                    isVerified: true,
-                    error: ''
-                }));
-                alert('인증이 완료되었습니다.');
-            } else {
-                const data = await response.json();
-                setVerification(prev => ({
-                    ...prev,
-                    error: data.msg || '인증번호가 일치하지 않습니다.'
-                }));
-            }
+            await membersApi.verifyPhone(numberOnly, code);
+            setVerification(prev => ({
+                ...prev,
+                isVerifying: false,
+                isVerified: true,
+                error: ''
+            }));
+            alert('인증이 완료되었습니다.');
         } catch (error) {
             setVerification(prev => ({
                 ...prev,
-                error: '서버 연결에 실패했습니다.'
+                error: getErrorMessage(error, '인증번호가 일치하지 않습니다.')
             }));
         }
     };
@@ -586,25 +535,14 @@ const UserInfoForm = ({ userInfo, editForm, setEditForm, onUpdate, onDelete }: U
 
                         // 직접 API 호출
                         try {
-                            const response = await fetch(
-                                `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/members/me/profile`,
-                                {
-                                    method: 'PUT',
-                                    headers: { 'Content-Type': 'application/json' },
-                                    credentials: 'include',
-                                    body: JSON.stringify({
-                                        ...editForm,
-                                        mkAlarm: newValue
-                                    })
-                                }
-                            );
-
-                            if (response.ok) {
-                                setEditForm({
-                                    ...editForm,
-                                    mkAlarm: newValue
-                                });
-                            }
+                            await membersApi.updateMyProfile({
+                                ...editForm,
+                                mkAlarm: newValue
+                            });
+                            setEditForm({
+                                ...editForm,
+                                mkAlarm: newValue
+                            });
                         } catch (error) {
                             console.error('업데이트 실패:', error);
                         }
@@ -7,46 +7,19 @@ import UserInfoForm from './components/UserInfoForm';
 import PasswordVerification from './components/PasswordVerification';
 import { EditFormData, UserInfo } from './types';
 import FriendList from './components/FriendList';
+import FavoriteFestivals from './components/FavoriteFestivals';
+import { authApi, authKeys, fetchQuery, getErrorMessage, membersApi } from '../../api';
+import useSession from '../../hooks/useSession';
 
-interface MyPageProps {
-    updateUserInfo: (userInfo: any) => void;
-}
+// 앱 시작 시 세션 확인으로 받아온 회원 정보가 이 시간 안이면 다시 요청하지 않는다
+const USER_INFO_STALE_TIME = 30 * 1000;
 
-const MyPage = ({ updateUserInfo }: MyPageProps) => {
+const MyPage = () => {
     const navigate = useNavigate();
+    const { clear, updateCurrentUser } = useSession();
     const [isPasswordVerified, setIsPasswordVerified] = useState(false);
-    const [activeTab, setActiveTab] = useState('profile'); // 'profile' | 'social' | 'friends'
-
-    const defaultSocialAccount = {
-        active: false,
-        createDate: '',
-        email: null
-    };
-
-
-    // userInfo 상태 관리 수정
-    const [userInfo, setUserInfo] = useState(() => {
-        const stored = localStorage.getItem('userInfo');
-        if (!stored) return null;
-        try {
-            const parsed = JSON.parse(stored);
-            // socialAccounts가 없거나 각 계정이 undefined인 경우 기본값 설정
-            if (parsed.data) {
-                parsed.data.socialAccounts = {
-                    KAKAO: { ...defaultSocialAccount, ...parsed.data.socialAccounts?.KAKAO },
-                    NAVER: { ...defaultSocialAccount, ...parsed.data.socialAccounts?.NAVER },
-                    GOOGLE: { ...defaultSocialAccount, ...parsed.data.socialAccounts?.GOOGLE },
-                    GITHUB: { ...defaultSocialAccount, ...parsed.data.socialAccounts?.GITHUB }
-                };
-                // profilePath가 null이면 기본값 설정
-                parsed.data.profilePath = parsed.data.profilePath || 'default.png';
-            }
-            return parsed.data;
-        } catch (e) {
-            console.error('userInfo 파싱 에러:', e);
-            return null;
-        }
-    });
+    const [activeTab, setActiveTab] = useState('profile'); // 'profile' | 'social' | 'friends' | 'favorites'
+    const [userInfo, setUserInfo] = useState<UserInfo | null>(null);
 
     // editForm 의존성 수정
     const [editForm, setEditForm] = useState<EditFormData>({
@@ -72,76 +45,46 @@ const MyPage = ({ updateUserInfo }: MyPageProps) => {
         }
     }, [userInfo]);
 
-    const fetchUserInfo = async () => {
+    const fetchUserInfo = async (staleTime = 0) => {
         try {
-            const response = await fetch(
-                `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/auth/me`,
-                {
-                    credentials: 'include'
-                }
-            );
-
-            if (response.ok) {
-                const data = await response.json();
-                if (data.data) {
-                    // socialAccounts가 없다면 기본값 설정
-                    if (!data.data.socialAccounts) {
-                        data.data.socialAccounts = {
-                            KAKAO: { active: false, createDate: '' },
-                            NAVER: { active: false, createDate: '' },
-                            GOOGLE: { active: false, createDate: '' },
-                            GITHUB: { active: false, createDate: '' }
-                        };
-                    }
-                    localStorage.setItem('userInfo', JSON.stringify(data));
-                    setUserInfo(data.data);
-                }
+            // 캐시된 객체를 직접 고치지 않도록 복사해서 사용
+            const data = { ...await fetchQuery(authKeys.me, () => authApi.me<UserInfo>(), { staleTime }) };
+            // socialAccounts가 없다면 기본값 설정
+            if (!data.socialAccounts) {
+                data.socialAccounts = {
+                    KAKAO: { active: false, createDate: '', email: null },
+                    NAVER: { active: false, createDate: '', email: null },
+                    GOOGLE: { active: false, createDate: '', email: null },
+                    GITHUB: { active: false, createDate: '', email: null }
+                };
             }
+            // profilePath가 null이면 기본값 설정
+            data.profilePath = data.profilePath || 'default.png';
+            setUserInfo(data);
         } catch (error) {
             console.error('회원 정보 조회 실패:', error);
         }
     };
 
     useEffect(() => {
-        // 컴포넌트가 마운트되면 무조건 유저 정보를 가져옵니다
-        fetchUserInfo();
+        // 컴포넌트가 마운트되면 유저 정보를 가져옵니다 (세션 확인과 같은 요청이면 한 번만)
+        fetchUserInfo(USER_INFO_STALE_TIME);
     }, []);
 
 
     const handleUpdate = async () => {
         try {
-            const response = await fetch(`${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/members/me/profile`, {
-                method: 'PUT',
-                headers: { 'Content-Type': 'application/json' },
-                credentials: 'include',
-                body: JSON.stringify(editForm)
-            });
-
-            const responseData = await response.json();
-            console.log('Update response:', responseData);
+            await membersApi.updateMyProfile(editForm);
 
-            if (response.ok && responseData.data) {
-                // 회원 정보 업데이트 후 전체 사용자 정보 다시 가져오기
-                const userInfoResponse = await fetch(
-                    `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/auth/me`,
-                    {
-                        credentials: 'include'
-                    }
-                );
+            // 회원 정보 업데이트 후 전체 사용자 정보 다시 가져오기
+            const data = await fetchQuery(authKeys.me, () => authApi.me<UserInfo>());
+            setUserInfo(data);
+            updateCurrentUser({ nickname: data.nickname ?? '', location: data.location });  // 헤더 등 세션 정보 갱신
 
-                if (userInfoResponse.ok) {
-                    const data = await userInfoResponse.json();
-                    setUserInfo(data.data);
-                    localStorage.setItem('userInfo', JSON.stringify(data));
-                }
-
-                alert('회원정보가 수정되었습니다.');
-            } else {
-                alert(responseData.msg || '회원정보 수정에 실패했습니다.');
-            }
+            alert('회원정보가 수정되었습니다.');
         } catch (error) {
             console.error('수정 에러:', error);
-            alert('서버 연결에 실패했습니다.');
+            alert(getErrorMessage(error, '회원정보 수정에 실패했습니다.'));
         }
     };
 
@@ -152,27 +95,13 @@ const MyPage = ({ updateUserInfo }: MyPageProps) => {
         if (!confirmed) return;
 
         try {
-            const response = await fetch(
-                `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/members/me/deactivate`,
-                {
-                    method: 'PATCH',
-                    credentials: 'include',
-                }
-            );
-
-            if (response.ok) {
-                const data = await response.json();
-                alert(data.msg || '회원 탈퇴가 완료되었습니다.');
-                localStorage.removeItem('isLoggedIn');
-                localStorage.removeItem('userInfo');
-                navigate('/');
-            } else {
-                const errorData = await response.json();
-                alert(errorData.msg || '회원 탈퇴에 실패했습니다.');
-            }
+            const data = await membersApi.deactivate();
+            alert(data.msg || '회원 탈퇴가 완료되었습니다.');
+            clear();
+            navigate('/');
         } catch (error) {
             console.error('탈퇴 에러:', error);
-            alert('서버 연결에 실패했습니다.');
+            alert(getErrorMessage(error, '회원 탈퇴에 실패했습니다.'));
         }
     };
 
@@ -181,69 +110,34 @@ const MyPage = ({ updateUserInfo }: MyPageProps) => {
         const file = e.target.files?.[0];
         if (!file) return;
 
-        const formData = new FormData();
-        formData.append('profileImage', file);
-
         try {
-            const response = await fetch(`${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/members/me/profile-image`, {
-                method: 'POST',
-                credentials: 'include',
-                body: formData
-            });
-
-            if (response.ok) {
-                const updatedUserInfo = await response.json();
-                const newUserInfo = {
-                    ...userInfo,
-                    profilePath: updatedUserInfo.data.profilePath
-                };
-                updateUserInfo({ data: newUserInfo });  // App의 상태 업데이트
-                setUserInfo(newUserInfo);
-                alert('프로필 이미지가 변경되었습니다.');
-            } else {
-                const errorData = await response.json();
-                alert(errorData.msg || '이미지 업로드에 실패했습니다.');
-            }
+            const { profilePath } = await membersApi.uploadProfileImage(file);
+            updateCurrentUser({ profilePath });  // 헤더 프로필 이미지 갱신
+            setUserInfo((prev: UserInfo | null) => prev ? { ...prev, profilePath } : prev);
+            alert('프로필 이미지가 변경되었습니다.');
         } catch (error) {
             console.error('이미지 업로드 에러:', error);
-            alert('서버 연결에 실패했습니다.');
+            alert(getErrorMessage(error, '이미지 업로드에 실패했습니다.'));
         }
     };
 
     // 이미지 삭제
     const handleResetImage = async () => {
         try {
-            const response = await fetch(`${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/members/me/profile-image`, {
-                method: 'DELETE',
-                credentials: 'include'
-            });
-
-            if (response.ok) {
-                setUserInfo((prev: UserInfo | null) => prev ? { ...prev, profilePath: 'default.png' } : prev);
-                alert('프로필 이미지가 삭제되었습니다.');
-            }
+            await membersApi.deleteProfileImage();
+            updateCurrentUser({ profilePath: 'default.png' });
+            setUserInfo((prev: UserInfo | null) => prev ? { ...prev, profilePath: 'default.png' } : prev);
+            alert('프로필 이미지가 삭제되었습니다.');
         } catch (error) {
             console.error('이미지 삭제 에러:', error);
         }
     };
 
 
+    // 로그인 여부는 RequireAuth 에서 확인하므로 회원 정보만 가져온다
     useEffect(() => {
-        const checkAndFetchUserInfo = async () => {
-            const isLoggedIn = localStorage.getItem('isLoggedIn');
-            if (!isLoggedIn) {
-                navigate('/login', {
-                    state: { from: { pathname: '/mypage' } }
-                });
-                return;
-            }
-
-            // 로그인 되어있다면 유저 정보 가져오기
-            await fetchUserInfo();
-        };
-
-        checkAndFetchUserInfo();
-    }, [navigate]);
+        fetchUserInfo(USER_INFO_STALE_TIME);
+    }, []);
 
 
     if (!userInfo) {
@@ -287,6 +181,16 @@ const MyPage = ({ updateUserInfo }: MyPageProps) => {
                         >
                             친구 관리
                         </button>
+                        <button
+                            onClick={() => setActiveTab('favorites')}
+                            className={`flex-1 px-4 py-3 font-semibold transition-all duration-200 
+                                ${activeTab === 'favorites'
+                                    ? 'text-primary border-b-2 border-primary bg-blue-50'
+                                    : 'text-gray-600 hover:text-primary hover:bg-gray-100'
+                                } focus:outline-none`}
+                        >
+                            찜한 축제
+                        </button>
                     </div>
 
                     {/* 컨텐츠 영역 */}
@@ -317,6 +221,10 @@ const MyPage = ({ updateUserInfo }: MyPageProps) => {
                     {activeTab === 'friends' && (
                         <FriendList />
                     )}
+
+                    {activeTab === 'favorites' && (
+                        <FavoriteFestivals />
+                    )}
                 </div>
             ) : (
                 <PasswordVerification
@@ -1,31 +1,11 @@
 import { useEffect, useState } from 'react';
 import Footer from '../components/Footer';
-import axios from 'axios';
 import { useNavigate } from 'react-router-dom';
-
-interface NoticeItem {
-    id: number;
-    title: string;
-    content: string;
-    createDate: string;
-}
-
-interface ApiResponse {
-    resultCode: string;
-    msg: string;
-    data: {
-        content: NoticeItem[];
-        page: {
-            totalPages: number;
-            totalElements: number;
-            size: number;
-            number: number;
-        };
-    };
-}
+import { boardsApi } from '../api';
+import { Board } from '../types/Board';
 
 const Notice = () => {
-    const [notices, setNotices] = useState<NoticeItem[]>([]);
+    const [notices, setNotices] = useState<Board[]>([]);
     const [isLoading, setIsLoading] = useState(false);
     const [currentPage, setCurrentPage] = useState(0);
     const [totalPages, setTotalPages] = useState(0);
@@ -37,35 +17,24 @@ const Notice = () => {
         setIsLoading(true);
         try {
             const pageSize = 10;
-            const url = `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/boards?page=${pageNumber}&size=${pageSize}`;
+            const { content, page } = await boardsApi.getPage(pageNumber, pageSize);
 
-            const response = await axios.get<ApiResponse>(url, {
-                withCredentials: true,
-                headers: {
-                    'Content-Type': 'application/json',
-                }
-            });
+            const remainingItems = pageSize - content.length;
 
-            if (response.data.resultCode === "200") {
-                const content = response.data.data.content;
-                
-                const remainingItems = pageSize - content.length;
-                
-                if (remainingItems > 0 && content.length > 0) {
-                    const emptyItems = Array(remainingItems).fill({
-                        id: -1,
-                        title: '',
-                        content: '',
-                        createDate: ''
-                    });
-                    setNotices([...content, ...emptyItems]);
-                } else {
-                    setNotices(content);
-                }
-                
-                setTotalPages(Math.max(1, response.data.data.page.totalPages));
-                setTotalNotices(response.data.data.page.totalElements);
+            if (remainingItems > 0 && content.length > 0) {
+                const emptyItems = Array(remainingItems).fill({
+                    id: -1,
+                    title: '',
+                    content: '',
+                    createDate: ''
+                });
+                setNotices([...content, ...emptyItems]);
+            } else {
+                setNotices(content);
             }
+
+            setTotalPages(Math.max(1, page.totalPages));
+            setTotalNotices(page.totalElements);
         } catch (error) {
             setError('공지사항을 불러오는데 실패했습니다.');
             console.error('Error fetching notices:', error);
@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import AuthHeader from '../components/AuthHeader';
+import { authApi, getErrorMessage } from '../api';
 
 const ResetPassword = () => {
     const navigate = useNavigate();
@@ -14,40 +15,20 @@ const ResetPassword = () => {
     const handleRequestReset = async (e: React.FormEvent) => {
         e.preventDefault();
         try {
-            const response = await fetch(`${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/auth/password/reset`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ email })
-            });
-
-            if (response.ok) {
-                setShowVerification(true);
-            } else {
-                const errorData = await response.json();
-                alert(errorData.msg || '비밀번호 재설정 요청에 실패했습니다.');
-            }
+            await authApi.requestPasswordReset(email);
+            setShowVerification(true);
         } catch (error) {
-            alert('서버 연결에 실패했습니다.');
+            alert(getErrorMessage(error, '비밀번호 재설정 요청에 실패했습니다.'));
         }
     };
 
     const handleVerifyCode = async (e: React.FormEvent) => {
         e.preventDefault();
         try {
-            const response = await fetch(`${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/auth/password/reset/verify`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ email, code: verificationCode })
-            });
-
-            if (response.ok) {
-                setShowNewPassword(true);
-            } else {
-                const errorData = await response.json();
-                alert(errorData.msg || '인증번호가 일치하지 않습니다.');
-            }
+            await authApi.verifyPasswordReset(email, verificationCode);
+            setShowNewPassword(true);
         } catch (error) {
-            alert('서버 연결에 실패했습니다.');
+            alert(getErrorMessage(error, '인증번호가 일치하지 않습니다.'));
         }
     };
 
@@ -59,21 +40,11 @@ const ResetPassword = () => {
         }
 
         try {
-            const response = await fetch(`${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/auth/password/reset/new`, {
-                method: 'PATCH',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ email, newPassword: newPassword })
-            });
-
-            if (response.ok) {
-                alert('비밀번호가 성공적으로 변경되었습니다.');
-                navigate('/login');
-            } else {
-                const errorData = await response.json();
-                alert(errorData.msg || '비밀번호 변경에 실패했습니다.');
-            }
+            await authApi.resetPassword(email, newPassword);
+            alert('비밀번호가 성공적으로 변경되었습니다.');
+            navigate('/login');
         } catch (error) {
-            alert('서버 연결에 실패했습니다.');
+            alert(getErrorMessage(error, '비밀번호 변경에 실패했습니다.'));
         }
     };
 
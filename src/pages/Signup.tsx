@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import AuthHeader from '../components/AuthHeader';
+import { authApi, getErrorMessage } from '../api';
 
 const Signup = () => {
     const navigate = useNavigate();
@@ -28,9 +29,6 @@ const Signup = () => {
         }
 
         try {
-            const apiUrl = import.meta.env.VITE_CORE_API_BASE_URL + '/api/v1/auth/signup';
-            console.log('요청 URL:', apiUrl);
-
             const requestData = {
                 email,
                 password,
@@ -38,21 +36,7 @@ const Signup = () => {
             };
             console.log('요청 데이터:', requestData);
 
-            const response = await fetch(apiUrl, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Accept': 'application/json',
-                },
-                credentials: 'include',
-                body: JSON.stringify(requestData)
-            });
-
-            const data = await response.json();
-            if (!response.ok) {
-                alert(data.msg || '회원가입 실패했습니다.');
-                return;
-            }
+            const data = await authApi.signup(requestData);
 
             console.log('회원가입 성공:', data);
             alert('회원가입이 완료되었습니다.');
@@ -60,32 +44,19 @@ const Signup = () => {
 
         } catch (error) {
             console.error('회원가입 에러:', error);
-            alert(error instanceof Error ? error.message : '서버 연결에 실패했습니다.');
+            alert(getErrorMessage(error, '회원가입 실패했습니다.'));
         }
     };
 
     // 이메일 인증 요청
     const handleEmailVerification = async () => {
         try {
-            const response = await fetch(`${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/auth/email/verification-code`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({ email })
-            });
-
-            if (response.ok) {
-                const data = await response.json();
-                alert(data.msg || '인증번호가 발송되었습니다.');
-                setIsEmailSent(true);
-            } else {
-                const errorData = await response.json();
-                alert(errorData.msg || '인증번호 발송에 실패했습니다.');
-            }
+            const data = await authApi.sendEmailVerificationCode(email);
+            alert(data.msg || '인증번호가 발송되었습니다.');
+            setIsEmailSent(true);
         } catch (error) {
             console.error('이메일 인증 요청 에러:', error);
-            alert('서버 연결에 실패했습니다.');
+            alert(getErrorMessage(error, '인증번호 발송에 실패했습니다.'));
         }
     };
 
@@ -96,28 +67,12 @@ const Signup = () => {
                 email,
                 code: verificationCode
             });
-            const response = await fetch(`${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/auth/email/verify`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                    email,
-                    code: verificationCode
-                })
-            });
-
-            if (response.ok) {
-                const data = await response.json();
-                alert(data.msg || '이메일 인증이 완료되었습니다.');
-                setIsEmailVerified(true);
-            } else {
-                const errorData = await response.json();
-                alert(errorData.msg || '인증번호가 일치하지 않습니다.');
-            }
+            const data = await authApi.verifyEmail(email, verificationCode);
+            alert(data.msg || '이메일 인증이 완료되었습니다.');
+            setIsEmailVerified(true);
         } catch (error) {
             console.error('인증번호 확인 에러:', error);
-            alert('서버 연결에 실패했습니다.');
+            alert(getErrorMessage(error, '인증번호가 일치하지 않습니다.'));
         }
     };
 
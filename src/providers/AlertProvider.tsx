@@ -2,6 +2,8 @@ import { createContext, useState, useEffect, ReactNode, useRef } from 'react';
 import { Client } from '@stomp/stompjs';
 import { Alert } from '../types/Alert';
 import { ToastAlert } from '../components/ToastAlert';
+import { alertsApi, friendsApi } from '../api';
+import useCurrentUser from '../hooks/useCurrentUser';
 
 interface AlertContextType {
     alerts: Alert[];
@@ -27,7 +29,7 @@ export const AlertContext = createContext<AlertContextType>({
     handleFriendRequest: async () => { }  // 추가
 });
 
-export const AlertProvider = ({ children, isLoggedIn, isOpen }: { children: ReactNode, isLoggedIn: boolean, isOpen: boolean }) => {
+export const AlertProvider = ({ children, isOpen }: { children: ReactNode, isOpen: boolean }) => {
     const [alerts, setAlerts] = useState<Alert[]>([]);
     const [toast, setToast] = useState<Alert | null>(null);
     const [hasMore, setHasMore] = useState(true);
@@ -37,9 +39,7 @@ export const AlertProvider = ({ children, isLoggedIn, isOpen }: { children: Reac
     const latestAlertsRef = useRef<Alert[]>([]);
     const [processedAlerts, setProcessedAlerts] = useState<{ [key: number]: string }>({});
 
-    const userInfo = localStorage.getItem('userInfo')
-        ? JSON.parse(localStorage.getItem('userInfo')!).data
-        : null;
+    const memberId = useCurrentUser()?.id;
 
     useEffect(() => {
         latestAlertsRef.current = alerts;
@@ -47,20 +47,12 @@ export const AlertProvider = ({ children, isLoggedIn, isOpen }: { children: Reac
 
     const loadMore = async () => {
         try {
-            const response = await fetch(
-                `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/alerts?page=${page + 1}&size=10`,
-                { credentials: 'include' }
-            );
-
-            const data = await response.json();
-            if (data.resultCode === "200") {
-                const newAlerts = data.data.content;
-                if (newAlerts.length < 10) {
-                    setHasMore(false);
-                }
-                setAlerts(prev => [...prev, ...newAlerts]);
-                setPage(prev => prev + 1);
+            const { content: newAlerts } = await alertsApi.getPage(page + 1, 10);
+            if (newAlerts.length < 10) {
+                setHasMore(false);
             }
+            setAlerts(prev => [...prev, ...newAlerts]);
+            setPage(prev => prev + 1);
         } catch (error) {
             console.error('Failed to load more alerts:', error);
         }
@@ -68,47 +60,27 @@ export const AlertProvider = ({ children, isLoggedIn, isOpen }: { children: Reac
 
     const readAlerts = async (alertIds: number[]) => {
         try {
-            const response = await fetch(
-                `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/alerts`,
-                {
-                    method: 'PATCH',
-                    credentials: 'include',
-                    headers: {
-                        'Content-Type': 'application/json',
-                    },
-                    body: JSON.stringify({ alertIds })
-                }
-            );
-
-            if (response.ok) {
-                setAlerts(prev => prev.map(alert =>
-                    alertIds.includes(alert.id)
-                        ? { ...alert, isRead: true }
-                        : alert
-                ));
-                setUnreadAlerts(prev => prev.filter(id => !alertIds.includes(id)));
-            }
+            await alertsApi.read(alertIds);
+            setAlerts(prev => prev.map(alert =>
+                alertIds.includes(alert.id)
+                    ? { ...alert, isRead: true }
+                    : alert
+            ));
+            setUnreadAlerts(prev => prev.filter(id => !alertIds.includes(id)));
         } catch (error) {
             console.error('알림 읽음 처리 실패:', error);
         }
     };
 
     useEffect(() => {
-        if (!userInfo) return undefined;
+        if (!memberId) return undefined;
 
         const fetchInitialAlerts = async () => {
             try {
-                const response = await fetch(
-                    `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/alerts?page=0&size=10`,
-                    { credentials: 'include' }
-                );
-
-                const data = await response.json();
-                if (data.resultCode === "200") {
-                    setAlerts(data.data.content);
-                    setHasMore(data.data.content.length === 10);
-                    setPage(0);
-                }
+                const { content } = await alertsApi.getPage(0, 10);
+                setAlerts(content);
+                setHasMore(content.length === 10);
+                setPage(0);
             } catch (error) {
                 console.error('Failed to fetch alerts:', error);
             }
@@ -123,7 +95,7 @@ export const AlertProvider = ({ children, isLoggedIn, isOpen }: { children: Reac
             heartbeatOutgoing: 4000,
             onConnect: () => {
                 console.log('Connected');
-                client.subscribe(`/user/${userInfo.id}/queue/alerts`, message => {
+                client.subscribe(`/user/${memberId}/queue/alerts`, message => {
                     console.log('Received alert:', message.body);
                     const newAlert = JSON.parse(message.body);
 
@@ -133,7 +105,7 @@ export const AlertProvider = ({ children, isLoggedIn, isOpen }: { children: Reac
                     });
                 });
 
-                client.subscribe(`/user/${userInfo.id}/queue/toast-alerts`, message => {
+                client.subscribe(`/user/${memberId}/queue/toast-alerts`, message => {
                     console.log('Received toast:', message.body);
                     const newAlert = JSON.parse(message.body);
                     setToast(newAlert);
@@ -155,7 +127,7 @@ export const AlertProvider = ({ children, isLoggedIn, isOpen }: { children: Reac
                 clientRef.current = null;
             }
         };
-    }, [isLoggedIn]);
+    }, [memberId]);
 
     useEffect(() => {
         const newUnreadAlerts = alerts
@@ -179,31 +151,23 @@ export const AlertProvider = ({ children, isLoggedIn, isOpen }: { children: Reac
 
     const handleFriendRequest = async (requestId: number, alertId: number, action: 'accept' | 'reject') => {
         try {
-            const response = await fetch(
-                `${import.meta.env.VITE_CORE_API_BASE_URL}/api/v1/friends/friend-requests/${requestId}/${action}`,
-                {
-                    method: 'POST',
-                    credentials: 'include'
-                }
-            );
-
-            if (response.ok) {
-                // 알림의 상태를 업데이트하여 버튼을 제거하고 처리 상태를 표시
-                setAlerts(prev => prev.map(alert =>
-                    alert.id === alertId
-                        ? {
-                            ...alert,
-                            processedAction: action === 'accept' ? '수락 완료' : '거절 완료'
-                        }
-                        : alert
-                ));
-
-                // 친구 목록 컴포넌트에 이벤트 발송
-                const event = new CustomEvent('friendRequestProcessed', {
-                    detail: { requestId, action }
-                });
-                window.dispatchEvent(event);
-            }
+            await friendsApi.respondToRequest(requestId, action);
+
+            // 알림의 상태를 업데이트하여 버튼을 제거하고 처리 상태를 표시
+            setAlerts(prev => prev.map(alert =>
+                alert.id === alertId
+                    ? {
+                        ...alert,
+                        processedAction: action === 'accept' ? '수락 완료' : '거절 완료'
+                    }
+                    : alert
+            ));
+
+            // 친구 목록 컴포넌트에 이벤트 발송
+            const event = new CustomEvent('friendRequestProcessed', {
+                detail: { requestId, action }
+            });
+            window.dispatchEvent(event);
         } catch (error) {
             console.error('친구 요청 처리 실패:', error);
         }
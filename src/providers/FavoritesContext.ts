@@ -0,0 +1,17 @@
+// src/providers/FavoritesContext.ts
+import { createContext } from 'react';
+import { Festival } from '../types/Festival';
+
+export interface FavoritesContextType {
+    favorites: Festival[];
+    isLoading: boolean;
+    isFavorite: (festivalId: string) => boolean;
+    toggleFavorite: (festival: Festival) => Promise<void>;
+}
+
+export const FavoritesContext = createContext<FavoritesContextType>({
+    favorites: [],
+    isLoading: false,
+    isFavorite: () => false,
+    toggleFavorite: async () => { }
+});
@@ -0,0 +1,86 @@
+// src/providers/FavoritesProvider.tsx
+import { ReactNode, useCallback, useEffect, useRef, useState } from 'react';
+import { favoritesApi } from '../api';
+import { Festival } from '../types/Festival';
+import useCurrentUser from '../hooks/useCurrentUser';
+import { FavoritesContext } from './FavoritesContext';
+
+// 찜 목록은 카드/배너/상세/마이페이지에서 함께 쓰므로 한 곳에서 관리
+export const FavoritesProvider = ({ children }: { children: ReactNode }) => {
+    const [favorites, setFavorites] = useState<Festival[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const pendingIdsRef = useRef(new Set<string>()); // 연타로 같은 요청이 겹치지 않도록
+
+    const memberId = useCurrentUser()?.id;
+
+    // 로그인한 회원이 바뀌면 찜 목록 다시 조회 (로그아웃 시 비우기)
+    useEffect(() => {
+        setFavorites([]);
+        if (!memberId) return;
+
+        let ignore = false;
+        const fetchFavorites = async () => {
+            setIsLoading(true);
+            try {
+                const data = await favoritesApi.getList();
+                if (!ignore) setFavorites(data);
+            } catch (error) {
+                console.error('찜 목록 조회 실패:', error);
+            } finally {
+                if (!ignore) setIsLoading(false);
+            }
+        };
+
+        fetchFavorites();
+        return () => {
+            ignore = true;
+        };
+    }, [memberId]);
+
+    const isFavorite = useCallback(
+        (festivalId: string) => favorites.some((favorite) => favorite.festivalId === festivalId),
+        [favorites]
+    );
+
+    // 화면에 먼저 반영하고 실패하면 되돌린다
+    const toggleFavorite = useCallback(async (festival: Festival) => {
+        if (!memberId) {
+            alert("로그인이 필요합니다.");
+            return;
+        }
+        const { festivalId } = festival;
+        if (pendingIdsRef.current.has(festivalId)) return;
+        pendingIdsRef.current.add(festivalId);
+
+        const wasFavorite = isFavorite(festivalId);
+        setFavorites((prev) => wasFavorite
+            ? prev.filter((favorite) => favorite.festivalId !== festivalId)
+            : [...prev, festival]);
+        try {
+            if (wasFavorite) {
+                await favoritesApi.remove(festivalId);
+            } else {
+                await favoritesApi.add(festivalId);
+            }
+        } catch (error) {
+            console.error('찜하기 실패:', error);
+            setFavorites((prev) => wasFavorite
+                ? [...prev, festival]
+                : prev.filter((favorite) => favorite.festivalId !== festivalId));
+            alert(wasFavorite ? "찜 해제에 실패했습니다." : "찜하기에 실패했습니다.");
+        } finally {
+            pendingIdsRef.current.delete(festivalId);
+        }
+    }, [memberId, isFavorite]);
+
+    return (
+        <FavoritesContext.Provider value={{
+            favorites,
+            isLoading,
+            isFavorite,
+            toggleFavorite
+        }}>
+            {children}
+        </FavoritesContext.Provider>
+    );
+};
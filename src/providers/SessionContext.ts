@@ -0,0 +1,25 @@
+// src/providers/SessionContext.ts
+import { createContext } from 'react';
+import { CurrentUser } from '../types/Member';
+
+export interface SessionContextType {
+    currentUser: CurrentUser | null;
+    isLoggedIn: boolean;
+    isChecking: boolean; // 앱 시작 시 로그인 상태 확인 중
+    login: (email: string, password: string) => Promise<CurrentUser>;
+    logout: () => Promise<void>;
+    refresh: () => Promise<CurrentUser | null>; // 서버에서 회원 정보 다시 가져오기
+    clear: () => void; // 서버 요청 없이 세션만 정리 (토큰 만료, 회원 탈퇴 등)
+    updateCurrentUser: (changes: Partial<CurrentUser>) => void;
+}
+
+export const SessionContext = createContext<SessionContextType>({
+    currentUser: null,
+    isLoggedIn: false,
+    isChecking: false,
+    login: async () => { throw new Error('SessionProvider 가 필요합니다.'); },
+    logout: async () => { },
+    refresh: async () => null,
+    clear: () => { },
+    updateCurrentUser: () => { }
+});
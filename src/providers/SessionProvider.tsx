@@ -0,0 +1,115 @@
+// src/providers/SessionProvider.tsx
+import { ReactNode, useCallback, useEffect, useState } from 'react';
+import { ApiError, authApi, authKeys, clearSession, CURRENT_USER_KEY, fetchQuery, resetQueryCache, setQueryData } from '../api';
+import { CurrentUser } from '../types/Member';
+import { SessionContext } from './SessionContext';
+
+const parseCurrentUser = (stored: string | null): CurrentUser | null => {
+    if (!stored) return null;
+    try {
+        return JSON.parse(stored);
+    } catch (error) {
+        console.error('currentUser 파싱 에러:', error);
+        return null;
+    }
+};
+
+// 새로고침 직후에도 화면이 로그아웃 상태로 깜빡이지 않도록 마지막 회원 정보로 시작
+const loadCurrentUser = () => parseCurrentUser(localStorage.getItem(CURRENT_USER_KEY));
+
+export const SessionProvider = ({ children }: { children: ReactNode }) => {
+    const [currentUser, setCurrentUser] = useState<CurrentUser | null>(loadCurrentUser);
+    const [isChecking, setIsChecking] = useState(true);
+
+    useEffect(() => {
+        if (currentUser) {
+            localStorage.setItem(CURRENT_USER_KEY, JSON.stringify(currentUser));
+        } else {
+            localStorage.removeItem(CURRENT_USER_KEY);
+        }
+    }, [currentUser]);
+
+    const clear = useCallback(() => {
+        clearSession();
+        setCurrentUser(null);
+    }, []);
+
+    const refresh = useCallback(async () => {
+        try {
+            // 같은 시점에 여러 곳에서 새로고침해도 /auth/me 요청은 한 번
+            const user = await fetchQuery(authKeys.me, () => authApi.me());
+            setCurrentUser(user);
+            return user;
+        } catch (error) {
+            console.error('인증 체크 에러:', error);
+            // 네트워크 오류/서버 오류는 일시적일 수 있으니 토큰과 회원 정보를 그대로 둔다
+            if (error instanceof ApiError && error.isAuthError) {
+                clear();
+                return null;
+            }
+            return loadCurrentUser();
+        }
+    }, [clear]);
+
+    const login = useCallback(async (email: string, password: string) => {
+        const tokens = await authApi.login(email, password);
+        localStorage.setItem('accessToken', tokens.accessToken);
+        localStorage.setItem('refreshToken', tokens.refreshToken);
+
+        // 사용자 정보 즉시 조회 - 로그인 전에 보낸(토큰 없는) /auth/me 가 진행 중일 수 있어 캐시를 거치지 않고 새로 요청
+        const user = await authApi.me();
+        setQueryData(authKeys.me, () => user);
+        setCurrentUser(user);
+        return user;
+    }, []);
+
+    const logout = useCallback(async () => {
+        try {
+            await authApi.logout(currentUser?.id);
+        } finally {
+            // 서버 요청이 실패해도 이 기기에서는 로그아웃
+            clear();
+        }
+    }, [currentUser, clear]);
+
+    const updateCurrentUser = useCallback((changes: Partial<CurrentUser>) => {
+        setCurrentUser(prev => prev ? { ...prev, ...changes } : prev);
+    }, []);
+
+    useEffect(() => {
+        refresh().finally(() => setIsChecking(false));
+    }, [refresh]);
+
+    // 다른 탭의 로그인/로그아웃/회원 정보 변경 반영 (storage 이벤트는 변경한 탭 외의 탭에서만 발생)
+    // 세션을 잃은 탭은 currentUser 가 null 이 되면서 알림/채팅 소켓이 정리된다
+    useEffect(() => {
+        const handleStorage = (event: StorageEvent) => {
+            if (event.storageArea !== localStorage) return;
+            // key 가 null 이면 localStorage.clear()
+            if (event.key === CURRENT_USER_KEY || event.key === null) {
+                const user = parseCurrentUser(event.key === null ? null : event.newValue);
+                // 다른 탭에서 로그아웃하거나 다른 계정으로 로그인하면 이전 사용자의 캐시(즐겨찾기, 참여 채팅방, /auth/me 등)를 지운다 (clearSession 과 같이)
+                if (!user || user.id !== parseCurrentUser(event.oldValue)?.id) resetQueryCache();
+                setCurrentUser(user);
+            }
+        };
+
+        window.addEventListener('storage', handleStorage);
+        return () => window.removeEventListener('storage', handleStorage);
+    }, []);
+
+    return (
+        <SessionContext.Provider value={{
+            currentUser,
+            isLoggedIn: currentUser !== null,
+            isChecking,
+            login,
+            logout,
+            refresh,
+            clear,
+            updateCurrentUser
+        }}>
+            {children}
+        </SessionContext.Provider>
+    );
+};
@@ -27,5 +27,7 @@ export enum AlertType {
     GROUP_NEW_POST = 'GROUP_NEW_POST',
     COMMENT_REPLY = 'COMMENT_REPLY',
     PASSWORD_CHANGED = 'PASSWORD_CHANGED',
+    FESTIVAL_REMINDER = 'FESTIVAL_REMINDER', // 찜한 축제 시작 임박
+    MENTION = 'MENTION', // 댓글/채팅에서 멘션됨 - 댓글(COMMENT) 또는 채팅 메시지(GROUP)로 이동
     // ... (백엔드 AlertType과 일치하게 설정)
 }
\ No newline at end of file
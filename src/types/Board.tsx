@@ -0,0 +1,23 @@
+import { CommentReaction } from './Comment';
+
+export interface Board {
+    id: number;
+    title: string;
+    content: string;
+    createDate: string;
+}
+
+export interface BoardComment {
+    id: number;
+    content: string;
+    createDate: string;
+    authorId: number;
+    authorNickname: string;
+    modifyDate: string | null;
+    superCommentId?: number | null; // 답글이면 상위 댓글 ID
+    reactions?: CommentReaction[];
+}
+
+export interface BoardDetail extends Board {
+    boardCommentDtos: BoardComment[];
+}
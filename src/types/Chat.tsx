@@ -0,0 +1,60 @@
+export interface ChatMessage {
+    messageId?: number;
+    nickname?: string;
+    chatMessageContent: string;
+    messageTimestamp: string;
+    count?: number;
+    email?: string;
+    clientId?: string; // 보낼 때 만든 id - 서버 에코를 보내는 중인 메시지와 맞춘다
+    replyTo?: ChatReplyPreview;
+    isEdited?: boolean;
+    isDeleted?: boolean; // 모두에게서 삭제 - 내용 없이 자리만 남는다
+    reactions?: ChatMessageReaction[];
+}
+
+// 이모지별 반응한 멤버 (개수는 nicknames.length)
+export interface ChatMessageReaction {
+    emoji: string;
+    nicknames: string[];
+}
+
+// 답장한 원본 메시지 미리보기
+export interface ChatReplyPreview {
+    messageId: number;
+    nickname?: string;
+    content: string;
+    isDeleted?: boolean;
+}
+
+export type OutgoingStatus = 'sending' | 'sent' | 'failed';
+
+// 보내는 중인 메시지 (서버 에코를 받을 때까지 화면에 먼저 보여주고, 못 보낸 메시지는 IndexedDB 에 남긴다)
+export interface OutgoingMessage {
+    clientId: string;
+    chatRoomId: string;
+    content: string;
+    mentions: string[];
+    replyTo?: ChatReplyPreview;
+    createdAt: string;
+    status: OutgoingStatus;
+}
+
+// 접속 상태 - LOGIN: 온라인, AWAY: 자리 비움 (다른 탭을 보고 있음), 그 외: 오프라인
+export type MemberLoginStatus = 'LOGIN' | 'AWAY' | 'LOGOUT';
+
+// /topic/members/{chatRoomId} 로도 바뀐 멤버 하나씩 받는다
+export interface MemberStatus {
+    nickname: string;
+    userLoginStatus: MemberLoginStatus;
+}
+
+export interface MessageCount {
+    messageId: number;
+    count: number;
+}
+
+// /topic/chat/{chatRoomId}/typing 으로 받는 입력 중 상태
+export interface TypingEvent {
+    nickname: string;
+    typing: boolean;
+}
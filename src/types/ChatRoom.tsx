@@ -0,0 +1,19 @@
+export interface ChatRoom {
+    memberId: string;
+    chatRoomId: string;
+    roomTitle: string;
+    roomContent: string;
+    festivalName: string;
+    roomMemberLimit: string;
+    joinMemberNum: string;
+    createDate: string;
+    joinMemberIdNickNameList: string[][];
+    waitingMemberIdNickNameList: string[][];
+}
+
+// 모임 생성/수정 요청 바디
+export interface ChatRoomForm {
+    roomTitle: string;
+    roomContent: string;
+    roomMemberLimit: number;
+}
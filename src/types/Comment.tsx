@@ -0,0 +1,14 @@
+// 축제 댓글 / 공지사항 댓글 공통
+export type CommentTargetType = 'FESTIVAL_COMMENT' | 'BOARD_COMMENT';
+
+// 댓글이 달린 곳 (축제 ID / 게시글 ID)
+export interface CommentTarget {
+    type: CommentTargetType;
+    parentId: string;
+}
+
+export interface CommentReaction {
+    emoji: string;
+    count: number;
+    reactedByMe: boolean;
+}
@@ -0,0 +1,26 @@
+import { CommentReaction } from './Comment';
+
+export interface Festival {
+    festivalId: string;
+    festivalName: string;
+    festivalStartDate: string;
+    festivalEndDate: string;
+    festivalUrl: string;
+    festivalArea: string;
+    festivalHallName?: string; // 공연장 (지도에서 위치 검색에 사용)
+}
+
+export interface FestivalDetail extends Festival {
+    festivalHallName: string;
+    genrenm: string;
+}
+
+export interface FestivalComment {
+    commentId: number;
+    memberId: number;
+    memberNickname: string;
+    content: string;
+    createTime: string;
+    superCommentId: number | null;
+    reactions?: CommentReaction[];
+}
@@ -0,0 +1,7 @@
+export interface Friend {
+    id: number;          // member의 id
+    nickname: string;
+    profilePath: string | null;
+    status: string;
+    requestId?: number;  // friend 테이블의 id (친구 관계의 id)
+}
@@ -4,4 +4,27 @@ export interface ProfileInfo {
     profilePath: string;
     loginType: string;
     friendStatus?: string;
-}
\ No newline at end of file
+    isFriend?: boolean;
+}
+
+// /auth/me 로 내려오는 로그인 사용자 정보
+export interface CurrentUser {
+    id: number;
+    email: string | null;
+    nickname: string;
+    profilePath: string | null;
+    role: string;
+    location: string | null;
+    joinRoomIdList: string[];
+    waitRoomIdList: string[];
+}
+
+// 관리자 회원 목록
+export interface MemberSummary {
+    id: number;
+    nickname: string;
+    phoneNumber: string | null;
+    state: string;
+    role: 'ROLE_ADMIN' | 'ROLE_USER';
+    createDate: string;
+}
@@ -0,0 +1,20 @@
+import { CommentTargetType } from './Comment';
+
+export type ReportReason = 'SPAM' | 'ABUSE' | 'OBSCENE' | 'PRIVACY' | 'ETC';
+
+export interface Report {
+    id: number;
+    reporterId: number;
+    reporterNickname: string;
+    reportedId: number;
+    reportedNickname: string;
+    content: string;
+    status: 'ACTIVE' | 'REJECTED' | 'CONFIRMED';
+    createDate: string;
+    reason?: ReportReason | null;
+    // 댓글 신고일 때만 (회원 신고는 null)
+    targetType?: CommentTargetType | null;
+    targetId?: number | null;
+    targetParentId?: string | null;
+    targetContent?: string | null;
+}
@@ -0,0 +1,99 @@
+// src/utils/calendarExport.ts
+// 축제 / 모임을 캘린더(.ics) 파일로 내보내기
+import { chatRoomKeys, chatRoomsApi, fetchQuery, postsApi } from '../api';
+import { ChatRoom } from '../types/ChatRoom';
+import { Festival } from '../types/Festival';
+import { buildIcs, downloadIcs, IcsEvent, icsUid } from './ics';
+import { absoluteUrl, festivalPath, meetingPath } from './routes';
+
+
+const festivalEvent = (festival: Festival): IcsEvent => ({
+    uid: icsUid('festival', festival.festivalId),
+    title: festival.festivalName,
+    startDate: festival.festivalStartDate,
+    endDate: festival.festivalEndDate,
+    location: [festival.festivalArea, festival.festivalHallName].filter(Boolean).join(' '),
+    url: absoluteUrl(festivalPath(festival.festivalId)),
+});
+
+// 모임은 따로 일정이 없어서 해당 축제 기간으로 등록
+const meetingEvent = (room: ChatRoom, festival: Festival): IcsEvent => ({
+    ...festivalEvent(festival),
+    uid: icsUid('chatroom', room.chatRoomId),
+    title: `[모임] ${room.roomTitle} - ${festival.festivalName}`,
+    description: room.roomContent,
+    url: absoluteUrl(meetingPath(room.chatRoomId)),
+});
+
+// 모임 응답에는 축제 이름만 있어서 이름으로 축제를 찾는다 (같은 축제의 모임이 여러 개여도 한 번만 검색)
+const festivalCache = new Map<string, Promise<Festival | null>>();
+
+const findFestivalByName = (festivalName: string) => {
+    if (!festivalCache.has(festivalName)) {
+        festivalCache.set(festivalName, postsApi.search(festivalName, 0, 10)
+            .then((data) => data.content.find((festival) => festival.festivalName === festivalName) ?? null)
+            .catch((error) => {
+                festivalCache.delete(festivalName); // 실패한 검색은 다음에 다시 시도
+                throw error;
+            }));
+    }
+    return festivalCache.get(festivalName)!;
+};
+
+// 참여 중인 모임 - 모임 상세 캐시를 같이 쓴다 (삭제된 모임 등 조회에 실패한 모임은 제외)
+const fetchJoinedRooms = async (joinRoomIdList: string[]) => {
+    const rooms = await Promise.all(joinRoomIdList.map((chatRoomId) =>
+        fetchQuery(chatRoomKeys.detail(String(chatRoomId)), () => chatRoomsApi.getDetail(String(chatRoomId)))
+            .catch((error) => {
+                console.error('모임 조회 실패:', error);
+                return null;
+            })
+    ));
+    return rooms.filter((room): room is ChatRoom => room !== null);
+};
+
+export const downloadFestivalIcs = (festival: Festival) => {
+    downloadIcs(`festival-${festival.festivalId}`, buildIcs([festivalEvent(festival)], festival.festivalName));
+};
+
+// festival 을 알고 있으면(축제 상세 화면) 검색 없이 바로 사용
+export const downloadMeetingIcs = async (room: ChatRoom, festival?: Festival) => {
+    try {
+        const target = festival ?? await findFestivalByName(room.festivalName);
+        if (!target) {
+            alert("모임의 축제 일정을 찾을 수 없습니다.");
+            return;
+        }
+        downloadIcs(`meeting-${room.chatRoomId}`, buildIcs([meetingEvent(room, target)], room.roomTitle));
+    } catch (error) {
+        console.error('모임 일정 내보내기 실패:', error);
+        alert("캘린더 파일을 만들지 못했습니다.");
+    }
+};
+
+// 참여 중인 모든 모임을 하나의 캘린더 파일로
+export const downloadJoinedMeetingsIcs = async (joinRoomIdList: string[]) => {
+    if (joinRoomIdList.length === 0) {
+        alert("참여 중인 모임이 없습니다.");
+        return;
+    }
+    try {
+        const rooms = await fetchJoinedRooms(joinRoomIdList);
+        const festivals = await Promise.all(rooms.map((room) => findFestivalByName(room.festivalName)));
+        const events = rooms.flatMap((room, index) => {
+            const festival = festivals[index];
+            return festival ? [meetingEvent(room, festival)] : [];
+        });
+        if (events.length === 0) {
+            alert("캘린더에 추가할 모임 일정이 없습니다.");
+            return;
+        }
+        downloadIcs('my-meetings', buildIcs(events, '내 모임'));
+        if (events.length < joinRoomIdList.length) {
+            alert(`${joinRoomIdList.length - events.length}개 모임은 일정을 찾지 못해 제외되었습니다.`);
+        }
+    } catch (error) {
+        console.error('내 모임 일정 내보내기 실패:', error);
+        alert("캘린더 파일을 만들지 못했습니다.");
+    }
+};
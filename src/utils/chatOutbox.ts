@@ -0,0 +1,54 @@
+// src/utils/chatOutbox.ts
+// 보내지 못한 채팅 메시지 보관함 (IndexedDB) - 새로고침/재접속 후에도 다시 보낼 수 있도록
+import { OutgoingMessage } from '../types/Chat';
+
+const DB_NAME = 'hf-chat';
+const DB_VERSION = 1;
+const STORE_NAME = 'outbox';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'clientId' });
+                store.createIndex('chatRoomId', 'chatRoomId');
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        }).catch((error) => {
+            dbPromise = null; // 다음에 다시 시도
+            throw error;
+        });
+    }
+    return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const db = await openDb();
+    return new Promise<T>((resolve, reject) => {
+        const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+// 에코와 맞출 메시지 id (randomUUID 는 https 에서만 쓸 수 있다)
+export const createClientId = () =>
+    typeof crypto.randomUUID === 'function'
+        ? crypto.randomUUID()
+        : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+// 채팅방의 보관된 메시지 (보낸 순서)
+export const loadOutbox = async (chatRoomId: string) => {
+    const messages = await run<OutgoingMessage[]>('readonly', (store) => store.index('chatRoomId').getAll(chatRoomId));
+    return messages.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+export const saveOutboxMessage = (message: OutgoingMessage) =>
+    run('readwrite', (store) => store.put(message));
+
+export const removeOutboxMessage = (clientId: string) =>
+    run('readwrite', (store) => store.delete(clientId));
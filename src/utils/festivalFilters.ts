@@ -0,0 +1,91 @@
+// src/utils/festivalFilters.ts
+// 축제 상세 검색 조건 <-> URL 쿼리스트링 (공유/새로고침해도 같은 결과가 나오도록)
+import { FESTIVAL_GENRES, FestivalFilters, FestivalSearchParams, FestivalSearchWhere, FestivalSort } from '../api';
+
+export const DEFAULT_FESTIVAL_FILTERS: FestivalFilters = {
+    keyword: '',
+    where: 'all',
+    genres: [],
+    areas: [],
+    startDate: '',
+    endDate: '',
+    ongoing: false,
+    sort: 'startDate',
+};
+
+const WHERE_VALUES: FestivalSearchWhere[] = ['all', 'name', 'area'];
+const SORT_VALUES: FestivalSort[] = ['startDate', 'endDate', 'name'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// 쿼리스트링 키
+const KEYS = {
+    keyword: 'q',
+    where: 'where',
+    genres: 'genre',
+    areas: 'area',
+    startDate: 'from',
+    endDate: 'to',
+    ongoing: 'ongoing',
+    sort: 'sort',
+} as const;
+
+const parseList = (value: string | null) =>
+    [...new Set((value ?? '').split(',').map((item) => item.trim()).filter(Boolean))];
+
+const parseDate = (value: string | null) => (value && DATE_PATTERN.test(value) ? value : '');
+
+// 손으로 고친 URL 이어도 화면이 깨지지 않도록 모르는 값은 기본값으로
+export const parseFestivalFilters = (params: URLSearchParams): FestivalFilters => {
+    const where = params.get(KEYS.where) as FestivalSearchWhere;
+    const sort = params.get(KEYS.sort) as FestivalSort;
+    let startDate = parseDate(params.get(KEYS.startDate));
+    let endDate = parseDate(params.get(KEYS.endDate));
+    if (startDate && endDate && startDate > endDate) {
+        [startDate, endDate] = [endDate, startDate];
+    }
+
+    return {
+        keyword: params.get(KEYS.keyword)?.trim() ?? '',
+        where: WHERE_VALUES.includes(where) ? where : DEFAULT_FESTIVAL_FILTERS.where,
+        genres: parseList(params.get(KEYS.genres)).filter((genre) => FESTIVAL_GENRES.includes(genre)),
+        areas: parseList(params.get(KEYS.areas)),
+        startDate,
+        endDate,
+        ongoing: params.get(KEYS.ongoing) === '1',
+        sort: SORT_VALUES.includes(sort) ? sort : DEFAULT_FESTIVAL_FILTERS.sort,
+    };
+};
+
+// 기본값인 항목은 빼서 URL 을 짧게 유지
+export const toFestivalSearchParams = (filters: FestivalFilters) => {
+    const params = new URLSearchParams();
+    if (filters.keyword) params.set(KEYS.keyword, filters.keyword);
+    if (filters.where !== DEFAULT_FESTIVAL_FILTERS.where) params.set(KEYS.where, filters.where);
+    if (filters.genres.length > 0) params.set(KEYS.genres, filters.genres.join(','));
+    if (filters.areas.length > 0) params.set(KEYS.areas, filters.areas.join(','));
+    if (filters.startDate) params.set(KEYS.startDate, filters.startDate);
+    if (filters.endDate) params.set(KEYS.endDate, filters.endDate);
+    if (filters.ongoing) params.set(KEYS.ongoing, '1');
+    if (filters.sort !== DEFAULT_FESTIVAL_FILTERS.sort) params.set(KEYS.sort, filters.sort);
+    return params;
+};
+
+// 상세 검색 패널에서 고른 조건 수 (검색어/장르 칩 제외)
+export const countPanelFilters = (filters: FestivalFilters) =>
+    filters.areas.length
+    + (filters.startDate || filters.endDate ? 1 : 0)
+    + (filters.ongoing ? 1 : 0)
+    + (filters.sort !== DEFAULT_FESTIVAL_FILTERS.sort ? 1 : 0);
+
+export const hasAnyFilter = (filters: FestivalFilters) =>
+    toFestivalSearchParams(filters).toString() !== '';
+
+// 기존 검색(/posts/search/key)으로 되는 조건이면 그 파라미터, 상세 검색이 필요하면 null
+// 검색어 + 검색 대상 + 장르 하나, 또는 검색어 없이 지역 하나 ("내 주변")
+export const toKeySearchParams = (filters: FestivalFilters): Omit<FestivalSearchParams, 'page' | 'size'> | null => {
+    const { keyword, where, genres, areas, startDate, endDate, ongoing, sort } = filters;
+    if (startDate || endDate || ongoing || sort !== DEFAULT_FESTIVAL_FILTERS.sort || genres.length > 1) return null;
+    if (areas.length === 0) return { where, genre: genres[0] ?? '', keyword };
+    if (areas.length === 1 && !keyword) return { where: 'area', genre: genres[0] ?? '', keyword: areas[0] };
+    return null;
+};
@@ -0,0 +1,103 @@
+// src/utils/ics.ts
+// iCalendar(.ics) 파일 생성 - RFC 5545
+
+// 하루 종일 일정 (날짜는 "yyyy-MM-dd" 또는 "yyyy.MM.dd", 종료일 포함)
+export interface IcsEvent {
+    uid: string;
+    title: string;
+    startDate: string;
+    endDate: string;
+    location?: string;
+    description?: string;
+    url?: string;
+}
+
+const TIMEZONE = 'Asia/Seoul';
+
+// "2025-01-31" -> "20250131" (Date 로 바꾸지 않아야 브라우저 시간대에 따라 날짜가 밀리지 않는다)
+const toIcsDate = (value: string) => {
+    const [year, month, day] = value.split(/[-.T ]/).map(Number);
+    return `${year}${String(month).padStart(2, '0')}${String(day).padStart(2, '0')}`;
+};
+
+// 하루 종일 일정의 DTEND 는 마지막 날의 다음 날 (종료일 미포함 규칙)
+const nextIcsDate = (value: string) => {
+    const [year, month, day] = value.split(/[-.T ]/).map(Number);
+    const next = new Date(Date.UTC(year, month - 1, day + 1));
+    return `${next.getUTCFullYear()}${String(next.getUTCMonth() + 1).padStart(2, '0')}${String(next.getUTCDate()).padStart(2, '0')}`;
+};
+
+// DTSTAMP 는 UTC
+const toIcsTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeText = (text: string) => text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// 한 줄은 75바이트를 넘지 않도록 접는다 (한글은 3바이트라 글자 단위로 계산)
+const foldLine = (line: string) => {
+    const encoder = new TextEncoder();
+    const lines: string[] = [];
+    let current = '';
+    let bytes = 0;
+    for (const char of line) {
+        const size = encoder.encode(char).length;
+        const limit = lines.length === 0 ? 75 : 74; // 이어지는 줄은 앞의 공백 한 칸 포함
+        if (bytes + size > limit) {
+            lines.push(current);
+            current = '';
+            bytes = 0;
+        }
+        current += char;
+        bytes += size;
+    }
+    lines.push(current);
+    return lines.join('\r\n ');
+};
+
+export const buildIcs = (events: IcsEvent[], calendarName: string) => {
+    const stamp = toIcsTimestamp(new Date());
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//hf//festival calendar//KO',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(calendarName)}`,
+        // 하루 종일 일정은 시간대가 없는(floating) 날짜라 어느 시간대에서 열어도 같은 날짜로 표시된다
+        `X-WR-TIMEZONE:${TIMEZONE}`,
+        ...events.flatMap((event) => [
+            'BEGIN:VEVENT',
+            `UID:${event.uid}`,
+            `DTSTAMP:${stamp}`,
+            `DTSTART;VALUE=DATE:${toIcsDate(event.startDate)}`,
+            `DTEND;VALUE=DATE:${nextIcsDate(event.endDate || event.startDate)}`,
+            `SUMMARY:${escapeText(event.title)}`,
+            ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+            ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+            ...(event.url ? [`URL:${event.url}`] : []),
+            'TRANSP:TRANSPARENT', // 하루 종일 일정이 다른 일정을 '바쁨'으로 막지 않도록
+            'END:VEVENT',
+        ]),
+        'END:VCALENDAR',
+    ];
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+export const downloadIcs = (fileName: string, content: string) => {
+    const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName.endsWith('.ics') ? fileName : `${fileName}.ics`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // 바로 해제하면 Firefox/Safari 에서 다운로드가 시작되기 전에 취소될 수 있다
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// UID 는 일정마다 고유하고 다시 내려받아도 같아야 캘린더 앱이 중복 없이 갱신한다
+export const icsUid = (type: string, id: string | number) => `${type}-${id}@${window.location.host}`;
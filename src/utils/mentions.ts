@@ -0,0 +1,79 @@
+// src/utils/mentions.ts
+// @닉네임 멘션 - 입력 중인 멘션 찾기 / 후보 넣기 / 본문에서 멘션 찾기
+
+// 멘션할 수 있는 사람 (프로필을 열 수 있도록 회원 ID 나 이메일 중 하나가 있으면 사용)
+export interface MentionCandidate {
+    nickname: string;
+    memberId?: number;
+    email?: string;
+}
+
+export type MentionPart = string | MentionCandidate;
+
+export const MAX_MENTION_SUGGESTIONS = 5;
+
+// 커서 바로 앞에서 입력 중인 멘션 ("안녕 @홍" -> { start: 3, query: '홍' })
+// @ 는 맨 앞이거나 공백 뒤에 있어야 한다 (이메일 등과 구분)
+export const getMentionQuery = (text: string, caret: number) => {
+    const match = text.slice(0, caret).match(/(^|\s)@(\S*)$/);
+    if (!match) return null;
+    return { start: caret - match[2].length - 1, query: match[2] };
+};
+
+// 입력 중인 멘션을 고른 닉네임으로 바꾸고 뒤에 공백을 붙인다
+export const insertMention = (text: string, start: number, caret: number, nickname: string) => {
+    const inserted = `@${nickname} `;
+    return {
+        text: text.slice(0, start) + inserted + text.slice(caret),
+        caret: start + inserted.length,
+    };
+};
+
+export const filterMentionCandidates = (candidates: MentionCandidate[], query: string) => {
+    const lowerQuery = query.toLowerCase();
+    return candidates
+        .filter((candidate) => candidate.nickname.toLowerCase().includes(lowerQuery))
+        .sort((a, b) =>
+            Number(!a.nickname.toLowerCase().startsWith(lowerQuery)) - Number(!b.nickname.toLowerCase().startsWith(lowerQuery))
+        )
+        .slice(0, MAX_MENTION_SUGGESTIONS);
+};
+
+// 본문을 글자 / 멘션 조각으로 나눈다 - 후보에 있는 닉네임만 멘션으로 본다 (긴 닉네임 먼저)
+export const splitMentions = (text: string, candidates: MentionCandidate[]): MentionPart[] => {
+    const sorted = [...candidates].sort((a, b) => b.nickname.length - a.nickname.length);
+    const parts: MentionPart[] = [];
+    let plain = '';
+    let index = 0;
+
+    while (index < text.length) {
+        const atBoundary = index === 0 || /\s/.test(text[index - 1]);
+        const candidate = text[index] === '@' && atBoundary
+            ? sorted.find(({ nickname }) => {
+                const end = index + 1 + nickname.length;
+                return text.startsWith(nickname, index + 1) && (end === text.length || /[\s.,!?]/.test(text[end]));
+            })
+            : undefined;
+
+        if (candidate) {
+            if (plain) parts.push(plain);
+            plain = '';
+            parts.push(candidate);
+            index += candidate.nickname.length + 1;
+        } else {
+            plain += text[index];
+            index += 1;
+        }
+    }
+    if (plain) parts.push(plain);
+    return parts;
+};
+
+// 본문에서 멘션된 닉네임 (중복 없이) - 서버가 이 목록으로 멘션 알림을 보낸다
+export const extractMentions = (text: string, candidates: MentionCandidate[]) => [
+    ...new Set(
+        splitMentions(text, candidates)
+            .filter((part): part is MentionCandidate => typeof part !== 'string')
+            .map((candidate) => candidate.nickname)
+    ),
+];
@@ -0,0 +1,18 @@
+// src/utils/reports.ts
+import { Report, ReportReason } from '../types/Report';
+import { commentAnchorId, festivalPath, noticePath } from './routes';
+
+export const REPORT_REASON_LABELS: { [reason in ReportReason]: string } = {
+    SPAM: '스팸/광고',
+    ABUSE: '욕설/비하',
+    OBSCENE: '음란/선정적인 내용',
+    PRIVACY: '개인정보 노출',
+    ETC: '기타',
+};
+
+// 신고된 댓글로 가는 주소 (회원 신고는 null)
+export const reportTargetPath = ({ targetType, targetId, targetParentId }: Report) => {
+    if (!targetType || !targetId || !targetParentId) return null;
+    const pagePath = targetType === 'FESTIVAL_COMMENT' ? festivalPath(targetParentId) : noticePath(targetParentId);
+    return `${pagePath}#${commentAnchorId(targetId)}`;
+};
@@ -0,0 +1,48 @@
+// src/utils/routes.ts
+// 공유/알림/캘린더 등에서 쓰는 상세 페이지 주소
+
+export const festivalPath = (festivalId: string) => `/festivals/${encodeURIComponent(festivalId)}`;
+
+export const meetingPath = (chatRoomId: string) => `/meetings/${encodeURIComponent(chatRoomId)}`;
+
+export const noticePath = (boardId: string | number) => `/notice/${boardId}`;
+
+// 댓글 바로가기 (#comment-123) - CommentThread 가 해당 댓글까지 펼치고 스크롤한다
+export const commentAnchorId = (commentId: number) => `comment-${commentId}`;
+
+// 채팅 메시지 바로가기 (#message-123) - Chat 이 해당 메시지가 나올 때까지 이전 메시지를 불러와 스크롤한다
+export const messageAnchorId = (messageId: number) => `message-${messageId}`;
+
+export const chatPath = (chatRoomId: string, messageId?: number) =>
+    `/chat/${chatRoomId}${messageId ? `#${messageAnchorId(messageId)}` : ''}`;
+
+interface AlertNavigationData {
+    chatRoomId?: string;
+    messageId?: number;
+    boardId?: number;
+    festivalId?: string;
+    commentId?: number;
+}
+
+// 알림을 눌렀을 때 이동할 주소 (이동이 없는 알림은 null)
+export const alertPath = (navigationType: string, data: AlertNavigationData) => {
+    switch (navigationType) {
+        case 'GROUP':
+            return data.chatRoomId ? chatPath(data.chatRoomId, data.messageId) : null;
+        case 'BOARD':
+            return data.boardId ? noticePath(data.boardId) : null;
+        case 'FESTIVAL':
+            return data.festivalId ? festivalPath(data.festivalId) : null;
+        case 'COMMENT': {
+            // 멘션/답글 알림 - 축제 또는 공지사항의 해당 댓글로
+            const pagePath = data.festivalId ? festivalPath(data.festivalId) : data.boardId ? noticePath(data.boardId) : null;
+            if (!pagePath) return null;
+            return data.commentId ? `${pagePath}#${commentAnchorId(data.commentId)}` : pagePath;
+        }
+        default:
+            return null;
+    }
+};
+
+// 외부(카카오톡, 캘린더 등)로 내보낼 때는 전체 주소
+export const absoluteUrl = (path: string) => `${window.location.origin}${path}`;
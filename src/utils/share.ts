@@ -0,0 +1,110 @@
+// src/utils/share.ts
+// 축제 / 모임 공유하기 (링크 복사, 기기 공유, 카카오톡)
+import logo from '../assets/images/logo.png';
+import { ChatRoom } from '../types/ChatRoom';
+import { Festival } from '../types/Festival';
+import { absoluteUrl, festivalPath, meetingPath } from './routes';
+
+export interface ShareContent {
+    title: string;
+    description: string;
+    imageUrl: string; // 절대 주소
+    url: string; // 절대 주소
+}
+
+const KAKAO_SDK_URL = 'https://t1.kakaocdn.net/kakao_js_sdk/2.7.4/kakao.min.js';
+const KAKAO_JAVASCRIPT_KEY: string | undefined = import.meta.env.VITE_KAKAO_JAVASCRIPT_KEY;
+
+const formatPeriod = (festival: Festival) =>
+    `${festival.festivalStartDate.replace(/-/g, '.')} - ${festival.festivalEndDate.replace(/-/g, '.')}`;
+
+export const festivalShareContent = (festival: Festival): ShareContent => ({
+    title: festival.festivalName,
+    description: [festival.festivalArea, formatPeriod(festival)].filter(Boolean).join(' · '),
+    imageUrl: festival.festivalUrl || absoluteUrl(logo),
+    url: absoluteUrl(festivalPath(festival.festivalId)),
+});
+
+// 모임에는 이미지가 없어서 축제 포스터(없으면 로고)를 사용
+export const meetingShareContent = (room: ChatRoom, festival?: Festival | null): ShareContent => ({
+    title: room.roomTitle,
+    description: `${room.festivalName} 같이 갈 사람 (${room.joinMemberNum}/${room.roomMemberLimit})`,
+    imageUrl: festival?.festivalUrl || absoluteUrl(logo),
+    url: absoluteUrl(meetingPath(room.chatRoomId)),
+});
+
+// 클립보드 API 를 쓸 수 없는 환경(http 등)에서는 임시 입력창으로 복사
+export const copyToClipboard = async (text: string) => {
+    if (navigator.clipboard && window.isSecureContext) {
+        await navigator.clipboard.writeText(text);
+        return;
+    }
+    const textarea = document.createElement('textarea');
+    textarea.value = text;
+    textarea.style.position = 'fixed';
+    textarea.style.opacity = '0';
+    document.body.appendChild(textarea);
+    textarea.select();
+    const copied = document.execCommand('copy');
+    textarea.remove();
+    if (!copied) throw new Error('클립보드 복사 실패');
+};
+
+export const canUseWebShare = () => typeof navigator.share === 'function';
+
+// 기기 공유 시트 - 사용자가 닫은 경우(AbortError)는 실패로 보지 않는다
+export const shareWithDevice = async ({ title, description, url }: ShareContent) => {
+    try {
+        await navigator.share({ title, text: description, url });
+    } catch (error) {
+        if (error instanceof DOMException && error.name === 'AbortError') return;
+        throw error;
+    }
+};
+
+export const canShareToKakao = () => Boolean(KAKAO_JAVASCRIPT_KEY);
+
+// 카카오 SDK 는 공유할 때 처음 한 번만 불러온다
+let kakaoSdkPromise: Promise<NonNullable<Window['Kakao']>> | null = null;
+
+const loadKakaoSdk = () => {
+    if (!kakaoSdkPromise) {
+        kakaoSdkPromise = new Promise<NonNullable<Window['Kakao']>>((resolve, reject) => {
+            const initialize = () => {
+                const kakao = window.Kakao;
+                if (!kakao || !KAKAO_JAVASCRIPT_KEY) {
+                    reject(new Error('카카오 SDK 를 사용할 수 없습니다.'));
+                    return;
+                }
+                if (!kakao.isInitialized()) kakao.init(KAKAO_JAVASCRIPT_KEY);
+                resolve(kakao);
+            };
+
+            if (window.Kakao) {
+                initialize();
+                return;
+            }
+            const script = document.createElement('script');
+            script.src = KAKAO_SDK_URL;
+            script.async = true;
+            script.onload = initialize;
+            script.onerror = () => reject(new Error('카카오 SDK 를 불러오지 못했습니다.'));
+            document.head.appendChild(script);
+        }).catch((error) => {
+            kakaoSdkPromise = null; // 다음에 다시 시도
+            throw error;
+        });
+    }
+    return kakaoSdkPromise;
+};
+
+// 카카오톡 피드 메시지 (포스터 + 제목 + 설명 + 자세히 보기 버튼)
+export const shareToKakao = async ({ title, description, imageUrl, url }: ShareContent) => {
+    const kakao = await loadKakaoSdk();
+    const link = { webUrl: url, mobileWebUrl: url };
+    kakao.Share.sendDefault({
+        objectType: 'feed',
+        content: { title, description, imageUrl, link },
+        buttons: [{ title: '자세히 보기', link }],
+    });
+};
@@ -1,71 +1,97 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
 import { Client } from '@stomp/stompjs';
-import axios from 'axios';
+import { Pencil, Reply, SmilePlus, Trash2, WifiOff, X } from 'lucide-react';
 import send from "../assets/images/send.png"
 import memberList from "../assets/images/memberList.png"
 import fileImage from "../assets/images/file.png"
 import UserProfile from '../../../src/components/UserProfile';
+import { ApiError, chatMessagesApi, getErrorMessage } from '../../../src/api';
+import { ChatMessage, ChatMessageReaction, ChatReplyPreview, MemberStatus, MessageCount, TypingEvent } from '../../../src/types/Chat';
+import useCurrentUser from '../../../src/hooks/useCurrentUser';
+import useVirtualList from '../../../src/hooks/useVirtualList';
+import useMentionInput from '../../../src/hooks/useMentionInput';
+import useChatOutbox from '../../../src/hooks/useChatOutbox';
+import useChatTyping from '../../../src/hooks/useChatTyping';
+import MentionSuggestions from '../../../src/components/MentionSuggestions';
+import MentionText from '../../../src/components/MentionText';
+import ConfirmPopup from '../../../src/components/ConfirmPopup';
+import { extractMentions, MentionCandidate } from '../../../src/utils/mentions';
+import { messageAnchorId } from '../../../src/utils/routes';
 
 
-interface ChatMessage {
-    messageId?: number;
-    nickname?: string;
-    chatMessageContent: string;
-    messageTimestamp: string;
-    count?: number;
-    email?: string;
-}
-
-interface PageInfo {
-    size: number;
-    number: number;
-    totalElements: number;
-    totalPages: number;
-}
-
-interface ChatResponse {    // RsData 형식에 맞춰서 수정
-    data: {
-        content: ChatMessage[];
-        page: PageInfo;
+const WEBSOCKET_URL = `${import.meta.env.VITE_CORE_WEBSOCKET_BASE_URL}/ws/chat`;
+
+// 이전 메시지를 앞에 붙여도 바뀌지 않는 key (id 가 없는 메시지는 보낼 때 만든 id, 그것도 없으면 보낸 사람+시간)
+const getMessageKey = (message: ChatMessage) =>
+    message.messageId ?? message.clientId ?? `${message.nickname}-${message.messageTimestamp}`;
+
+// 알림에서 특정 메시지로 들어온 경우 (#message-123)
+const MESSAGE_ANCHOR_PATTERN = /^#message-(\d+)$/;
+const MAX_ANCHOR_PAGES = 10; // 메시지를 찾기 위해 불러올 이전 페이지 수
+const HIGHLIGHT_DURATION = 2000;
+const CHAT_REACTION_EMOJIS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+const LONG_PRESS_DURATION = 500; // 모바일에서 말풍선을 길게 누르면 반응 선택
+const MAX_RESYNC_PAGES = 10; // 재연결 후 놓친 메시지를 찾을 최대 페이지 수 (넘으면 처음부터 다시 불러온다)
+
+// 수정/삭제를 메시지와 그 메시지에 답장한 미리보기에 반영
+const applyMessageEdit = (messages: ChatMessage[], messageId: number, content: string) =>
+    messages.map((message) => {
+        if (message.messageId === messageId) return { ...message, chatMessageContent: content, isEdited: true };
+        if (message.replyTo?.messageId === messageId) return { ...message, replyTo: { ...message.replyTo, content } };
+        return message;
+    });
+
+const applyMessageDelete = (messages: ChatMessage[], messageId: number) =>
+    messages.map((message) => {
+        if (message.messageId === messageId) return { ...message, chatMessageContent: '', isDeleted: true };
+        if (message.replyTo?.messageId === messageId) return { ...message, replyTo: { ...message.replyTo, content: '', isDeleted: true } };
+        return message;
+    });
+
+// 내 반응을 넣거나 뺀다 (반응한 사람이 없어진 이모지는 지운다)
+const toggleReaction = (reactions: ChatMessageReaction[] = [], emoji: string, nickname: string) => {
+    const existing = reactions.find((reaction) => reaction.emoji === emoji);
+    if (!existing) return [...reactions, { emoji, nicknames: [nickname] }];
+    const nicknames = existing.nicknames.includes(nickname)
+        ? existing.nicknames.filter((name) => name !== nickname)
+        : [...existing.nicknames, nickname];
+    return nicknames.length === 0
+        ? reactions.filter((reaction) => reaction.emoji !== emoji)
+        : reactions.map((reaction) => (reaction.emoji === emoji ? { ...reaction, nicknames } : reaction));
+};
+
+const applyMessageReactions = (
+    messages: ChatMessage[],
+    messageId: number,
+    update: (reactions?: ChatMessageReaction[]) => ChatMessageReaction[],
+) => messages.map((message) => (message.messageId === messageId ? { ...message, reactions: update(message.reactions) } : message));
+
+// /topic/members 로 받은 바뀐 멤버 상태 (예전처럼 내용 없이 오면 null - 목록을 다시 불러온다)
+const parseMemberStatus = (body: string): MemberStatus | null => {
+    try {
+        const data = JSON.parse(body);
+        return data?.nickname && data?.userLoginStatus ? data : null;
+    } catch {
+        return null;
     }
-}
-
-interface MemberStatusResponse {
-    resultCode: string;
-    msg: string;
-    data: MemberStatus[];
-}
-
-interface MemberStatus {
-    nickname: string;
-    userLoginStatus: string;
-}
-
-interface messageCountResponse {
-    resultCode: string;
-    msg: string;
-    data: messageCount[];
-}
-
-interface messageCount {
-    messageId: number;
-    count: number;
-}
-
-interface FileUploadResponse {
-    resultCode: string;
-    msg: string;
-    data: string;  // S3 URL
-}
-
-interface FileDeleteResponse {
-    resultCode: string;
-    msg: string;
-}
+};
 
-const WEBSOCKET_URL = `${import.meta.env.VITE_CORE_WEBSOCKET_BASE_URL}/ws/chat`;
-const request_URL = import.meta.env.VITE_CORE_API_BASE_URL;
+const formatTypingText = (nicknames: string[]) => {
+    if (nicknames.length === 1) return `${nicknames[0]}님이 입력 중...`;
+    if (nicknames.length === 2) return `${nicknames[0]}님, ${nicknames[1]}님이 입력 중...`;
+    return `${nicknames[0]}님 외 ${nicknames.length - 1}명이 입력 중...`;
+};
+
+type ConnectionStatus = 'connecting' | 'connected' | 'reconnecting';
+
+// 메시지 목록(최신순)에 없는 메시지만 붙인다 - 새 메시지는 앞에, 이전 메시지는 뒤에
+const mergeMessages = (current: ChatMessage[], incoming: ChatMessage[], position: 'newer' | 'older') => {
+    const knownIds = new Set(current.map((message) => message.messageId));
+    const added = incoming.filter((message) => message.messageId === undefined || !knownIds.has(message.messageId));
+    if (added.length === 0) return current;
+    return position === 'newer' ? [...added, ...current] : [...current, ...added];
+};
 
 const Chat: React.FC<{ memberId: number }> = ({ memberId }) => {
     const [messages, setMessages] = useState<ChatMessage[]>([]);
@@ -74,10 +100,11 @@ const Chat: React.FC<{ memberId: number }> = ({ memberId }) => {
     const [hasMore, setHasMore] = useState(true);
     const stompClientRef = useRef<Client | null>(null);
     const messagesListRef = useRef<HTMLDivElement>(null);
-    const [currentUserNickname, setCurrentUserNickname] = useState<string>('');
+    const currentUserNickname = useCurrentUser()?.nickname ?? '';
     const [memberStatusList, setMemberStatusList] = useState<MemberStatus[]>([]);
-    const { chatRoomId } = useParams();
+    const { chatRoomId = '' } = useParams();
     const navigate = useNavigate();
+    const location = useLocation();
     const [searchKeyword, setSearchKeyword] = useState<string>('');
     const [searchPage, setSearchPage] = useState(0);
     const [isSearchMode, setIsSearchMode] = useState(false);
@@ -90,32 +117,38 @@ const Chat: React.FC<{ memberId: number }> = ({ memberId }) => {
     const [showParticipants, setShowParticipants] = useState(false);
 
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const [replyTarget, setReplyTarget] = useState<ChatReplyPreview | null>(null);
+    const [editingMessage, setEditingMessage] = useState<ChatMessage | null>(null);
+    const [deleteTargetId, setDeleteTargetId] = useState<number | null>(null);
+    const [reactionPickerId, setReactionPickerId] = useState<number | null>(null);
+    const [reactionDetail, setReactionDetail] = useState<{ messageId: number; emoji: string } | null>(null);
+    const longPressTimerRef = useRef<ReturnType<typeof setTimeout>>();
+    const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('connecting');
+    // STOMP 콜백에서 최신 메시지 목록을 보기 위한 ref
+    const latestRef = useRef({ messages, isSearchMode });
+    useEffect(() => {
+        latestRef.current = { messages, isSearchMode };
+    });
+    const outbox = useChatOutbox(chatRoomId, stompClientRef);
+    const typing = useChatTyping(chatRoomId, stompClientRef, currentUserNickname);
 
     // 파일 삭제 함수
     const handleFileDelete = async (fileUrl: string) => {
         if (!chatRoomId) return;
 
         try {
-            const response = await axios.delete<FileDeleteResponse>(
-                `${request_URL}/api/v1/chatRooms/${chatRoomId}/files/delete`,
-                {
-                    params: { fileName: fileUrl },
-                    withCredentials: true
-                }
-            );
+            await chatMessagesApi.deleteFile(chatRoomId, fileUrl);
 
-            if (response.data.resultCode === "200") {
-                // 성공 메시지 표시
-                alert("파일이 성공적으로 삭제되었습니다.");
+            // 성공 메시지 표시
+            alert("파일이 성공적으로 삭제되었습니다.");
 
-                // 필요한 경우 메시지 목록 업데이트
-                setMessages(prevMessages =>
-                    prevMessages.filter(msg => msg.chatMessageContent !== fileUrl)
-                );
-            }
-        } catch (error: any) {
-            if (error && 'response' in error && error.response?.data?.msg) {
-                alert(error.response.data.msg);
+            // 필요한 경우 메시지 목록 업데이트
+            setMessages(prevMessages =>
+                prevMessages.filter(msg => msg.chatMessageContent !== fileUrl)
+            );
+        } catch (error) {
+            if (error instanceof ApiError && error.msg) {
+                alert(error.msg);
             } else {
                 console.error('파일 삭제 실패:', error);
                 alert('파일 삭제에 실패했습니다.');
@@ -136,41 +169,21 @@ const Chat: React.FC<{ memberId: number }> = ({ memberId }) => {
         }
 
         try {
-            const formData = new FormData();
-            formData.append('file', file);
-
-            const response = await axios.post<FileUploadResponse>(
-                `${request_URL}/api/v1/chatRooms/${chatRoomId}/files/upload`,
-                formData,
-                {
-                    headers: {
-                        'Content-Type': 'multipart/form-data',
-                    },
-                    withCredentials: true
-                }
-            );
+            const fileUrl = await chatMessagesApi.uploadFile(chatRoomId, file);
 
-            if (response.data.resultCode === "200") {
-                // 파일 URL을 포함한 메시지 전송
-                const messageToSend = {
-                    content: response.data.data, // S3 URL을 content로 전송
-                    originalFileName: file.name  // 원본 파일명 추가
-                };
-
-                await axios.post(
-                    `${request_URL}/api/v1/chatRooms/${chatRoomId}/messages`,
-                    messageToSend,
-                    { withCredentials: true }
-                );
-
-                setTimeout(() => {    // 맨 아래로 스크롤
-                    scrollToBottom(true);
-                }, 100)
-            }
-        } catch (error: any) {
-            if (error && 'response' in error && error.response?.data?.msg) {
+            // 파일 URL을 포함한 메시지 전송
+            await chatMessagesApi.send(chatRoomId, {
+                content: fileUrl, // S3 URL을 content로 전송
+                originalFileName: file.name  // 원본 파일명 추가
+            });
+
+            setTimeout(() => {    // 맨 아래로 스크롤
+                scrollToBottom(true);
+            }, 100)
+        } catch (error) {
+            if (error instanceof ApiError && error.msg) {
                 setTimeout(() => {
-                    alert(error.response.data.msg);
+                    alert(error.msg);
                 }, 50)
             } else {
                 console.error('파일 업로드 실패:', error);
@@ -217,14 +230,84 @@ const Chat: React.FC<{ memberId: number }> = ({ memberId }) => {
         return contentMatch && nicknameMatch;
     };
 
+    // 보내는 중/실패한 내 메시지 - 에코가 먼저 와서 목록에 있으면 빼고, 검색 중에는 보여주지 않는다
+    const receivedClientIds = new Set(messages.map((message) => message.clientId).filter(Boolean));
+    const pendingMessages = isSearchMode ? [] : outbox.outgoing.filter((message) => !receivedClientIds.has(message.clientId));
+    const pendingStatus = new Map(pendingMessages.map((message) => [message.clientId, message.status]));
+
+    // 화면에 보이는 메시지 (오래된 것부터, 보내는 중인 메시지는 맨 아래)
+    const visibleMessages = [
+        ...messages.slice().reverse().filter(filterMessagesBySearch),
+        ...pendingMessages.map((message): ChatMessage => ({
+            nickname: currentUserNickname,
+            chatMessageContent: message.content,
+            messageTimestamp: message.createdAt,
+            clientId: message.clientId,
+            replyTo: message.replyTo,
+        })),
+    ];
+    // 메시지마다 높이가 달라(말풍선 길이, 이미지) 그려진 메시지는 측정해서 사용
+    const messageList = useVirtualList({
+        count: visibleMessages.length,
+        getKey: (index) => getMessageKey(visibleMessages[index]),
+        estimateSize: 60,
+        scrollElementRef: messagesListRef,
+    });
+
+    // 멘션 후보 - 채팅방 멤버 (프로필은 메시지에 있는 이메일로 연다)
+    const emailByNickname = new Map<string, string>();
+    messages.forEach((message) => {
+        if (message.nickname && message.email && !emailByNickname.has(message.nickname)) {
+            emailByNickname.set(message.nickname, message.email);
+        }
+    });
+    const mentionCandidates: MentionCandidate[] = memberStatusList
+        .filter((status) => status.nickname !== currentUserNickname)
+        .map((status) => ({ nickname: status.nickname, email: emailByNickname.get(status.nickname) }));
+    const mention = useMentionInput<HTMLInputElement>({
+        value: messageInput,
+        onChange: setMessageInput,
+        candidates: mentionCandidates,
+    });
+
+    // #message-123 으로 들어오면 그 메시지가 나올 때까지 이전 메시지를 불러와 스크롤
+    const handledAnchorRef = useRef('');
+    const [highlightedMessageId, setHighlightedMessageId] = useState<number | null>(null);
+    // 찾는 함수는 최신 상태를 보도록 매 렌더 갱신하고, 찾기는 메시지가 더 불러와질 때마다 다시 한다
+    const findAnchorRef = useRef(() => {});
+    useEffect(() => {
+        findAnchorRef.current = () => {
+            const match = location.hash.match(MESSAGE_ANCHOR_PATTERN);
+            if (!match || handledAnchorRef.current === location.hash || isSearchMode || messages.length === 0) return;
+            const messageId = Number(match[1]);
+            const index = visibleMessages.findIndex((message) => message.messageId === messageId);
+            if (index >= 0) {
+                handledAnchorRef.current = location.hash;
+                setHighlightedMessageId(messageId);
+                messageList.scrollToIndex(index);
+            } else if (hasMore && currentPage < MAX_ANCHOR_PAGES) {
+                loadMoreMessages();
+            } else {
+                handledAnchorRef.current = location.hash; // 찾지 못하면 최신 메시지로
+                scrollToBottom(true);
+            }
+        };
+    });
+    useEffect(() => {
+        findAnchorRef.current();
+    }, [location.hash, messages.length]);
+
+    useEffect(() => {
+        if (highlightedMessageId === null) return;
+        const timer = setTimeout(() => setHighlightedMessageId(null), HIGHLIGHT_DURATION);
+        return () => clearTimeout(timer);
+    }, [highlightedMessageId]);
+
     // 채팅 메시지 읽음 카운트 가져오기
     const fetchMessageCount = async () => {
         try {
-            const response = await axios.get<messageCountResponse>(
-                request_URL + `/api/v1/chatRooms/${chatRoomId}/messages/count`,
-                { withCredentials: true }
-            );
-            const counts = response.data.data.reduce((acc: { [key: number]: number }, curr) => {
+            const readCounts = await chatMessagesApi.getReadCounts(chatRoomId);
+            const counts = readCounts.reduce((acc: { [key: number]: number }, curr) => {
                 acc[curr.messageId] = curr.count;
                 return acc;
             }, {});
@@ -237,33 +320,83 @@ const Chat: React.FC<{ memberId: number }> = ({ memberId }) => {
     // 채팅방 입장 시 메시지 불러오기
     const fetchPreviousMessages = async (page: number) => {
         try {
-            const response = await axios.get<ChatResponse>(
-                request_URL + `/api/v1/chatRooms/${chatRoomId}/messages?page=${page}`,
-                { withCredentials: true }  // 인증 정보 포함
-            );
+            const data = await chatMessagesApi.getMessages(chatRoomId, page);
 
             if (page === 0) {
-                setMessages(response.data.data.content);
+                setMessages(data.content);
                 // 첫 로드시 가장 최신 메시지의 읽음 상태 업데이트
-                if (response.data.data.content.length > 0) {
-                    const latestMessage = response.data.data.content[0]; // 가장 최신 메시지
+                if (data.content.length > 0) {
+                    const latestMessage = data.content[0]; // 가장 최신 메시지
                     if (latestMessage.messageId) {  // id 필드 추가 필요
                         await updateMessageReadStatus(latestMessage.messageId);
                         await fetchMessageCount();
                     }
                 }
                 await updateMemberLoginStatus();    // 채팅방 멤버의 로그인 상태 가져오기
-                setTimeout(() => scrollToBottom(true), 100);
+                // 특정 메시지로 들어온 경우는 그 메시지로 스크롤 (위의 #message- 처리)
+                if (!MESSAGE_ANCHOR_PATTERN.test(window.location.hash)) {
+                    setTimeout(() => scrollToBottom(true), 100);
+                }
             } else {
-                setMessages(prev => [...prev, ...response.data.data.content]);
+                // 새 메시지가 앞에 붙으면 페이지가 밀리므로 이미 있는 메시지는 뺀다
+                setMessages(prev => mergeMessages(prev, data.content, 'older'));
             }
 
-            setHasMore(page < response.data.data.page.totalPages - 1);
+            setHasMore(page < data.page.totalPages - 1);
         } catch (error) {
             console.error('메시지 조회 실패:', error);
         }
     };
 
+    // 새 메시지 도착 시 스크롤 위치에 따라 알림 표시
+    const followNewMessages = () => {
+        if (messagesListRef.current) {
+            const element = messagesListRef.current;
+            const isScrolledNearBottom = element.scrollHeight - element.scrollTop - element.clientHeight < 100;
+
+            if (!isScrolledNearBottom) {
+                setShowScrollButton(true);
+            } else {
+                setTimeout(() => scrollToBottom(true), 50);
+            }
+        }
+    };
+
+    // 재연결 후 끊긴 동안 놓친 메시지만 불러와 목록 앞에 붙인다 (목록을 갈아끼우지 않아 스크롤 위치가 유지된다)
+    const resyncMessages = async () => {
+        const { messages: current, isSearchMode: searching } = latestRef.current;
+        if (searching) return; // 검색 결과는 초기화할 때 다시 불러온다
+        const lastMessageId = current.find((message) => message.messageId !== undefined)?.messageId;
+
+        try {
+            const missed: ChatMessage[] = [];
+            for (let page = 0; page < MAX_RESYNC_PAGES; page++) {
+                const data = await chatMessagesApi.getMessages(chatRoomId, page);
+                const knownIndex = lastMessageId === undefined
+                    ? -1
+                    : data.content.findIndex((message) => message.messageId !== undefined && message.messageId <= lastMessageId);
+                missed.push(...(knownIndex >= 0 ? data.content.slice(0, knownIndex) : data.content));
+                if (knownIndex < 0 && page < data.page.totalPages - 1) continue;
+
+                if (missed.length > 0) {
+                    setMessages(prev => mergeMessages(prev, missed, 'newer'));
+                    followNewMessages();
+                    if (missed[0].messageId) {
+                        await updateMessageReadStatus(missed[0].messageId);
+                    }
+                }
+                await fetchMessageCount();
+                return;
+            }
+
+            // 너무 오래 끊겨 있었으면 처음부터 다시 불러온다
+            setCurrentPage(0);
+            await fetchPreviousMessages(0);
+        } catch (error) {
+            console.error('놓친 메시지 불러오기 실패:', error);
+        }
+    };
+
     // 메시지 페이징
     const loadMoreMessages = () => {
         const nextPage = currentPage + 1;
@@ -274,15 +407,7 @@ const Chat: React.FC<{ memberId: number }> = ({ memberId }) => {
     // 메시지 읽음 상태 업데이트 함수
     const updateMessageReadStatus = async (latestMessageId: number) => {
         try {
-            const messageReadStatus = {
-                messageId: latestMessageId
-            };
-
-            await axios.put(
-                request_URL + `/api/v1/chatRooms/${chatRoomId}/messages/readStatus`,
-                messageReadStatus,
-                { withCredentials: true }  // 인증 정보 포함
-            );
+            await chatMessagesApi.updateReadStatus(chatRoomId, latestMessageId);
         } catch (error) {
             console.error('메시지 읽음 상태 업데이트 실패:', error);
         }
@@ -291,11 +416,7 @@ const Chat: React.FC<{ memberId: number }> = ({ memberId }) => {
     // 채팅방 멤버의 로그인 상태 가져오기
     const updateMemberLoginStatus = async () => {
         try {
-            const response = await axios.get<MemberStatusResponse>(
-                request_URL + `/api/v1/chatRooms/${chatRoomId}/members`,
-                { withCredentials: true }
-            );
-            setMemberStatusList(response.data.data); // data 필드에서 멤버 상태 배열 추출
+            setMemberStatusList(await chatMessagesApi.getMembers(chatRoomId));
         } catch (error) {
             setTimeout(() => {
                 alert("해당 채팅방의 멤버만 입장이 가능합니다.");
@@ -308,11 +429,7 @@ const Chat: React.FC<{ memberId: number }> = ({ memberId }) => {
     // 채팅방 멤버의 로그인 상태 오프라인으로 변경하기
     const updateLogout = async () => {
         try {
-            await axios.patch(
-                request_URL + `/api/v1/chatRooms/${chatRoomId}/members/logout`,
-                {},
-                { withCredentials: true }
-            );
+            await chatMessagesApi.logout(chatRoomId);
         } catch (error) {
             console.error('유저 로그아웃 상태 업데이트 실패:', error);
         };
@@ -321,11 +438,7 @@ const Chat: React.FC<{ memberId: number }> = ({ memberId }) => {
     // 채팅방 멤버의 로그인 상태 온라인으로 변경하기
     const updateLogin = async () => {
         try {
-            await axios.patch(
-                request_URL + `/api/v1/chatRooms/${chatRoomId}/members/login`,
-                {},
-                { withCredentials: true }
-            );
+            await chatMessagesApi.login(chatRoomId);
         } catch (error) {
             console.error('유저 로그인 상태 업데이트 실패:', error);
         };
@@ -345,27 +458,16 @@ const Chat: React.FC<{ memberId: number }> = ({ memberId }) => {
     // 채팅 내용 검색
     const messageSearch = async (keyword: string, nickname: string, page: number = 0) => {
         try {
-            // eks 붙이면 엘라스틱, 안붙이면 쿼리dsl
-            const response = await axios.get<ChatResponse>(
-                `${request_URL}/api/v1/chatRooms/${chatRoomId}/messages/search/eks`,
-                {
-                    params: {
-                        keyword,
-                        nickname,
-                        // page
-                    },
-                    withCredentials: true
-                }
-            );
+            const data = await chatMessagesApi.search(chatRoomId, keyword, nickname);
 
-            if (response.data && response.data.data) {
+            if (data) {
                 if (page === 0) {
-                    setMessages(response.data.data.content);
+                    setMessages(data.content);
                 } else {
-                    setMessages(prev => [...prev, ...response.data.data.content]);
+                    setMessages(prev => [...prev, ...data.content]);
                 }
                 setSearchKeyword(keyword);
-                setHasMore(page < response.data.data.page.totalPages - 1);
+                setHasMore(page < data.page.totalPages - 1);
                 setIsSearchMode(true);
                 setCurrentSearchKeyword(keyword);
                 setCurrentSearchNickname(nickname);
@@ -385,7 +487,19 @@ const Chat: React.FC<{ memberId: number }> = ({ memberId }) => {
         }
     };
 
+    // 내 접속 상태 보내기 - 다른 멤버에게는 /topic/members 로 바뀐 상태가 간다
+    const publishPresence = useCallback(() => {
+        const client = stompClientRef.current;
+        if (!client?.connected) return;
+        client.publish({
+            destination: `/app/chat/${chatRoomId}/presence`,
+            body: JSON.stringify({ status: document.visibilityState === 'hidden' ? 'AWAY' : 'LOGIN' }),
+        });
+    }, [chatRoomId]);
+
     useEffect(() => {
+        let hasConnected = false; // 두 번째 연결부터는 재연결
+        setConnectionStatus('connecting');
         const client = new Client({
             brokerURL: WEBSOCKET_URL,
             reconnectDelay: 5000,
@@ -400,19 +514,38 @@ const Chat: React.FC<{ memberId: number }> = ({ memberId }) => {
             },
             onConnect: () => {
                 console.log('STOMP 연결 성공');
+                setConnectionStatus('connected');
                 updateLogin();
-                fetchPreviousMessages(0);
-                setTimeout(() => {
-                    fetchMessageCount();
-                }, 100); // 0.1초 딜레이 (연속된 요청으로 인한 에러 방지)
-
-                // 멤버 상태 변경 구독 추가
-                client.subscribe(`/topic/members/${chatRoomId}`, () => {
+                if (hasConnected) {
+                    resyncMessages();
+                } else {
+                    fetchPreviousMessages(0);
                     setTimeout(() => {
-                        updateMemberLoginStatus(); // 멤버 상태 변경 시 업데이트
-                    }, 500); // 0.5초 딜레이 (연속된 요청으로 인한 에러 방지)
+                        fetchMessageCount();
+                    }, 100); // 0.1초 딜레이 (연속된 요청으로 인한 에러 방지)
+                }
+                hasConnected = true;
+
+                // 멤버 상태 변경 구독 - 바뀐 멤버만 반영 (상태 없이 오면 목록을 다시 불러온다)
+                client.subscribe(`/topic/members/${chatRoomId}`, (message) => {
+                    const changed = parseMemberStatus(message.body);
+                    if (!changed) {
+                        setTimeout(() => {
+                            updateMemberLoginStatus(); // 멤버 상태 변경 시 업데이트
+                        }, 500); // 0.5초 딜레이 (연속된 요청으로 인한 에러 방지)
+                        return;
+                    }
+                    setMemberStatusList(prev => prev.some(status => status.nickname === changed.nickname)
+                        ? prev.map(status => (status.nickname === changed.nickname ? changed : status))
+                        : [...prev, changed]);
                 });
 
+                // 입력 중 구독
+                client.subscribe(`/topic/chat/${chatRoomId}/typing`, (message) => {
+                    typing.handleTypingEvent(JSON.parse(message.body) as TypingEvent);
+                });
+                publishPresence();
+
                 // 채팅 메시지 구독
                 client.subscribe(`/topic/chat/${chatRoomId}`, (message) => {
                     if (message.body) {
@@ -425,27 +558,22 @@ const Chat: React.FC<{ memberId: number }> = ({ memberId }) => {
                                     nickname: receivedData.data.nickname,
                                     email: receivedData.data.email,  // 추가
                                     chatMessageContent: receivedData.data.chatMessageContent,
-                                    messageTimestamp: receivedData.data.createDate
+                                    messageTimestamp: receivedData.data.createDate,
+                                    clientId: receivedData.data.clientId,
+                                    replyTo: receivedData.data.replyTo,
                                 };
+                                // 내가 보낸 메시지의 에코면 보내는 중 표시를 지운다
+                                if (chatMessage.clientId) {
+                                    outbox.acknowledge(chatMessage.clientId);
+                                }
 
                                 // 검색 모드일 때는 키워드가 포함된 메시지만 추가
                                 if (!isSearchMode ||
                                     (chatMessage.chatMessageContent.toLowerCase().includes(currentSearchKeyword.toLowerCase()) &&
                                         (!currentSearchNickname || chatMessage.nickname?.toLowerCase() === currentSearchNickname.toLowerCase()))) {
-                                    setMessages(prev => [chatMessage, ...prev]);
-                                }
-
-                                // 새 메시지 도착 시 스크롤 위치에 따라 알림 표시
-                                if (messagesListRef.current) {
-                                    const element = messagesListRef.current;
-                                    const isScrolledNearBottom = element.scrollHeight - element.scrollTop - element.clientHeight < 100;
-
-                                    if (!isScrolledNearBottom) {
-                                        setShowScrollButton(true);
-                                    } else {
-                                        setTimeout(() => scrollToBottom(true), 50);
-                                    }
+                                    setMessages(prev => mergeMessages(prev, [chatMessage], 'newer'));
                                 }
+                                followNewMessages();
 
                                 // 새 메시지가 도착하면 읽음 상태 업데이트
                                 if (receivedData.data.id) {
@@ -456,9 +584,22 @@ const Chat: React.FC<{ memberId: number }> = ({ memberId }) => {
                                 }, 100); // 0.1초 딜레이 (연속된 요청으로 인한 에러 방지)
                                 break;
 
+                            case 'EDIT':
+                                setMessages(prev => applyMessageEdit(prev, receivedData.data.id, receivedData.data.chatMessageContent));
+                                break;
+
+                            case 'DELETE':
+                                setMessages(prev => applyMessageDelete(prev, receivedData.data.id));
+                                break;
+
+                            case 'REACTION':
+                                // 반응이 바뀐 메시지의 전체 반응 목록
+                                setMessages(prev => applyMessageReactions(prev, receivedData.data.id, () => receivedData.data.reactions ?? []));
+                                break;
+
                             case 'COUNT':
                                 // COUNT 타입으로 받은 데이터를 메시지 읽음 수에 반영
-                                const countMap = receivedData.data.reduce((acc: { [key: number]: number }, curr: messageCount) => {
+                                const countMap = receivedData.data.reduce((acc: { [key: number]: number }, curr: MessageCount) => {
                                     acc[curr.messageId] = curr.count;
                                     return acc;
                                 }, {});
@@ -468,6 +609,12 @@ const Chat: React.FC<{ memberId: number }> = ({ memberId }) => {
                     }
 
                 });
+
+                outbox.flush(); // 연결이 끊긴 동안 보관한 메시지 전송 (에코를 받도록 구독 후에 보낸다)
+            },
+            // 끊겨도 reconnectDelay 후 다시 연결을 시도한다 (직접 끊은 경우는 active 가 아님)
+            onWebSocketClose: () => {
+                if (client.active) setConnectionStatus('reconnecting');
             },
             onDisconnect: () => {
                 updateLogout();
@@ -488,6 +635,17 @@ const Chat: React.FC<{ memberId: number }> = ({ memberId }) => {
         };
     }, [chatRoomId, memberId]);
 
+    // 탭을 보고 있지 않으면 자리 비움
+    const { stopTyping } = typing;
+    useEffect(() => {
+        const handleVisibilityChange = () => {
+            if (document.visibilityState === 'hidden') stopTyping();
+            publishPresence();
+        };
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+        return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+    }, [stopTyping, publishPresence]);
+
     // 스크롤 이벤트 리스너 추가
     useEffect(() => {
         const messagesList = messagesListRef.current;
@@ -501,37 +659,113 @@ const Chat: React.FC<{ memberId: number }> = ({ memberId }) => {
         };
     }, []);
 
-    // 메시지 전송
-    const sendMessage = async () => {
-        if (!messageInput.trim() || !stompClientRef.current) return;
+    // 메시지 전송 - STOMP 로 보내고 에코가 올 때까지 보내는 중으로 표시 (연결이 끊겨 있으면 다시 연결될 때 전송)
+    // 채팅방 멤버가 아니면 입장할 때(updateMemberLoginStatus) 모임 리스트로 이동한다
+    const sendMessage = () => {
+        if (!messageInput.trim()) return;
+        if (editingMessage) {
+            submitEdit();
+            return;
+        }
 
-        const messageToSend = {
-            content: messageInput,
-        };
+        outbox.send(messageInput, extractMentions(messageInput, mentionCandidates), replyTarget ?? undefined); // 멘션된 멤버에게 알림
+        typing.stopTyping();
+        setMessageInput('');
+        setReplyTarget(null);
+        mention.close();
+        setTimeout(() => scrollToBottom(true), 50);
+    };
 
-        try {
-            // stompClientRef.current.publish({
-            //     destination: `/app/chat/${chatRoomId}`,
-            //     body: JSON.stringify(messageToSend),
-            // });
-
-            await axios.post(
-                request_URL + `/api/v1/chatRooms/${chatRoomId}/messages`,
-                messageToSend,
-                { withCredentials: true }  // 인증 정보 포함
-            );
+    const startReply = (message: ChatMessage) => {
+        if (!message.messageId) return;
+        if (editingMessage) cancelComposer();
+        setReplyTarget({ messageId: message.messageId, nickname: message.nickname, content: message.chatMessageContent });
+        mention.inputRef.current?.focus();
+    };
+
+    const startEdit = (message: ChatMessage) => {
+        setReplyTarget(null);
+        setEditingMessage(message);
+        setMessageInput(message.chatMessageContent);
+        mention.inputRef.current?.focus();
+    };
 
+    // 답장/수정 취소 (수정 중이던 내용은 버린다)
+    const cancelComposer = () => {
+        if (editingMessage) setMessageInput('');
+        setEditingMessage(null);
+        setReplyTarget(null);
+    };
+
+    // 메시지 수정 - 다른 멤버에게는 EDIT 로 전달된다
+    const submitEdit = async () => {
+        if (!editingMessage?.messageId) return;
+        const { messageId } = editingMessage;
+        const content = messageInput.trim();
+        if (content === editingMessage.chatMessageContent) {
+            cancelComposer();
+            return;
+        }
+
+        try {
+            await chatMessagesApi.modify(chatRoomId, messageId, {
+                content,
+                mentions: extractMentions(content, mentionCandidates),
+            });
+            setMessages(prev => applyMessageEdit(prev, messageId, content));
+            typing.stopTyping();
+            mention.close();
+            setEditingMessage(null);
             setMessageInput('');
-            scrollToBottom(true);
-        } catch (error: any) {
-            if (error.response?.status === 403) {        // 403코드는 error로 잡혀서 조건문 실행 안됨
-                setTimeout(() => {
-                    alert("해당 채팅방의 멤버만 채팅이 가능합니다.");
-                }, 100)
-                await navigate('/chatroom');  // 채팅방 멤버가 아닐 경우, 모임 리스트 게시판으로 이동
-            }
+        } catch (error) {
+            console.error('메시지 수정 실패:', error);
+            alert(getErrorMessage(error, '메시지 수정에 실패했습니다.'));
+        }
+    };
+
+    // 모두에게서 삭제 - 자리에는 "삭제된 메시지입니다." 만 남는다
+    const deleteMessage = async (messageId: number) => {
+        setDeleteTargetId(null);
+        try {
+            await chatMessagesApi.remove(chatRoomId, messageId);
+            setMessages(prev => applyMessageDelete(prev, messageId));
+            if (replyTarget?.messageId === messageId) setReplyTarget(null);
+            if (editingMessage?.messageId === messageId) cancelComposer();
+        } catch (error) {
+            console.error('메시지 삭제 실패:', error);
+            alert(getErrorMessage(error, '메시지 삭제에 실패했습니다.'));
+        }
+    };
+
+    // 반응 남기기/취소 - 화면에 먼저 반영하고 실패하면 되돌린다 (같은 토글을 한 번 더)
+    const reactToMessage = async (messageId: number, emoji: string) => {
+        setReactionPickerId(null);
+        const toggle = (reactions?: ChatMessageReaction[]) => toggleReaction(reactions, emoji, currentUserNickname);
+        setMessages(prev => applyMessageReactions(prev, messageId, toggle));
+        try {
+            await chatMessagesApi.toggleReaction(chatRoomId, messageId, emoji);
+        } catch (error) {
+            setMessages(prev => applyMessageReactions(prev, messageId, toggle));
+            console.error('메시지 반응 실패:', error);
+            alert(getErrorMessage(error, '반응을 남기지 못했습니다.'));
+        }
+    };
+
+    const startLongPress = (messageId: number) => {
+        clearTimeout(longPressTimerRef.current);
+        longPressTimerRef.current = setTimeout(() => setReactionPickerId(messageId), LONG_PRESS_DURATION);
+    };
+
+    const cancelLongPress = () => clearTimeout(longPressTimerRef.current);
 
-            console.error('메시지 전송 실패:', error);
+    // 답장 미리보기를 누르면 원본으로 이동 (아직 불러오지 않았으면 #message- 처리로 찾는다)
+    const jumpToMessage = (messageId: number) => {
+        const index = visibleMessages.findIndex((message) => message.messageId === messageId);
+        if (index >= 0) {
+            setHighlightedMessageId(messageId);
+            messageList.scrollToIndex(index);
+        } else {
+            navigate({ hash: messageAnchorId(messageId) }, { replace: true });
         }
     };
 
@@ -575,21 +809,6 @@ const Chat: React.FC<{ memberId: number }> = ({ memberId }) => {
         };
     }, []);
 
-    useEffect(() => {
-        const fetchUserInfo = async () => {
-            try {
-                const userInfo = localStorage.getItem('userInfo');
-                if (userInfo) {
-                    const { data } = JSON.parse(userInfo);
-                    setCurrentUserNickname(data.nickname);
-                }
-            } catch (error) {
-                console.error('사용자 정보 로드 실패:', error);
-            }
-        };
-        fetchUserInfo();
-    }, []);
-
     // 채팅 검색 컴포넌트
     const ChatSearch = ({ onSearch }: { onSearch: (keyword: string, nickname: string) => void }) => {
         const [keyword, setKeyword] = useState("");
@@ -601,11 +820,16 @@ const Chat: React.FC<{ memberId: number }> = ({ memberId }) => {
             // '홍길동', 커피 형식의 패턴 매칭
             const nicknameContentPattern = /^['"]([^'"]+)['"],\s*(.+)$/;
             const match = keyword.match(nicknameContentPattern);
+            // @홍길동 커피 형식 (멘션과 같은 표기)
+            const mentionMatch = keyword.match(/^@(\S+)\s+(.+)$/);
 
             let searchKeyword = keyword;
             let searchNickname = "";
 
-            if (match) {
+            if (mentionMatch) {
+                searchNickname = mentionMatch[1];
+                searchKeyword = mentionMatch[2];
+            } else if (match) {
                 // 매칭된 경우 닉네임과 검색어 분리
                 searchNickname = match[1];    // 따옴표 안의 닉네임
                 searchKeyword = match[2];     // 쉼표 뒤의 검색어
@@ -657,7 +881,7 @@ const Chat: React.FC<{ memberId: number }> = ({ memberId }) => {
                             type="text"
                             value={keyword}
                             onChange={(e) => setKeyword(e.target.value)}
-                            placeholder="검색어 입력 (닉네임 검색: '홍길동', 검색어)"
+                            placeholder="검색어 입력 (닉네임 검색: @홍길동 검색어)"
                             className="flex-1 h-10 px-3 border border-gray-300 rounded-lg focus:outline-none focus:border-primary"
                         />
                         <button
@@ -706,6 +930,12 @@ const Chat: React.FC<{ memberId: number }> = ({ memberId }) => {
             {/* 채팅 영역 */}
             <div className="flex-1"> {/* flex-1로 남은 공간 채움 */}
                 <ChatSearch onSearch={(keyword, nickname) => messageSearch(keyword, nickname, 0)} />
+                {connectionStatus === 'reconnecting' && (
+                    <div role="status" className="flex items-center gap-2 px-4 py-2 text-sm text-primary bg-[#FFF4F1]">
+                        <WifiOff className="w-4 h-4" />
+                        연결 끊김 · 재연결 중... 보내는 메시지는 연결되면 전송됩니다.
+                    </div>
+                )}
                 <div
                     className="messages-list relative flex flex-col"
                     ref={messagesListRef}
@@ -714,7 +944,8 @@ const Chat: React.FC<{ memberId: number }> = ({ memberId }) => {
                         overflowY: "auto",
                         display: "flex",
                         flexDirection: "column",
-                        padding: "20px"
+                        padding: "20px",
+                        overflowAnchor: "none" // 이전 메시지를 불러올 때 스크롤 위치는 useVirtualList 에서 보정
                     }}
                 >
                     {/* 이전 메시지 더보기 버튼*/}
@@ -735,20 +966,33 @@ const Chat: React.FC<{ memberId: number }> = ({ memberId }) => {
                     )}
 
                     {/* 메시지 목록 */}
-                    <div className="flex-grow flex flex-col justify-end" style={{ flexGrow: 1 }}>
-                        {messages.slice().reverse().filter(filterMessagesBySearch).map((msg, index, array) => {
+                    <div
+                        ref={messageList.listRef}
+                        className="flex-grow flex flex-col justify-end"
+                        style={{ flexGrow: 1, ...messageList.listStyle }}
+                    >
+                        {messageList.virtualItems.map(({ index, key }) => {
+                            const msg = visibleMessages[index];
                             const isMyMessage = msg.nickname === currentUserNickname;
                             const readCount = msg.messageId ? messageReadCounts[msg.messageId] || 0 : 0;
+                            const status = msg.clientId ? pendingStatus.get(msg.clientId) : undefined;
                             // 이전 메시지와 닉네임이 다르면 닉네임 표시
-                            const prevMessage = array[index - 1];
+                            const prevMessage = visibleMessages[index - 1];
                             const showNickname = !isMyMessage && (!prevMessage || prevMessage.nickname !== msg.nickname);
+                            const isFileMessage = msg.chatMessageContent.includes('https://hf-chat.s3.ap-northeast-2.amazonaws.com');
+                            // 서버에 저장된 메시지만 답장/수정/삭제 가능 (파일은 이미지의 삭제 버튼으로)
+                            const canAct = !!msg.messageId && !msg.isDeleted && !status;
+                            const reactions = msg.isDeleted ? [] : msg.reactions ?? [];
+                            const detailReaction = reactionDetail && reactionDetail.messageId === msg.messageId
+                                ? reactions.find((reaction) => reaction.emoji === reactionDetail.emoji)
+                                : undefined;
 
                             return (
-                                <div key={index} style={{
+                                <div key={key} ref={messageList.measureRef(key)} className="group" style={{
                                     display: 'flex',
                                     flexDirection: 'column',
                                     alignItems: isMyMessage ? 'flex-end' : 'flex-start',
-                                    margin: '8px 0'
+                                    padding: '8px 0' // margin 은 측정 높이에 포함되지 않으므로 padding 사용
                                 }}>
                                     {/* 닉네임 표시 (자신의 메시지가 아닐 때만) */}
                                     {showNickname && (
@@ -771,26 +1015,57 @@ const Chat: React.FC<{ memberId: number }> = ({ memberId }) => {
                                         alignItems: 'flex-end',
                                         gap: '8px'
                                     }}>
-                                        <div style={{
-                                            ...(msg.chatMessageContent.includes('https://hf-chat.s3.ap-northeast-2.amazonaws.com')
-                                                ? {
-                                                    // 이미지 메시지일 때의 스타일
-                                                    padding: '8px 40px 8px 0',
-                                                    background: 'transparent',
-                                                    maxWidth: '70%',
-                                                    wordBreak: 'break-word'
-                                                }
-                                                : {
-                                                    // 일반 텍스트 메시지일 때 기존 말풍선 스타일 유지
-                                                    background: isMyMessage ? '#F26A2E' : '#e9ecef',
-                                                    color: isMyMessage ? 'white' : 'black',
-                                                    padding: '8px 12px',
-                                                    borderRadius: isMyMessage ? '15px 15px 0 15px' : '15px 15px 15px 0',
-                                                }),
-                                            maxWidth: '70%',
-                                            wordBreak: 'break-word'
-                                        }}>
-                                            {msg.chatMessageContent.includes('https://hf-chat.s3.ap-northeast-2.amazonaws.com') ? (
+                                        <div
+                                            onTouchStart={() => canAct && msg.messageId && startLongPress(msg.messageId)}
+                                            onTouchMove={cancelLongPress}
+                                            onTouchEnd={cancelLongPress}
+                                            style={{
+                                                ...(isFileMessage
+                                                    ? {
+                                                        // 이미지 메시지일 때의 스타일
+                                                        padding: '8px 40px 8px 0',
+                                                        background: 'transparent',
+                                                        maxWidth: '70%',
+                                                        wordBreak: 'break-word'
+                                                    }
+                                                    : {
+                                                        // 일반 텍스트 메시지일 때 기존 말풍선 스타일 유지
+                                                        background: isMyMessage ? '#F26A2E' : '#e9ecef',
+                                                        color: isMyMessage ? 'white' : 'black',
+                                                        padding: '8px 12px',
+                                                        borderRadius: isMyMessage ? '15px 15px 0 15px' : '15px 15px 15px 0',
+                                                    }),
+                                                maxWidth: '70%',
+                                                wordBreak: 'break-word',
+                                                // 알림으로 들어온 메시지 강조
+                                                boxShadow: msg.messageId === highlightedMessageId ? '0 0 0 2px #FF6B36' : undefined,
+                                                opacity: status ? 0.6 : undefined, // 아직 서버에 저장되지 않은 메시지
+                                                ...(msg.isDeleted ? { background: '#f1f3f5', color: '#868e96', fontStyle: 'italic' } : {}),
+                                            }}
+                                        >
+                                            {/* 답장한 원본 미리보기 - 누르면 원본으로 이동 */}
+                                            {msg.replyTo && !msg.isDeleted && (
+                                                <button
+                                                    type="button"
+                                                    onClick={() => msg.replyTo && jumpToMessage(msg.replyTo.messageId)}
+                                                    style={{
+                                                        display: 'block',
+                                                        width: '100%',
+                                                        textAlign: 'left',
+                                                        fontSize: '0.75rem',
+                                                        borderLeft: `2px solid ${isMyMessage && !isFileMessage ? 'white' : '#F26A2E'}`,
+                                                        paddingLeft: '6px',
+                                                        marginBottom: '4px',
+                                                        opacity: 0.8,
+                                                    }}
+                                                >
+                                                    <span style={{ display: 'block', fontWeight: 600 }}>{msg.replyTo.nickname}</span>
+                                                    <span style={{ display: 'block', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', maxWidth: '200px' }}>
+                                                        {msg.replyTo.isDeleted ? '삭제된 메시지입니다.' : msg.replyTo.content}
+                                                    </span>
+                                                </button>
+                                            )}
+                                            {isFileMessage ? (
                                                 <div style={{ position: 'relative', display: 'inline-block' }}>
                                                     <img
                                                         src={msg.chatMessageContent}
@@ -823,8 +1098,16 @@ const Chat: React.FC<{ memberId: number }> = ({ memberId }) => {
                                                         </button>
                                                     )}
                                                 </div>
-                                            ) : (
+                                            ) : msg.isDeleted ? (
+                                                '삭제된 메시지입니다.'
+                                            ) : searchKeyword.trim() ? (
                                                 highlightKeyword(msg.chatMessageContent, searchKeyword)
+                                            ) : (
+                                                <MentionText
+                                                    text={msg.chatMessageContent}
+                                                    candidates={mentionCandidates}
+                                                    mentionClassName={isMyMessage ? 'font-bold underline' : undefined}
+                                                />
                                             )}
                                         </div>
                                         <div style={{
@@ -840,9 +1123,112 @@ const Chat: React.FC<{ memberId: number }> = ({ memberId }) => {
                                                     {readCount}
                                                 </span>
                                             )}
-                                            <span>{formatMessageTime(msg.messageTimestamp)}</span>
+                                            {status === 'sending' && <span>전송 중</span>}
+                                            {status === 'failed' && (
+                                                <span style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
+                                                    <span style={{ color: '#dc3545' }}>전송 실패</span>
+                                                    <button onClick={() => msg.clientId && outbox.retry(msg.clientId)} style={{ color: '#F26A2E' }}>
+                                                        재전송
+                                                    </button>
+                                                    <button onClick={() => msg.clientId && outbox.discard(msg.clientId)}>
+                                                        삭제
+                                                    </button>
+                                                </span>
+                                            )}
+                                            {!status && (
+                                                <span>
+                                                    {msg.isEdited && !msg.isDeleted && '(수정됨) '}
+                                                    {formatMessageTime(msg.messageTimestamp)}
+                                                </span>
+                                            )}
                                         </div>
+                                        {canAct && (
+                                            <div className="hidden group-hover:flex items-center gap-1 self-center text-gray-400">
+                                                <button
+                                                    type="button"
+                                                    onClick={() => setReactionPickerId(id => (id === msg.messageId ? null : msg.messageId ?? null))}
+                                                    className="p-1 hover:text-primary"
+                                                    aria-label="반응"
+                                                >
+                                                    <SmilePlus className="w-4 h-4" />
+                                                </button>
+                                                <button type="button" onClick={() => startReply(msg)} className="p-1 hover:text-primary" aria-label="답장">
+                                                    <Reply className="w-4 h-4" />
+                                                </button>
+                                                {isMyMessage && !isFileMessage && (
+                                                    <>
+                                                        <button type="button" onClick={() => startEdit(msg)} className="p-1 hover:text-primary" aria-label="수정">
+                                                            <Pencil className="w-4 h-4" />
+                                                        </button>
+                                                        <button type="button" onClick={() => setDeleteTargetId(msg.messageId ?? null)} className="p-1 hover:text-red-500" aria-label="삭제">
+                                                            <Trash2 className="w-4 h-4" />
+                                                        </button>
+                                                    </>
+                                                )}
+                                            </div>
+                                        )}
                                     </div>
+
+                                    {/* 반응 선택 (hover 의 반응 버튼 / 길게 누르기) */}
+                                    {canAct && reactionPickerId === msg.messageId && (
+                                        <div className="flex gap-1 mt-1 px-2 py-1 bg-white border border-gray-200 rounded-full shadow-sm">
+                                            {CHAT_REACTION_EMOJIS.map((emoji) => (
+                                                <button
+                                                    key={emoji}
+                                                    type="button"
+                                                    onClick={() => msg.messageId && reactToMessage(msg.messageId, emoji)}
+                                                    className="px-1 text-lg hover:scale-125 transition-transform"
+                                                >
+                                                    {emoji}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    )}
+
+                                    {/* 반응 - 누르면 반응한 멤버 */}
+                                    {reactions.length > 0 && (
+                                        <div className="flex flex-wrap gap-1 mt-1">
+                                            {reactions.map((reaction) => (
+                                                <button
+                                                    key={reaction.emoji}
+                                                    type="button"
+                                                    title={reaction.nicknames.join(', ')}
+                                                    onClick={() => setReactionDetail(
+                                                        detailReaction?.emoji === reaction.emoji || !msg.messageId
+                                                            ? null
+                                                            : { messageId: msg.messageId, emoji: reaction.emoji }
+                                                    )}
+                                                    className={`px-2 py-0.5 text-xs rounded-full border ${reaction.nicknames.includes(currentUserNickname)
+                                                        ? 'border-primary bg-[#FFF4F1] text-primary'
+                                                        : 'border-gray-200 bg-white text-gray-600'}`}
+                                                >
+                                                    {reaction.emoji} {reaction.nicknames.length}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    )}
+                                    {detailReaction && (
+                                        <div className="mt-1 p-2 w-48 text-xs bg-white border border-gray-200 rounded-lg shadow-sm">
+                                            <div className="flex items-center justify-between mb-1">
+                                                <span className="font-semibold text-gray-700">{detailReaction.emoji} 반응한 멤버</span>
+                                                <button type="button" onClick={() => setReactionDetail(null)} className="text-gray-400" aria-label="닫기">
+                                                    <X className="w-3 h-3" />
+                                                </button>
+                                            </div>
+                                            <ul className="max-h-24 overflow-y-auto text-gray-600">
+                                                {detailReaction.nicknames.map((nickname) => (
+                                                    <li key={nickname}>{nickname}</li>
+                                                ))}
+                                            </ul>
+                                            <button
+                                                type="button"
+                                                onClick={() => msg.messageId && reactToMessage(msg.messageId, detailReaction.emoji)}
+                                                className="mt-1 text-primary"
+                                            >
+                                                {detailReaction.nicknames.includes(currentUserNickname) ? '내 반응 취소' : '나도 반응하기'}
+                                            </button>
+                                        </div>
+                                    )}
                                 </div>
                             );
                         })}
@@ -869,6 +1255,29 @@ const Chat: React.FC<{ memberId: number }> = ({ memberId }) => {
                     )}
                 </div>
 
+                {/* 입력 중인 멤버 (자리를 미리 잡아 목록이 흔들리지 않게) */}
+                <div className="h-5 px-3 text-xs text-gray-500" aria-live="polite">
+                    {typing.typingNicknames.length > 0 && formatTypingText(typing.typingNicknames)}
+                </div>
+
+                {/* 답장/수정 중인 메시지 */}
+                {(replyTarget || editingMessage) && (
+                    <div className="flex items-center gap-2 px-3 py-2 text-xs bg-gray-50 border-t border-gray-200">
+                        {replyTarget ? <Reply className="w-4 h-4 text-primary" /> : <Pencil className="w-4 h-4 text-primary" />}
+                        <div className="flex-1 min-w-0">
+                            <p className="font-semibold text-gray-700">
+                                {replyTarget ? `${replyTarget.nickname}님에게 답장` : '메시지 수정'}
+                            </p>
+                            <p className="truncate text-gray-500">
+                                {replyTarget ? replyTarget.content : editingMessage?.chatMessageContent}
+                            </p>
+                        </div>
+                        <button type="button" onClick={cancelComposer} className="p-1 text-gray-400 hover:text-gray-600" aria-label="취소">
+                            <X className="w-4 h-4" />
+                        </button>
+                    </div>
+                )}
+
                 {/* 메시지 입력창 */}
                 <div className="message-input" style={{
                     display: 'flex',
@@ -876,23 +1285,48 @@ const Chat: React.FC<{ memberId: number }> = ({ memberId }) => {
                     padding: '10px',
                     borderTop: '1px solid #ddd'
                 }}>
-                    <input
-                        type="text"
-                        value={messageInput}
-                        onChange={(e) => setMessageInput(e.target.value)}
-                        onKeyPress={(e) => e.key === 'Enter' && sendMessage()}
-                        placeholder="메시지를 입력하세요..."
-                        maxLength={250}
-                        style={{
-                            flex: 1,
-                            padding: '8px',
-                            borderRadius: '4px',
-                            border: '1px solid #ddd',
-                            outline: 'none' // 기본 포커스 테두리 제거
-                        }}
-                        onFocus={(e) => e.target.style.border = '1px solid #F26A2E'} // 포커스 시 테두리 색상
-                        onBlur={(e) => e.target.style.border = '1px solid #ddd'} // 포커스 해제 시 원래 색상
-                    />
+                    <div style={{ position: 'relative', flex: 1, display: 'flex' }}>
+                        <input
+                            ref={mention.inputRef}
+                            type="text"
+                            value={messageInput}
+                            onChange={(e) => {
+                                mention.handleChange(e);
+                                if (e.target.value.trim()) {
+                                    typing.notifyTyping();
+                                } else {
+                                    typing.stopTyping();
+                                }
+                            }}
+                            onKeyDown={(e) => {
+                                // 멘션 후보가 열려 있으면 Enter 는 후보 선택
+                                if (mention.handleKeyDown(e)) return;
+                                if (e.key === 'Escape') cancelComposer();
+                                if (e.key === 'Enter' && !e.nativeEvent.isComposing) sendMessage();
+                            }}
+                            placeholder="메시지를 입력하세요... (@로 멤버 언급)"
+                            maxLength={250}
+                            style={{
+                                flex: 1,
+                                padding: '8px',
+                                borderRadius: '4px',
+                                border: '1px solid #ddd',
+                                outline: 'none' // 기본 포커스 테두리 제거
+                            }}
+                            onFocus={(e) => e.target.style.border = '1px solid #F26A2E'} // 포커스 시 테두리 색상
+                            onBlur={(e) => {
+                                e.target.style.border = '1px solid #ddd'; // 포커스 해제 시 원래 색상
+                                mention.close();
+                                typing.stopTyping();
+                            }}
+                        />
+                        <MentionSuggestions
+                            suggestions={mention.suggestions}
+                            activeIndex={mention.activeIndex}
+                            onSelect={mention.select}
+                            onHover={mention.setActiveIndex}
+                        />
+                    </div>
                     <button
                         onClick={sendMessage}
                         style={{
@@ -950,6 +1384,16 @@ const Chat: React.FC<{ memberId: number }> = ({ memberId }) => {
                 </div>
             </div>
 
+            {deleteTargetId !== null && (
+                <ConfirmPopup
+                    message="모든 멤버에게서 메시지를 삭제하시겠습니까?"
+                    confirmLabel="삭제"
+                    danger
+                    onConfirm={() => deleteMessage(deleteTargetId)}
+                    onCancel={() => setDeleteTargetId(null)}
+                />
+            )}
+
             {/* 참여자 목록 섹션 */}
             {showParticipants && (
                 <div className="w-64 border-l border-gray-200 p-4 bg-white">
@@ -975,10 +1419,31 @@ const Chat: React.FC<{ memberId: number }> = ({ memberId }) => {
                             ))}
                     </div>
 
+                    {/* 자리 비움 멤버 (다른 탭을 보고 있음) */}
+                    <div className="space-y-2 mb-4">
+                        {memberStatusList
+                            .filter(status => status.userLoginStatus === "AWAY")
+                            .map((status, index) => (
+                                <div key={index} className="flex items-center gap-2 p-2 hover:bg-gray-50 rounded-lg">
+                                    <div
+                                        className="w-2 h-2 rounded-full"
+                                        style={{
+                                            backgroundColor: '#facc15',
+                                            boxShadow: '0 0 4px #facc15',
+                                            minWidth: '8px',
+                                            minHeight: '8px'
+                                        }}
+                                    />
+                                    <span className="text-sm text-gray-700">{status.nickname}</span>
+                                    <span className="text-xs text-gray-400">자리 비움</span>
+                                </div>
+                            ))}
+                    </div>
+
                     {/* 오프라인 멤버 */}
                     <div className="space-y-2">
                         {memberStatusList
-                            .filter(status => status.userLoginStatus !== "LOGIN")
+                            .filter(status => status.userLoginStatus !== "LOGIN" && status.userLoginStatus !== "AWAY")
                             .map((status, index) => (
                                 <div key={index} className="flex items-center gap-2 p-2 hover:bg-gray-50 rounded-lg">
                                     <div